@@ -8,6 +8,12 @@ import {
   AgentMessageHandler,
 } from './types';
 import { logger } from '../core/utils';
+import { PermissionsManager } from '../core/permissions/permissions';
+import { createPermissionGuard } from '../core/permissions/guard';
+import { compilePermissions, parsePermission } from '../core/permissions/grammar';
+import { createVectorMemory } from '../core/memory/vector';
+import { memory } from '../core/memory/memory';
+import { AgentId } from '../types/utilities';
 
 /**
  * Validates an agent configuration
@@ -50,6 +56,10 @@ function validateAgentConfig(config: AgentConfig): void {
 
   // Validate permissions format
   for (const permission of config.permissions) {
+    // Strings are checked against the permission grammar when they are compiled
+    if (typeof permission === 'string') {
+      continue;
+    }
     if (!permission.type || typeof permission.type !== 'string') {
       throw new Error('Each permission must have a valid type string');
     }
@@ -81,7 +91,7 @@ function validateAgentConfig(config: AgentConfig): void {
  *   capabilities: ['investment-advice', 'budget-planning', 'tax-optimization'],
  *   permissions: [
  *     { type: 'memory', access: ['read', 'write'] },
- *     { type: 'user-data', access: ['read'] }
+ *     'user-data:read'
  *   ],
  *   processQuery: async (query, context) => {
  *     // Process the user's query and generate a response
@@ -105,42 +115,48 @@ export function createAgent(config: AgentConfig): AgentInstance {
   // Validate the configuration
   validateAgentConfig(config);
 
+  // Grants are bound to the agent, so they don't apply to other apps, plugins or agents
+  const principal = { kind: 'agent' as const, id: config.id as AgentId };
+  const permissions = new PermissionsManager(principal);
+
+  // Context calls need the permissions the agent declared
+  const guard = createPermissionGuard({
+    principal,
+    permissions,
+    declared: compilePermissions(config.permissions),
+    promptOnFirstUse: config.promptOnFirstUse,
+  });
+
   // Initialize context
   const context: AgentContext = {
-    memory: {
-      get: async (key: string) => {
-        logger.log(`Getting memory for key: ${key}`);
-        return null;
-      },
-      set: async (key: string, _value: unknown) => {
-        logger.log(`Setting memory for key: ${key}`);
-      },
-      delete: async (key: string) => {
-        logger.log(`Deleting memory for key: ${key}`);
-      },
-    },
+    // Memory is confined to the agent's namespace
+    memory: guard.memory({
+      ...memory.forPrincipal(principal, { permissions }),
+      vectors: createVectorMemory(config.vectorMemory),
+    }),
     permissions: {
       request: async permission => {
         logger.log(`Requesting permission: ${permission.type}:${permission.access.join(',')}`);
-        return true;
+        return (await permissions.request(permission)).granted;
       },
-      check: async permission => {
-        logger.log(`Checking permission: ${permission}`);
-        return true;
+      check: async (permission, token) => {
+        const { type, access, scope } = parsePermission(permission);
+        return permissions.check(type, access, scope, token);
       },
+      delegate: (specs, options) => permissions.delegate(specs, options),
     },
-    events: {
-      publish: (eventName, _payload) => {
+    events: guard.events({
+      publish: (eventName: string, _payload?: unknown) => {
         logger.log(`Publishing event: ${eventName}`);
       },
-      subscribe: (eventName, _callback) => {
+      subscribe: (eventName: string, _callback: (payload: unknown) => void) => {
         logger.log(`Subscribing to event: ${eventName}`);
         return () => {
           logger.log(`Unsubscribing from event: ${eventName}`);
         };
       },
-    },
-    surfaces: {}, // This would be initialized with actual surface interfaces
+    }),
+    surfaces: guard.surfaces({}), // This would be initialized with actual surface interfaces
   };
 
   // Initialize message handler
@@ -2,7 +2,8 @@
  * Type definitions for agent creation and management
  */
 import { ReactNode } from 'react';
-import { PermissionRequest } from '../core/permissions/types';
+import { DelegateOptions, PermissionRequest, PermissionSpec } from '../core/permissions/types';
+import { PrincipalMemory, VectorMemory, VectorMemoryOptions } from '../core/memory/types';
 
 /**
  * Agent response interface representing the response from an agent to a user query
@@ -55,17 +56,19 @@ export interface QueryContext {
   /**
    * Current memory state
    */
-  memory: {
-    get: (key: string) => Promise<unknown>;
-    set: (key: string, value: unknown) => Promise<void>;
-    delete: (key: string) => Promise<void>;
+  memory: PrincipalMemory & {
+    /**
+     * Vector memory for retrieving context relevant to the query
+     */
+    vectors: VectorMemory;
   };
 
   /**
    * Access to permissions
    */
   permissions: {
-    check: (permission: string) => Promise<boolean>;
+    check: (permission: string, token?: string) => Promise<boolean>;
+    delegate: (permissions: PermissionSpec[], options: DelegateOptions) => Promise<string>;
   };
 
   /**
@@ -89,12 +92,13 @@ export interface QueryContext {
  */
 export interface AgentContext {
   /**
-   * Access to memory system
+   * Memory confined to the agent's namespace
    */
-  memory: {
-    get: (key: string) => Promise<unknown>;
-    set: (key: string, value: unknown) => Promise<void>;
-    delete: (key: string) => Promise<void>;
+  memory: PrincipalMemory & {
+    /**
+     * Vector memory for retrieval-augmented generation
+     */
+    vectors: VectorMemory;
   };
 
   /**
@@ -102,7 +106,17 @@ export interface AgentContext {
    */
   permissions: {
     request: (permission: PermissionRequest) => Promise<boolean>;
-    check: (permission: string) => Promise<boolean>;
+
+    /**
+     * Check a permission string such as 'memory:read:conversation',
+     * optionally against a capability token delegated to this agent
+     */
+    check: (permission: string, token?: string) => Promise<boolean>;
+
+    /**
+     * Delegate permissions this agent holds to another principal with a capability token
+     */
+    delegate: (permissions: PermissionSpec[], options: DelegateOptions) => Promise<string>;
   };
 
   /**
@@ -144,9 +158,16 @@ export interface AgentConfig {
   description?: string;
 
   /**
-   * Required permissions for the agent to function
+   * Required permissions for the agent to function,
+   * as permission strings such as 'memory:read' or permission requests
+   */
+  permissions: PermissionSpec[];
+
+  /**
+   * Request declared permissions the first time the context needs them,
+   * instead of throwing a PermissionError (default: false)
    */
-  permissions: PermissionRequest[];
+  promptOnFirstUse?: boolean;
 
   /**
    * Specialized domain of the agent
@@ -183,6 +204,12 @@ export interface AgentConfig {
    * Optional agent icon URL
    */
   iconUrl?: string;
+
+  /**
+   * Embedding function and index for the agent's vector memory
+   * Defaults to a lexical embedding with an in-process index
+   */
+  vectorMemory?: VectorMemoryOptions;
 }
 
 /**
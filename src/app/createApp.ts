@@ -6,9 +6,14 @@ import {
   AppPlugin,
 } from './types';
 import React from 'react';
-// import { permissions } from '../core/permissions'; // Will be implemented later
+import { PermissionsManager, endPermissionSession } from '../core/permissions/permissions';
+import { createPermissionGuard } from '../core/permissions/guard';
+import { compilePermissions, formatPermission } from '../core/permissions/grammar';
 import { events } from '../core/events';
+import { memory } from '../core/memory/memory';
+import { PluginId } from '../types/utilities';
 import { logger } from '../core/utils';
+import { ConfigurationError } from '../core/errors';
 
 /**
  * Creates a Vibing AI app
@@ -48,6 +53,12 @@ export function createApp(config: AppConfig): AppInstance {
   // Store for plugins
   const plugins: AppPlugin[] = [];
 
+  // Principal a plugin's grants and memory are bound to, checked to have an id on registration
+  const getPluginPrincipal = (plugin: AppPlugin) => ({
+    kind: 'plugin' as const,
+    id: plugin.config?.id as PluginId,
+  });
+
   // Type for internal methods
   interface InternalApp extends AppInstance {
     _initialize: () => Promise<boolean>;
@@ -69,6 +80,14 @@ export function createApp(config: AppConfig): AppInstance {
 
     // Plugin management
     registerPlugin: (plugin: AppPlugin): void => {
+      // Plugins without an id would share a principal, and with it grants and memory
+      if (!plugin.config?.id) {
+        throw new ConfigurationError(
+          `Plugin "${plugin.config?.name || 'Unknown'}" needs an id to be registered with app "${config.name}"`,
+          { code: 'PLUGIN_ID_REQUIRED' }
+        );
+      }
+
       plugins.push(plugin);
       logger.log(
         `Plugin "${plugin.config?.name || 'Unknown'}" registered with app "${config.name}"`
@@ -91,6 +110,12 @@ export function createApp(config: AppConfig): AppInstance {
       return app._initialize();
     },
 
+    unmount: async (): Promise<void> => {
+      // Session-only grants of the app and its plugins end with it
+      endPermissionSession([{ kind: 'app', id: config.name }, ...plugins.map(getPluginPrincipal)]);
+      events.publish('app:unmounted', { name: config.name });
+    },
+
     // React Provider component for tests
     AppProvider: ({ children }: { children: React.ReactNode }): React.ReactElement => {
       return React.createElement(React.Fragment, null, children);
@@ -111,26 +136,21 @@ export function createApp(config: AppConfig): AppInstance {
 
   // Request necessary permissions if specified
   if (config.permissions && config.permissions.length > 0) {
-    // In the actual implementation, this would handle permission requests properly
-    // For Stage 1, we'll just log them
-    logger.log(`App "${config.name}" requires permissions: ${config.permissions.join(', ')}`);
+    const permissionRequests = compilePermissions(config.permissions, {
+      purpose: `Required for ${config.name} to function`,
+    });
 
-    // Example permission request for when it's needed
-    const requestPermissions = async (): Promise<void> => {
-      // This is a simplified implementation for Stage 1
-      // In production, this would handle more complex permission mapping
-      const permissionRequests = config.permissions?.map(perm => {
-        const [type, access] = perm.split(':');
-        return {
-          type,
-          access: [access],
-          scope: 'conversation' as const,
-          purpose: `Required for ${config.name} to function`,
-        };
-      });
+    logger.log(
+      `App "${config.name}" requires permissions: ${permissionRequests.map(formatPermission).join(', ')}`
+    );
+
+    // Grants are bound to the app, so they don't apply to its plugins
+    const permissions = new PermissionsManager({ kind: 'app', id: config.name });
 
-      // For demonstration purposes, log but don't actually request in this version
-      logger.log('App will request permissions:', permissionRequests);
+    const requestPermissions = async (): Promise<void> => {
+      for (const request of permissionRequests) {
+        await permissions.request(request);
+      }
     };
 
     // Store the permission request function for later use
@@ -153,13 +173,23 @@ export function createApp(config: AppConfig): AppInstance {
       for (const plugin of plugins) {
         if (plugin.onInitialize && typeof plugin.onInitialize === 'function') {
           try {
-            // Initialize plugin with app context
+            // Initialize plugin with app context, guarded by the plugin's declared permissions
+            const principal = getPluginPrincipal(plugin);
+            const permissions = new PermissionsManager(principal);
+            const guard = createPermissionGuard({
+              principal,
+              permissions,
+              declared: compilePermissions(plugin.config?.permissions || []),
+              promptOnFirstUse: plugin.config?.promptOnFirstUse,
+            });
+
             await plugin.onInitialize({
               app: {
                 name: config.name,
                 data: config.data || {},
               },
-              events: events,
+              memory: guard.memory(memory.forPrincipal(principal, { permissions })),
+              events: guard.events(events),
             });
           } catch (error) {
             logger.error(`Error initializing plugin "${plugin.config?.name || 'Unknown'}":`, error);
@@ -2,6 +2,8 @@
  * App type definitions
  */
 import React from 'react';
+import { PermissionSpec } from '../core/permissions/types';
+import { PrincipalMemory } from '../core/memory/types';
 
 export interface AppOptions {
   name?: string;
@@ -10,7 +12,7 @@ export interface AppOptions {
 export interface AppConfig {
   name: string;
   description?: string;
-  permissions?: string[];
+  permissions?: PermissionSpec[];
   data?: Record<string, unknown>;
 }
 
@@ -35,19 +37,29 @@ export interface AppInstance {
   unregisterPlugin?: (pluginId: string) => void;
   getPlugins?: () => AppPlugin[];
   initialize?: () => Promise<boolean>;
+  unmount?: () => Promise<void>;
   AppProvider?: (props: { children: React.ReactNode }) => React.ReactElement;
 }
 
 export interface AppPlugin {
   config?: {
+    /**
+     * Id the plugin's grants and memory are bound to, required to register it
+     */
     id?: string;
     name?: string;
+    permissions?: PermissionSpec[];
+    promptOnFirstUse?: boolean;
   };
   onInitialize?: (context: {
     app: {
       name: string;
       data: Record<string, unknown>;
     };
+    /**
+     * Memory confined to the plugin's namespace
+     */
+    memory: PrincipalMemory;
     events: {
       publish: (eventName: string, payload?: unknown) => void;
       subscribe: (eventName: string, callback: (payload: unknown) => void) => () => void;
@@ -1,5 +1,6 @@
 import { AppManifest } from '../../types';
 import { logger } from '../../../core/utils';
+import { compilePermissions } from '../../../core/permissions/grammar';
 
 /**
  * Storage for registered apps
@@ -9,6 +10,7 @@ const apps: Map<string, AppManifest> = new Map();
 
 /**
  * Register an app with the app manager
+ * The manifest's permissions are stored compiled to permission requests.
  * @param manifest - The app manifest containing app metadata
  */
 export const registerApp = (manifest: AppManifest): void => {
@@ -17,7 +19,16 @@ export const registerApp = (manifest: AppManifest): void => {
     return;
   }
 
-  apps.set(manifest.id, manifest);
+  // Store the permissions as requests, whichever form the manifest uses
+  let permissions = manifest.permissions;
+  try {
+    permissions = permissions && compilePermissions(permissions);
+  } catch (error) {
+    logger.error(`Cannot register app ${manifest.id}: invalid permissions`, error);
+    return;
+  }
+
+  apps.set(manifest.id, permissions ? { ...manifest, permissions } : manifest);
   logger.log(`App registered: ${manifest.name} (${manifest.id})`);
 };
 
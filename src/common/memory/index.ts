@@ -1,22 +1,31 @@
-import * as memoryStorage from './memoryStorage';
+import { createInMemoryAdapter } from '../../core/memory/adapters';
 
 export interface MemoryOptions {
   scope: string;
 }
 
+/**
+ * In-process storage adapter behind useMemory
+ * Items are stored under `${scope}_${key}` like MemoryManager entries, so a
+ * MemoryManager using this adapter reads the same items.
+ */
+export const memoryStorageAdapter = createInMemoryAdapter();
+
+const getStorageKey = (key: string, scope: string) => `${scope}_${key}`;
+
 export const useMemory = () => {
   return {
     getItem: (key: string, options?: Partial<MemoryOptions>) => {
       const scope = options?.scope || 'default';
-      return memoryStorage.getMemoryItem(key, { scope });
+      return memoryStorageAdapter.getItemSync(getStorageKey(key, scope))?.value ?? null;
     },
     setItem: (key: string, value: any, options?: Partial<MemoryOptions>) => {
       const scope = options?.scope || 'default';
-      memoryStorage.setMemoryItem(key, value, { scope });
+      memoryStorageAdapter.setItemSync(getStorageKey(key, scope), { value });
     },
     removeItem: (key: string, options?: Partial<MemoryOptions>) => {
       const scope = options?.scope || 'default';
-      memoryStorage.removeMemoryItem(key, { scope });
+      memoryStorageAdapter.removeItemSync(getStorageKey(key, scope));
     },
   };
 };
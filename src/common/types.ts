@@ -1,3 +1,5 @@
+import { PermissionSpec } from '../core/permissions/types';
+
 export enum PermissionType {
   CAMERA = 'camera',
   MICROPHONE = 'microphone',
@@ -10,6 +12,12 @@ export interface AppManifest {
   name: string;
   version: string;
   description?: string;
+
+  /**
+   * Permissions the app needs, in any form `compilePermissions` reads,
+   * such as the dotted `'memory.read'` or `'surfaces.cards.create'` of vibing.json
+   */
+  permissions?: PermissionSpec[];
 }
 
 export interface AppConfig {
@@ -280,6 +280,45 @@ export class ConfigurationError extends SDKError {
   }
 }
 
+/**
+ * Error thrown when a storage backend runs out of space
+ * @class QuotaExceededError
+ * @extends SDKError
+ */
+export class QuotaExceededError extends SDKError {
+  /** Name of the storage backend that rejected the write */
+  public readonly storage: string;
+
+  /**
+   * Creates a new quota exceeded error
+   * @param message Error message
+   * @param storage Name of the storage backend
+   * @param options Error options
+   */
+  constructor(
+    message: string,
+    storage: string,
+    options: {
+      code?: string;
+      statusCode?: number;
+      context?: Record<string, unknown>;
+      cause?: Error;
+    } = {}
+  ) {
+    super(message, {
+      code: options.code || 'QUOTA_EXCEEDED',
+      statusCode: options.statusCode || 507,
+      context: options.context,
+      retryable: false, // Retrying won't help until space is freed
+      cause: options.cause,
+    });
+    this.storage = storage;
+
+    // Set the prototype explicitly
+    Object.setPrototypeOf(this, QuotaExceededError.prototype);
+  }
+}
+
 // Utility Functions
 
 /**
@@ -304,6 +343,7 @@ export function createError(options: {
     | 'timeout'
     | 'notFound'
     | 'configuration'
+    | 'quota'
     | 'generic';
   message: string;
   code?: string;
@@ -316,6 +356,7 @@ export function createError(options: {
   resource?: string;
   identifier?: string;
   timeoutMs?: number;
+  storage?: string;
 }): SDKError {
   switch (options.type) {
     case 'validation':
@@ -372,6 +413,16 @@ export function createError(options: {
         context: options.context,
         cause: options.cause,
       });
+    case 'quota':
+      if (!options.storage) {
+        throw new Error('Storage must be specified for quota errors');
+      }
+      return new QuotaExceededError(options.message, options.storage, {
+        code: options.code,
+        statusCode: options.statusCode,
+        context: options.context,
+        cause: options.cause,
+      });
     case 'generic':
     default:
       return new SDKError(options.message, {
@@ -0,0 +1,335 @@
+/**
+ * Simple event system for the Vibing AI SDK
+ */
+import {
+  EventContext,
+  EventListener,
+  SDKEvents,
+  SubscribeOptions,
+  TypedEventBus,
+  WaitForOptions,
+} from './types';
+import { TimeoutError } from '../errors';
+import { EventMap } from '../types/index';
+
+/**
+ * EventEmitter class for backward compatibility
+ */
+export class EventEmitter {
+  private listeners: Record<string, Array<(...args: unknown[]) => void>> = {};
+
+  on(event: string, callback: (...args: unknown[]) => void): () => void {
+    if (!this.listeners[event]) {
+      this.listeners[event] = [];
+    }
+
+    this.listeners[event].push(callback);
+
+    return () => this.off(event, callback);
+  }
+
+  off(event: string, callback: (...args: unknown[]) => void): void {
+    if (!this.listeners[event]) return;
+
+    this.listeners[event] = this.listeners[event].filter(listener => listener !== callback);
+  }
+
+  emit(event: string, ...args: unknown[]): void {
+    if (!this.listeners[event]) return;
+
+    this.listeners[event].forEach(listener => {
+      listener(...args);
+    });
+  }
+}
+
+/**
+ * Compiled glob patterns, by pattern
+ */
+const compiledPatterns = new Map<string, RegExp>();
+
+const escapeRegExp = (text: string): string => text.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Check whether an event name matches a subscription pattern
+ *
+ * `*` matches any characters within one `:`-separated segment and `**` any
+ * characters across segments; other names only match themselves.
+ *
+ * @param pattern Event name or glob pattern
+ * @param event Event name
+ * @returns Whether the event matches
+ * @example
+ * ```ts
+ * matchesEventPattern('data:*', 'data:available'); // true
+ * matchesEventPattern('data:*', 'data:cache:cleared'); // false
+ * matchesEventPattern('data:**', 'data:cache:cleared'); // true
+ * ```
+ */
+export function matchesEventPattern(pattern: string, event: string): boolean {
+  if (!pattern.includes('*')) {
+    return pattern === event;
+  }
+
+  let compiled = compiledPatterns.get(pattern);
+  if (!compiled) {
+    const source = pattern
+      .split('**')
+      .map(part => part.split('*').map(escapeRegExp).join('[^:]*'))
+      .join('.*');
+    compiled = new RegExp(`^${source}$`);
+    compiledPatterns.set(pattern, compiled);
+  }
+  return compiled.test(event);
+}
+
+/**
+ * Listener with its subscription options
+ */
+interface Subscription {
+  callback: EventListener<unknown>;
+  priority: number;
+  once: boolean;
+
+  /**
+   * Subscription order, to call listeners of the same priority in order
+   */
+  order: number;
+}
+
+// Event system
+class EventSystem {
+  private listeners: Record<string, Subscription[]> = {};
+  private order = 0;
+
+  /**
+   * Subscribe to an event, or to every event matching a pattern
+   * @param event Event name or pattern
+   * @param callback Callback function
+   * @param options Priority and whether to unsubscribe after the first event
+   * @returns Unsubscribe function
+   */
+  subscribe<T = unknown>(
+    event: string,
+    callback: EventListener<T>,
+    options: SubscribeOptions = {}
+  ): () => void {
+    if (!this.listeners[event]) {
+      this.listeners[event] = [];
+    }
+
+    const subscription: Subscription = {
+      callback: callback as EventListener<unknown>,
+      priority: options.priority ?? 0,
+      once: options.once ?? false,
+      order: this.order++,
+    };
+    this.listeners[event].push(subscription);
+
+    return () => this.remove(event, entry => entry === subscription);
+  }
+
+  /**
+   * Publish an event
+   *
+   * Listeners of the event and of patterns matching it are called by
+   * priority, until one of them stops propagation.
+   *
+   * @param event Event name
+   * @param data Event data
+   */
+  publish<T = unknown>(event: string, data: T): void {
+    const matching: Array<[string, Subscription]> = [];
+
+    Object.keys(this.listeners).forEach(pattern => {
+      if (matchesEventPattern(pattern, event)) {
+        this.listeners[pattern].forEach(subscription => matching.push([pattern, subscription]));
+      }
+    });
+    matching.sort(([, a], [, b]) => b.priority - a.priority || a.order - b.order);
+
+    let stopped = false;
+    const context: EventContext = {
+      name: event,
+      stopPropagation: () => {
+        stopped = true;
+      },
+    };
+
+    for (const [pattern, subscription] of matching) {
+      if (subscription.once) {
+        this.remove(pattern, entry => entry === subscription);
+      }
+
+      try {
+        subscription.callback(data, context);
+      } catch (err) {
+        console.error(`Error in event listener for '${event}':`, err);
+      }
+
+      if (stopped) {
+        break;
+      }
+    }
+  }
+
+  /**
+   * Subscribe to an event (alias for subscribe)
+   * @param event Event name or pattern
+   * @param callback Callback function
+   * @param options Priority and whether to unsubscribe after the first event
+   * @returns Unsubscribe function
+   */
+  on<T = unknown>(
+    event: string,
+    callback: EventListener<T>,
+    options: SubscribeOptions = {}
+  ): () => void {
+    return this.subscribe(event, callback, options);
+  }
+
+  /**
+   * Subscribe to the next event only
+   * @param event Event name or pattern
+   * @param callback Callback function
+   * @param options Priority of the listener
+   * @returns Unsubscribe function, to stop listening before the event
+   */
+  once<T = unknown>(
+    event: string,
+    callback: EventListener<T>,
+    options: Omit<SubscribeOptions, 'once'> = {}
+  ): () => void {
+    return this.subscribe(event, callback, { ...options, once: true });
+  }
+
+  /**
+   * Wait for the next event
+   * @param event Event name or pattern
+   * @param options Timeout and filter for the event
+   * @returns Promise resolving with the event data
+   * @throws TimeoutError with code EVENT_TIMEOUT if no event arrives in time
+   */
+  waitFor<T = unknown>(event: string, options: WaitForOptions<T> = {}): Promise<T> {
+    const { timeout, filter } = options;
+
+    return new Promise<T>((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | null = null;
+
+      const settle = (): void => {
+        unsubscribe();
+        if (timer) {
+          clearTimeout(timer);
+        }
+      };
+
+      const unsubscribe = this.subscribe<T>(event, (data, context) => {
+        try {
+          if (filter && !filter(data, context)) {
+            return;
+          }
+        } catch (err) {
+          settle();
+          reject(err);
+          return;
+        }
+
+        settle();
+        resolve(data);
+      });
+
+      if (timeout !== undefined) {
+        timer = setTimeout(() => {
+          unsubscribe();
+          reject(
+            new TimeoutError(`Timed out waiting for event '${event}'`, timeout, {
+              code: 'EVENT_TIMEOUT',
+              context: { event },
+            })
+          );
+        }, timeout);
+      }
+    });
+  }
+
+  /**
+   * Unsubscribe from an event
+   * @param event Event name or pattern the callback was subscribed with
+   * @param callback Callback function
+   */
+  off<T = unknown>(event: string, callback: EventListener<T>): void {
+    this.remove(event, entry => entry.callback === (callback as EventListener<unknown>));
+  }
+
+  /**
+   * Emit an event (alias for publish)
+   * @param event Event name
+   * @param data Event data
+   */
+  emit<T = unknown>(event: string, data: T): void {
+    this.publish(event, data);
+  }
+
+  /**
+   * Clear all listeners for an event
+   * @param event Event name or pattern
+   */
+  clear(event: string): void {
+    delete this.listeners[event];
+  }
+
+  /**
+   * Clear all event listeners
+   */
+  clearAll(): void {
+    this.listeners = {};
+  }
+
+  /**
+   * Remove the listeners of an event or pattern that match a predicate
+   */
+  private remove(event: string, predicate: (subscription: Subscription) => boolean): void {
+    // Listeners may have been cleared already
+    if (!this.listeners[event]) return;
+
+    this.listeners[event] = this.listeners[event].filter(entry => !predicate(entry));
+    if (this.listeners[event].length === 0) {
+      delete this.listeners[event];
+    }
+  }
+}
+
+/**
+ * Create an event bus of its own, checking event names and payloads against an event map
+ *
+ * @returns Event bus with no listeners
+ * @example
+ * ```ts
+ * interface ChatEvents {
+ *   'message:sent': { text: string };
+ *   'message:read': { id: string };
+ * }
+ *
+ * const chat = createEventBus<ChatEvents>();
+ * chat.subscribe('message:sent', ({ text }) => console.log(text));
+ * chat.publish('message:sent', { text: 'Hello' });
+ * ```
+ */
+export function createEventBus<Events extends object = EventMap>(): TypedEventBus<Events> {
+  return new EventSystem();
+}
+
+/**
+ * Core event bus the SDK publishes its events on, see `SDKEventMap`
+ */
+export const events: TypedEventBus<SDKEvents> = new EventSystem();
+
+/**
+ * Publish an event to all subscribers
+ * Similar to emit but typically used for system-level events
+ * @param eventName The name of the event
+ * @param data The data to send with the event
+ */
+export const publish = function <T = unknown>(eventName: string, data?: T) {
+  events.publish(eventName, data);
+};
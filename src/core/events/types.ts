@@ -0,0 +1,250 @@
+import { EventMap } from '../types/index';
+import { MemoryEvictedEvent, MemoryQuotaExceededEvent } from '../memory/types';
+import { PermissionAuditRecord, PermissionExpiringEvent } from '../permissions/types';
+
+/**
+ * Event being dispatched to a listener
+ */
+export interface EventContext {
+  /**
+   * Name the event was published with, which differs from the pattern listened to for wildcards
+   */
+  name: string;
+
+  /**
+   * Stop the event from reaching listeners of lower priority
+   */
+  stopPropagation(): void;
+}
+
+/**
+ * Event listener
+ */
+export type EventListener<T = unknown> = (data: T, event: EventContext) => void;
+
+/**
+ * Options for subscribing to events
+ */
+export interface SubscribeOptions {
+  /**
+   * Listeners of higher priority are called first, in subscription order within a priority
+   * @default 0
+   */
+  priority?: number;
+
+  /**
+   * Unsubscribe after the first event
+   * @default false
+   */
+  once?: boolean;
+}
+
+/**
+ * Options for waiting for an event
+ */
+export interface WaitForOptions<T = unknown> {
+  /**
+   * Milliseconds to wait before rejecting with a TimeoutError
+   */
+  timeout?: number;
+
+  /**
+   * Only resolve with events for which this returns true
+   */
+  filter?: (data: T, event: EventContext) => boolean;
+}
+
+/**
+ * Names of the events in an event map
+ */
+export type EventName<Events extends object> = keyof Events & string;
+
+/**
+ * Event names and glob patterns that can be subscribed to
+ *
+ * In patterns, `*` matches within one `:`-separated segment and `**` across
+ * segments, so `data:*` matches `data:available` and `**` matches every event.
+ */
+export type EventPattern<Events extends object> = EventName<Events> | `${string}*${string}`;
+
+/**
+ * Payloads of the events whose names start with a prefix, or `unknown` when the map is open
+ */
+type PrefixedPayload<Events extends object, Prefix extends string> = string extends keyof Events
+  ? unknown
+  : {
+      [Name in EventName<Events>]: Name extends `${Prefix}${string}` ? Events[Name] : never;
+    }[EventName<Events>];
+
+/**
+ * Payload of an event or pattern, or `T` when given explicitly
+ *
+ * Names missing from the map have `unknown` payloads, and patterns the
+ * payloads of every event starting like them.
+ */
+export type EventPayload<Events extends object, Name extends string, T = never> = [T] extends [
+  never,
+]
+  ? Name extends keyof Events
+    ? Events[Name]
+    : Name extends `${infer Prefix}*${string}`
+      ? PrefixedPayload<Events, Prefix>
+      : unknown
+  : T;
+
+/**
+ * `T`, without letting TypeScript infer type arguments from it, like the `NoInfer` of TypeScript 5.4
+ */
+type NoInferPayload<T> = [T][T extends unknown ? 0 : never];
+
+/**
+ * Event bus checking event names and payloads against an event map
+ *
+ * An explicit type argument overrides the payload type in the map, as in
+ * `subscribe<MyPayload>('my:event', ...)`.
+ */
+export interface TypedEventBus<Events extends object = EventMap> {
+  /**
+   * Subscribe to an event, or to every event matching a pattern
+   * @param event Event name or pattern
+   * @param callback Callback function
+   * @param options Priority and whether to unsubscribe after the first event
+   * @returns Unsubscribe function
+   */
+  subscribe<T = never, Name extends EventPattern<Events> = EventPattern<Events>>(
+    event: Name,
+    callback: EventListener<EventPayload<Events, Name, T>>,
+    options?: SubscribeOptions
+  ): () => void;
+
+  /**
+   * Publish an event
+   * @param event Event name
+   * @param data Event data
+   */
+  publish<T = never, Name extends EventName<Events> = EventName<Events>>(
+    event: Name,
+    data: NoInferPayload<EventPayload<Events, Name, T>>
+  ): void;
+
+  /**
+   * Subscribe to an event (alias for subscribe)
+   * @param event Event name or pattern
+   * @param callback Callback function
+   * @param options Priority and whether to unsubscribe after the first event
+   * @returns Unsubscribe function
+   */
+  on<T = never, Name extends EventPattern<Events> = EventPattern<Events>>(
+    event: Name,
+    callback: EventListener<EventPayload<Events, Name, T>>,
+    options?: SubscribeOptions
+  ): () => void;
+
+  /**
+   * Subscribe to the next event only
+   * @param event Event name or pattern
+   * @param callback Callback function
+   * @param options Priority of the listener
+   * @returns Unsubscribe function, to stop listening before the event
+   */
+  once<T = never, Name extends EventPattern<Events> = EventPattern<Events>>(
+    event: Name,
+    callback: EventListener<EventPayload<Events, Name, T>>,
+    options?: Omit<SubscribeOptions, 'once'>
+  ): () => void;
+
+  /**
+   * Wait for the next event
+   * @param event Event name or pattern
+   * @param options Timeout and filter for the event
+   * @returns Promise resolving with the event data
+   * @throws TimeoutError with code EVENT_TIMEOUT if no event arrives in time
+   */
+  waitFor<T = never, Name extends EventPattern<Events> = EventPattern<Events>>(
+    event: Name,
+    options?: WaitForOptions<EventPayload<Events, Name, T>>
+  ): Promise<EventPayload<Events, Name, T>>;
+
+  /**
+   * Unsubscribe from an event
+   * @param event Event name or pattern the callback was subscribed with
+   * @param callback Callback function
+   */
+  off<T = never, Name extends EventPattern<Events> = EventPattern<Events>>(
+    event: Name,
+    callback: EventListener<EventPayload<Events, Name, T>>
+  ): void;
+
+  /**
+   * Emit an event (alias for publish)
+   * @param event Event name
+   * @param data Event data
+   */
+  emit<T = never, Name extends EventName<Events> = EventName<Events>>(
+    event: Name,
+    data: NoInferPayload<EventPayload<Events, Name, T>>
+  ): void;
+
+  /**
+   * Clear all listeners for an event
+   * @param event Event name or pattern
+   */
+  clear(event: EventPattern<Events>): void;
+
+  /**
+   * Clear all event listeners
+   */
+  clearAll(): void;
+}
+
+/**
+ * Payload of `app:*` lifecycle events
+ */
+export interface AppLifecycleEvent {
+  name: string;
+}
+
+/**
+ * Payload of the `app:created` event
+ */
+export interface AppCreatedEvent extends AppLifecycleEvent {
+  description?: string;
+}
+
+/**
+ * Payload of the `app:error` event
+ */
+export interface AppErrorEvent extends AppLifecycleEvent {
+  /**
+   * Lifecycle phase that failed
+   */
+  phase: 'initialization' | 'rendering';
+
+  error: unknown;
+}
+
+/**
+ * Events the SDK publishes on the core `events` bus
+ */
+export interface SDKEventMap {
+  'app:created': AppCreatedEvent;
+  'app:initializing': AppLifecycleEvent;
+  'app:initialized': AppLifecycleEvent;
+  'app:rendering': AppLifecycleEvent;
+  'app:rendered': AppLifecycleEvent;
+  'app:unmounted': AppLifecycleEvent;
+  'app:error': AppErrorEvent;
+  'memory:evicted': MemoryEvictedEvent;
+  'memory:quota-exceeded': MemoryQuotaExceededEvent;
+  'permission:granted': PermissionAuditRecord;
+  'permission:denied': PermissionAuditRecord;
+  'permission:checked': PermissionAuditRecord;
+  'permission:revoked': PermissionAuditRecord;
+  'permission:expired': PermissionAuditRecord;
+  'permission:expiring': PermissionExpiringEvent;
+}
+
+/**
+ * Events of the core `events` bus: the SDK's events, and any other name with an `unknown` payload
+ */
+export type SDKEvents = SDKEventMap & { [event: string]: unknown };
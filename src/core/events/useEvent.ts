@@ -0,0 +1,38 @@
+import { useEffect, useRef } from 'react';
+import { EventListener, EventPattern, EventPayload, SDKEvents, TypedEventBus } from './types';
+import { events } from './events';
+
+/**
+ * Hook subscribing a component to an event while it is mounted
+ *
+ * The handler may change between renders without resubscribing.
+ *
+ * @param event Event name or pattern
+ * @param handler Called with the payload of each event
+ * @param bus Event bus to subscribe on, the core `events` bus by default
+ *
+ * @example
+ * ```tsx
+ * useEvent('app:error', ({ name, phase }) => {
+ *   setStatus(`${name} failed during ${phase}`);
+ * });
+ *
+ * useEvent('message:sent', ({ text }) => setLast(text), chat);
+ * ```
+ */
+export function useEvent<
+  Events extends object = SDKEvents,
+  Name extends EventPattern<Events> = EventPattern<Events>,
+>(
+  event: Name,
+  handler: EventListener<EventPayload<Events, Name>>,
+  bus?: TypedEventBus<Events>
+): void {
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => {
+    const target = bus || (events as unknown as TypedEventBus<Events>);
+    return target.subscribe(event, (data, context) => handlerRef.current(data, context));
+  }, [event, bus]);
+}
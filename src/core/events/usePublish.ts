@@ -0,0 +1,27 @@
+import { useCallback } from 'react';
+import { SDKEvents, TypedEventBus } from './types';
+import { events } from './events';
+
+/**
+ * Hook for a stable function publishing events
+ *
+ * @param bus Event bus to publish on, the core `events` bus by default
+ * @returns Publish function, checking event names and payloads like the bus does
+ *
+ * @example
+ * ```tsx
+ * const publish = usePublish(chat);
+ *
+ * return <button onClick={() => publish('message:sent', { text })}>Send</button>;
+ * ```
+ */
+export function usePublish<Events extends object = SDKEvents>(
+  bus?: TypedEventBus<Events>
+): TypedEventBus<Events>['publish'] {
+  const target = bus || (events as unknown as TypedEventBus<Events>);
+
+  return useCallback<TypedEventBus<Events>['publish']>(
+    (event, data) => target.publish(event, data),
+    [target]
+  );
+}
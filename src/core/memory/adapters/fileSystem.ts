@@ -0,0 +1,126 @@
+/**
+ * Filesystem storage adapter for the memory system (Node.js only)
+ */
+import { MemoryEntry, MemoryStorageAdapter } from '../types';
+import { logger } from '../../utils/logger';
+import { toStorageWriteError } from './storageErrors';
+
+/**
+ * Options for the filesystem adapter
+ */
+export interface FileSystemAdapterOptions {
+  /**
+   * Directory where memory entries are written, one JSON file per key
+   */
+  directory: string;
+}
+
+/**
+ * File extension used for memory entries
+ */
+const ENTRY_EXTENSION = '.json';
+
+/**
+ * Creates an adapter that persists entries as JSON files in a directory.
+ * `fs` is loaded on first use, so importing the SDK in a browser bundle stays safe.
+ *
+ * @example
+ * ```ts
+ * const memory = createMemory({
+ *   adapter: createFileSystemAdapter({ directory: './.vibing/memory' }),
+ * });
+ * ```
+ */
+export function createFileSystemAdapter(options: FileSystemAdapterOptions): MemoryStorageAdapter {
+  const { directory } = options;
+
+  let ready: Promise<typeof import('fs/promises')> | null = null;
+
+  /**
+   * Load the fs module and make sure the directory exists
+   */
+  const getFs = (): Promise<typeof import('fs/promises')> => {
+    if (!ready) {
+      ready = import('fs/promises').then(async fs => {
+        await fs.mkdir(directory, { recursive: true });
+        return fs;
+      });
+    }
+    return ready;
+  };
+
+  /**
+   * Map a key to a file path; keys are URI-encoded to keep them filesystem-safe
+   */
+  const toPath = (key: string): string =>
+    `${directory}/${encodeURIComponent(key)}${ENTRY_EXTENSION}`;
+
+  /**
+   * Check whether an error is a "file not found" error
+   */
+  const isNotFound = (e: unknown): boolean =>
+    typeof e === 'object' && e !== null && (e as { code?: string }).code === 'ENOENT';
+
+  return {
+    name: 'fileSystem',
+
+    getItem: async (key: string): Promise<MemoryEntry | null> => {
+      const fs = await getFs();
+      let rawData: string;
+      try {
+        rawData = await fs.readFile(toPath(key), 'utf8');
+      } catch (e) {
+        if (!isNotFound(e)) {
+          logger.warn('fileSystem read failed:', e);
+        }
+        return null;
+      }
+
+      try {
+        return JSON.parse(rawData) as MemoryEntry;
+      } catch (e) {
+        logger.error(`Failed to parse memory item ${key}:`, e);
+        return null;
+      }
+    },
+
+    setItem: async (key: string, entry: MemoryEntry): Promise<void> => {
+      const fs = await getFs();
+      const serialized = JSON.stringify(entry);
+      try {
+        await fs.writeFile(toPath(key), serialized, 'utf8');
+      } catch (e) {
+        throw toStorageWriteError(e, 'fileSystem', key);
+      }
+    },
+
+    removeItem: async (key: string): Promise<void> => {
+      const fs = await getFs();
+      try {
+        await fs.unlink(toPath(key));
+      } catch (e) {
+        if (!isNotFound(e)) {
+          throw e;
+        }
+      }
+    },
+
+    keys: async (): Promise<string[]> => {
+      const fs = await getFs();
+      const files = await fs.readdir(directory);
+      return files
+        .filter(file => file.endsWith(ENTRY_EXTENSION))
+        .map(file => decodeURIComponent(file.slice(0, -ENTRY_EXTENSION.length)));
+    },
+
+    clear: async (): Promise<void> => {
+      const fs = await getFs();
+      const files = await fs.readdir(directory);
+      await Promise.all(
+        files
+          .filter(file => file.endsWith(ENTRY_EXTENSION))
+          .map(file => fs.unlink(`${directory}/${file}`))
+      );
+    },
+  };
+}
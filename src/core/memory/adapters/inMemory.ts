@@ -0,0 +1,111 @@
+/**
+ * In-process storage adapter for the memory system
+ */
+import { MemoryEntry, MemoryStorageAdapter } from '../types';
+
+/**
+ * In-process adapter with synchronous accessors
+ */
+export interface InMemoryStorageAdapter extends MemoryStorageAdapter {
+  /**
+   * Get an entry without waiting on a promise
+   */
+  getItemSync(key: string): MemoryEntry | null;
+
+  /**
+   * Store an entry without waiting on a promise
+   */
+  setItemSync(key: string, entry: MemoryEntry): void;
+
+  /**
+   * Remove an entry without waiting on a promise
+   */
+  removeItemSync(key: string): void;
+}
+
+/**
+ * Deep copy of plain objects, arrays, Dates, Maps and Sets, for runtimes without structuredClone
+ */
+const copyValue = (value: unknown): unknown => {
+  if (value instanceof Date) {
+    return new Date(value.getTime());
+  }
+  if (value instanceof Map) {
+    return new Map(Array.from(value, ([key, item]) => [copyValue(key), copyValue(item)]));
+  }
+  if (value instanceof Set) {
+    return new Set(Array.from(value, copyValue));
+  }
+  if (Array.isArray(value)) {
+    return value.map(copyValue);
+  }
+  if (value && typeof value === 'object') {
+    return Object.keys(value).reduce<Record<string, unknown>>((copy, key) => {
+      copy[key] = copyValue((value as Record<string, unknown>)[key]);
+      return copy;
+    }, {});
+  }
+  return value;
+};
+
+/**
+ * Copy an entry, so stored entries share no objects with callers
+ */
+const copyEntry = (entry: MemoryEntry): MemoryEntry => {
+  return typeof structuredClone === 'function'
+    ? structuredClone(entry)
+    : (copyValue(entry) as MemoryEntry);
+};
+
+/**
+ * Creates an adapter that keeps entries in a Map for the lifetime of the process.
+ * Suitable for Node agents, server-side rendering and tests. Entries are
+ * copied in and out, so changing a value after storing or reading it doesn't
+ * change the stored entry.
+ *
+ * @example
+ * ```ts
+ * const memory = createMemory({ adapter: createInMemoryAdapter() });
+ * ```
+ */
+export function createInMemoryAdapter(): InMemoryStorageAdapter {
+  const store = new Map<string, MemoryEntry>();
+
+  return {
+    name: 'memory',
+
+    getItemSync: (key: string): MemoryEntry | null => {
+      const entry = store.get(key);
+      return entry ? copyEntry(entry) : null;
+    },
+
+    setItemSync: (key: string, entry: MemoryEntry): void => {
+      store.set(key, copyEntry(entry));
+    },
+
+    removeItemSync: (key: string): void => {
+      store.delete(key);
+    },
+
+    getItem: async (key: string): Promise<MemoryEntry | null> => {
+      const entry = store.get(key);
+      return entry ? copyEntry(entry) : null;
+    },
+
+    setItem: async (key: string, entry: MemoryEntry): Promise<void> => {
+      store.set(key, copyEntry(entry));
+    },
+
+    removeItem: async (key: string): Promise<void> => {
+      store.delete(key);
+    },
+
+    keys: async (): Promise<string[]> => {
+      return Array.from(store.keys());
+    },
+
+    clear: async (): Promise<void> => {
+      store.clear();
+    },
+  };
+}
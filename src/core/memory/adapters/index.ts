@@ -0,0 +1,8 @@
+/**
+ * Built-in storage adapters for the memory system
+ */
+
+export * from './inMemory';
+export * from './webStorage';
+export * from './indexedDB';
+export * from './fileSystem';
@@ -0,0 +1,160 @@
+/**
+ * IndexedDB storage adapter for the memory system
+ */
+import { MemoryEntry, MemoryStorageAdapter } from '../types';
+import { ConfigurationError, SDKError } from '../../errors';
+import { logger } from '../../utils/logger';
+import { toStorageWriteError } from './storageErrors';
+
+/**
+ * Options for the IndexedDB adapter
+ */
+export interface IndexedDBAdapterOptions {
+  /**
+   * Name of the database
+   * @default 'vibing_memory'
+   */
+  databaseName?: string;
+
+  /**
+   * Name of the object store holding memory entries
+   * @default 'entries'
+   */
+  storeName?: string;
+}
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Creates an adapter backed by IndexedDB.
+ *
+ * Entries are stored with the structured clone algorithm, so values can be
+ * multi-megabyte documents, `Blob`/`ArrayBuffer` payloads, typed arrays, `Map`,
+ * `Set` and `Date` objects. Every operation waits for its transaction to
+ * complete, and quota failures reject with a `QuotaExceededError`.
+ *
+ * @example
+ * ```ts
+ * const memory = createMemory({ adapter: createIndexedDBAdapter({ databaseName: 'my-app' }) });
+ *
+ * await memory.set('document:42', { title: 'Report', pdf: pdfBlob });
+ * ```
+ */
+export function createIndexedDBAdapter(
+  options: IndexedDBAdapterOptions = {}
+): MemoryStorageAdapter {
+  const databaseName = options.databaseName || 'vibing_memory';
+  const storeName = options.storeName || 'entries';
+
+  let databasePromise: Promise<IDBDatabase> | null = null;
+
+  /**
+   * Open the database, creating the object store on first use
+   */
+  const openDatabase = (): Promise<IDBDatabase> => {
+    if (databasePromise) {
+      return databasePromise;
+    }
+
+    if (typeof indexedDB === 'undefined') {
+      return Promise.reject(
+        new ConfigurationError('IndexedDB is not available in this environment', {
+          context: { databaseName },
+        })
+      );
+    }
+
+    const request = indexedDB.open(databaseName, 1);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(storeName)) {
+        request.result.createObjectStore(storeName);
+      }
+    };
+    request.onblocked = () => {
+      logger.warn(`IndexedDB "${databaseName}" is blocked by a connection in another tab`);
+    };
+
+    databasePromise = promisifyRequest(request).then(
+      database => {
+        // Let other tabs upgrade the database; reopen on next use
+        database.onversionchange = () => {
+          database.close();
+          databasePromise = null;
+        };
+        return database;
+      },
+      error => {
+        databasePromise = null;
+        throw new SDKError(`Failed to open IndexedDB "${databaseName}": ${error}`, {
+          code: 'STORAGE_UNAVAILABLE',
+          context: { databaseName },
+          cause: error instanceof Error ? error : undefined,
+        });
+      }
+    );
+
+    return databasePromise;
+  };
+
+  /**
+   * Run a single request against the object store and wait for its transaction to complete.
+   * Quota errors are reported on the transaction rather than the request, hence the wait.
+   */
+  const runTransaction = async <T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> => {
+    const database = await openDatabase();
+
+    return new Promise<T>((resolve, reject) => {
+      const transaction = database.transaction(storeName, mode);
+      const request = operation(transaction.objectStore(storeName));
+
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onabort = () => reject(transaction.error || request.error);
+      transaction.onerror = () => reject(transaction.error || request.error);
+    });
+  };
+
+  return {
+    name: 'indexedDB',
+
+    structuredClone: true,
+
+    getItem: async (key: string): Promise<MemoryEntry | null> => {
+      const entry = await runTransaction<MemoryEntry | undefined>('readonly', store =>
+        store.get(key)
+      );
+      return entry || null;
+    },
+
+    setItem: async (key: string, entry: MemoryEntry): Promise<void> => {
+      try {
+        await runTransaction('readwrite', store => store.put(entry, key));
+      } catch (e) {
+        throw toStorageWriteError(e, 'indexedDB', key);
+      }
+    },
+
+    removeItem: async (key: string): Promise<void> => {
+      await runTransaction('readwrite', store => store.delete(key));
+    },
+
+    keys: async (): Promise<string[]> => {
+      const keys = await runTransaction('readonly', store => store.getAllKeys());
+      return keys.map(key => String(key));
+    },
+
+    clear: async (): Promise<void> => {
+      await runTransaction('readwrite', store => store.clear());
+    },
+  };
+}
@@ -0,0 +1,52 @@
+/**
+ * Error mapping shared by the built-in storage adapters
+ */
+import { SDKError, QuotaExceededError, isSDKError } from '../../errors';
+
+/**
+ * Check whether an error reports that the storage backend is out of space.
+ * Covers the DOMException names and legacy codes used by browsers and Node's ENOSPC/EDQUOT.
+ */
+export const isQuotaError = (e: unknown): boolean => {
+  if (!e || typeof e !== 'object') {
+    return false;
+  }
+
+  const { name, code } = e as { name?: string; code?: number | string };
+
+  return (
+    name === 'QuotaExceededError' ||
+    name === 'NS_ERROR_DOM_QUOTA_REACHED' ||
+    code === 22 ||
+    code === 1014 ||
+    code === 'ENOSPC' ||
+    code === 'EDQUOT'
+  );
+};
+
+/**
+ * Convert a failed write into a typed SDK error
+ * @param e The error raised by the storage backend
+ * @param storage Name of the adapter
+ * @param key Storage key that was being written
+ */
+export const toStorageWriteError = (e: unknown, storage: string, key: string): SDKError => {
+  if (isSDKError(e)) {
+    return e;
+  }
+
+  const cause = e instanceof Error ? e : undefined;
+
+  if (isQuotaError(e)) {
+    return new QuotaExceededError(`${storage} quota exceeded while writing "${key}"`, storage, {
+      context: { key },
+      cause,
+    });
+  }
+
+  return new SDKError(`${storage} write failed for "${key}": ${cause ? cause.message : e}`, {
+    code: 'STORAGE_WRITE_FAILED',
+    context: { storage, key },
+    cause,
+  });
+};
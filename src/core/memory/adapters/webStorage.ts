@@ -0,0 +1,175 @@
+/**
+ * Web Storage (localStorage / sessionStorage) adapters for the memory system
+ */
+import { MemoryEntry, MemoryStorageAdapter } from '../types';
+import { logger } from '../../utils/logger';
+import { toStorageWriteError } from './storageErrors';
+
+/**
+ * Options for Web Storage adapters
+ */
+export interface WebStorageAdapterOptions {
+  /**
+   * Prefix added to every key so memory items don't collide with other storage users
+   * @default 'vibing_memory_'
+   */
+  prefix?: string;
+}
+
+/**
+ * Fields of the wrapper format, used to tell wrappers apart from raw values
+ */
+const WRAPPER_FIELDS = ['value', 'expiresAt', 'version', 'schemaVersion'];
+
+/**
+ * Serialize an entry in the format used by earlier SDK versions:
+ * the raw JSON value, or a `{ value, expiresAt, version, schemaVersion }`
+ * wrapper for expiring or versioned items
+ */
+const serializeEntry = (entry: MemoryEntry): string => {
+  if (entry.expiresAt || entry.version || entry.schemaVersion) {
+    return JSON.stringify({
+      value: entry.value,
+      expiresAt: entry.expiresAt,
+      version: entry.version,
+      schemaVersion: entry.schemaVersion,
+    });
+  }
+  return JSON.stringify(entry.value);
+};
+
+/**
+ * Parse an entry written by serializeEntry
+ */
+const parseEntry = (rawData: string): MemoryEntry => {
+  const parsed = JSON.parse(rawData);
+
+  if (
+    parsed &&
+    typeof parsed === 'object' &&
+    !Array.isArray(parsed) &&
+    ('expiresAt' in parsed || 'version' in parsed || 'schemaVersion' in parsed) &&
+    Object.keys(parsed).every(field => WRAPPER_FIELDS.includes(field))
+  ) {
+    return {
+      value: parsed.value,
+      expiresAt: parsed.expiresAt,
+      version: parsed.version,
+      schemaVersion: parsed.schemaVersion,
+    };
+  }
+
+  return { value: parsed };
+};
+
+/**
+ * Creates an adapter on top of a Web Storage object
+ * @param name Adapter name used in log messages
+ * @param getStorage Resolves the storage object lazily so the adapter can be created during SSR
+ * @param options Adapter options
+ */
+function createWebStorageAdapter(
+  name: string,
+  getStorage: () => Storage,
+  options: WebStorageAdapterOptions = {}
+): MemoryStorageAdapter {
+  const prefix = options.prefix ?? 'vibing_memory_';
+
+  /**
+   * List the storage keys owned by this adapter, including the prefix
+   */
+  const ownKeys = (storage: Storage): string[] => {
+    const keys: string[] = [];
+    for (let i = 0; i < storage.length; i++) {
+      const key = storage.key(i);
+      if (key !== null && key.startsWith(prefix)) {
+        keys.push(key);
+      }
+    }
+    return keys;
+  };
+
+  return {
+    name,
+
+    getItem: async (key: string): Promise<MemoryEntry | null> => {
+      let rawData: string | null;
+      try {
+        rawData = getStorage().getItem(prefix + key);
+      } catch (e) {
+        logger.warn(`${name} access failed:`, e);
+        return null;
+      }
+
+      if (!rawData) {
+        return null;
+      }
+
+      try {
+        return parseEntry(rawData);
+      } catch (e) {
+        logger.error(`Failed to parse memory item ${key}:`, e);
+        return null;
+      }
+    },
+
+    setItem: async (key: string, entry: MemoryEntry): Promise<void> => {
+      const serialized = serializeEntry(entry);
+      try {
+        getStorage().setItem(prefix + key, serialized);
+      } catch (e) {
+        throw toStorageWriteError(e, name, key);
+      }
+    },
+
+    removeItem: async (key: string): Promise<void> => {
+      try {
+        getStorage().removeItem(prefix + key);
+      } catch (e) {
+        logger.warn(`${name} remove failed:`, e);
+      }
+    },
+
+    keys: async (): Promise<string[]> => {
+      try {
+        return ownKeys(getStorage()).map(key => key.substring(prefix.length));
+      } catch (e) {
+        logger.warn(`${name} getAllKeys failed:`, e);
+        return [];
+      }
+    },
+
+    clear: async (): Promise<void> => {
+      try {
+        const storage = getStorage();
+        ownKeys(storage).forEach(key => storage.removeItem(key));
+      } catch (e) {
+        logger.warn(`${name} clear failed:`, e);
+      }
+    },
+  };
+}
+
+/**
+ * Creates an adapter backed by `window.localStorage`
+ *
+ * @example
+ * ```ts
+ * const memory = createMemory({ adapter: createLocalStorageAdapter() });
+ * ```
+ */
+export function createLocalStorageAdapter(
+  options: WebStorageAdapterOptions = {}
+): MemoryStorageAdapter {
+  return createWebStorageAdapter('localStorage', () => localStorage, options);
+}
+
+/**
+ * Creates an adapter backed by `window.sessionStorage`.
+ * Items are dropped when the browser tab is closed.
+ */
+export function createSessionStorageAdapter(
+  options: WebStorageAdapterOptions = {}
+): MemoryStorageAdapter {
+  return createWebStorageAdapter('sessionStorage', () => sessionStorage, options);
+}
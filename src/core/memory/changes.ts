@@ -0,0 +1,89 @@
+/**
+ * Change notifications for the memory system
+ */
+import { MemoryChange, MemorySubscribeOptions } from './types';
+
+type ChangeCallback = (newValue: unknown, change: MemoryChange) => void;
+
+/**
+ * A registered subscription
+ */
+interface Subscription {
+  matches: (key: string) => boolean;
+  scope?: MemorySubscribeOptions['scope'];
+  callback: ChangeCallback;
+}
+
+/**
+ * Build the key matcher for a subscription
+ */
+const createMatcher = (
+  pattern: string | RegExp,
+  options: MemorySubscribeOptions
+): ((key: string) => boolean) => {
+  if (pattern instanceof RegExp) {
+    return key => {
+      // Reset stateful global/sticky patterns before each test
+      pattern.lastIndex = 0;
+      return pattern.test(key);
+    };
+  }
+
+  if (options.prefix) {
+    return key => key.startsWith(pattern);
+  }
+
+  return key => key === pattern;
+};
+
+/**
+ * Event emitter for memory changes
+ */
+class MemoryEventEmitter {
+  private subscriptions: Subscription[] = [];
+  private changeListeners: Array<(change: MemoryChange) => void> = [];
+
+  emit(change: MemoryChange): void {
+    this.subscriptions
+      .filter(
+        subscription =>
+          (!subscription.scope || subscription.scope === change.scope) &&
+          subscription.matches(change.key)
+      )
+      .forEach(subscription => subscription.callback(change.newValue, change));
+    this.changeListeners.forEach(listener => listener(change));
+  }
+
+  subscribe(
+    pattern: string | RegExp,
+    callback: ChangeCallback,
+    options: MemorySubscribeOptions = {}
+  ): () => void {
+    const subscription: Subscription = {
+      matches: createMatcher(pattern, options),
+      scope: options.scope,
+      callback,
+    };
+    this.subscriptions.push(subscription);
+
+    return () => {
+      this.subscriptions = this.subscriptions.filter(sub => sub !== subscription);
+    };
+  }
+
+  /**
+   * Listen to changes for every key
+   */
+  onChange(listener: (change: MemoryChange) => void): () => void {
+    this.changeListeners.push(listener);
+
+    return () => {
+      this.changeListeners = this.changeListeners.filter(cb => cb !== listener);
+    };
+  }
+}
+
+/**
+ * Emitter shared by all memory managers in this window
+ */
+export const memoryEvents = new MemoryEventEmitter();
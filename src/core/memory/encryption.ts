@@ -0,0 +1,131 @@
+import { MemoryEncryptionOptions, MemoryEntry, MemoryStorageAdapter } from './types';
+import {
+  EncryptionKeyProvider,
+  createKeyProvider,
+  decryptString,
+  encryptString,
+} from '../security/encryption';
+import { SDKError } from '../errors';
+import { Scope } from '../types';
+
+/**
+ * Salt for keys derived from memory encryption key material
+ */
+const MEMORY_KEY_SALT = 'vibing-memory';
+
+/**
+ * Stored form of an encrypted value
+ */
+interface EncryptedValue {
+  $encrypted: string;
+}
+
+const isEncryptedValue = (value: unknown): value is EncryptedValue => {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as EncryptedValue).$encrypted === 'string' &&
+    Object.keys(value).length === 1
+  );
+};
+
+/**
+ * Check whether a memory key is covered by encryption options
+ */
+export const isEncryptedKey = (
+  options: MemoryEncryptionOptions,
+  key: string,
+  scope: Scope
+): boolean => {
+  return (
+    !!options.scopes?.includes(scope) || !!options.prefixes?.some(prefix => key.startsWith(prefix))
+  );
+};
+
+/**
+ * Get the key provider of encryption options, deriving keys from key material when needed
+ */
+const getKeyProvider = (options: MemoryEncryptionOptions): EncryptionKeyProvider => {
+  const { encryptionKey } = options;
+  return typeof encryptionKey === 'object'
+    ? encryptionKey
+    : createKeyProvider(encryptionKey, { salt: MEMORY_KEY_SALT });
+};
+
+/**
+ * Wraps a storage adapter so the values of some keys are stored encrypted
+ *
+ * Values are bound to their storage key, so they can't be decrypted under
+ * another key. Unencrypted values of matching keys are rejected, unless
+ * `migrateUnencrypted` is set, when they're encrypted as they're read. Values
+ * of other keys are never decrypted.
+ * @param adapter Adapter holding the stored entries
+ * @param options Key and the scopes and prefixes to encrypt
+ * @param matches Whether a storage key's value is encrypted
+ */
+export function createEncryptedAdapter(
+  adapter: MemoryStorageAdapter,
+  options: MemoryEncryptionOptions,
+  matches: (storageKey: string) => boolean
+): MemoryStorageAdapter {
+  const keyProvider = getKeyProvider(options);
+
+  const encryptEntry = async (storageKey: string, entry: MemoryEntry): Promise<MemoryEntry> => {
+    const plaintext = JSON.stringify(entry.value);
+    const value: EncryptedValue = {
+      $encrypted: await encryptString(await keyProvider.getKey(), plaintext, storageKey),
+    };
+    return { ...entry, value };
+  };
+
+  return {
+    name: adapter.name,
+    structuredClone: adapter.structuredClone,
+
+    async getItem(storageKey: string): Promise<MemoryEntry | null> {
+      const entry = await adapter.getItem(storageKey);
+      if (!entry || !matches(storageKey) || entry.value === undefined) {
+        return entry;
+      }
+
+      if (!isEncryptedValue(entry.value)) {
+        if (!options.migrateUnencrypted) {
+          throw new SDKError(`Memory value for "${storageKey}" is not encrypted`, {
+            code: 'MEMORY_VALUE_UNENCRYPTED',
+            context: { storageKey, adapter: adapter.name },
+          });
+        }
+
+        await adapter.setItem(storageKey, await encryptEntry(storageKey, entry));
+        return entry;
+      }
+
+      try {
+        const plaintext = await decryptString(
+          await keyProvider.getKey(),
+          entry.value.$encrypted,
+          storageKey
+        );
+        return { ...entry, value: JSON.parse(plaintext) };
+      } catch (e) {
+        throw new SDKError(`Failed to decrypt memory value for "${storageKey}"`, {
+          code: 'MEMORY_DECRYPTION_FAILED',
+          context: { storageKey, adapter: adapter.name },
+          cause: e instanceof Error ? e : undefined,
+        });
+      }
+    },
+
+    async setItem(storageKey: string, entry: MemoryEntry): Promise<void> {
+      if (!matches(storageKey) || entry.value === undefined) {
+        return adapter.setItem(storageKey, entry);
+      }
+
+      return adapter.setItem(storageKey, await encryptEntry(storageKey, entry));
+    },
+
+    removeItem: (storageKey: string) => adapter.removeItem(storageKey),
+    keys: () => adapter.keys(),
+    clear: () => adapter.clear(),
+  };
+}
@@ -0,0 +1,82 @@
+import { MemoryChange, MemoryHistoryEntry, MemoryHistoryOptions } from './types';
+import { Scope } from '../types';
+
+/**
+ * Default number of changes kept per scope
+ */
+const DEFAULT_HISTORY_LIMIT = 100;
+
+/**
+ * Change history kept by a memory manager
+ */
+export interface MemoryJournal {
+  /**
+   * Replace the limits, dropping changes over the new ones
+   */
+  configure(options: MemoryHistoryOptions): void;
+
+  /**
+   * Record a local change
+   */
+  record(change: MemoryChange, details?: { actor?: string; revertOf?: number }): void;
+
+  /**
+   * Get the recorded changes of a key, oldest first
+   */
+  list(key: string, scope: Scope): MemoryHistoryEntry[];
+}
+
+/**
+ * Creates an in-process change history bounded per scope
+ * @param options Number of changes kept per scope
+ */
+export function createMemoryJournal(options: MemoryHistoryOptions = {}): MemoryJournal {
+  const entries: Record<Scope, MemoryHistoryEntry[]> = {
+    global: [],
+    project: [],
+    conversation: [],
+  };
+  let limits = options;
+  let lastVersion = 0;
+
+  const getLimit = (scope: Scope): number => {
+    return limits.scopes?.[scope] ?? limits.limit ?? DEFAULT_HISTORY_LIMIT;
+  };
+
+  const trim = (scope: Scope): void => {
+    const excess = entries[scope].length - getLimit(scope);
+    if (excess > 0) {
+      entries[scope].splice(0, excess);
+    }
+  };
+
+  return {
+    configure(newOptions: MemoryHistoryOptions): void {
+      limits = newOptions;
+      (Object.keys(entries) as Scope[]).forEach(trim);
+    },
+
+    record({ key, scope, oldValue, newValue }: MemoryChange, details = {}): void {
+      if (getLimit(scope) <= 0) {
+        return;
+      }
+
+      entries[scope].push({
+        version: ++lastVersion,
+        key,
+        scope,
+        operation: newValue === undefined ? 'delete' : 'set',
+        value: newValue,
+        previousValue: oldValue,
+        timestamp: Date.now(),
+        actor: details.actor,
+        revertOf: details.revertOf,
+      });
+      trim(scope);
+    },
+
+    list(key: string, scope: Scope): MemoryHistoryEntry[] {
+      return entries[scope].filter(entry => entry.key === key);
+    },
+  };
+}
@@ -7,14 +7,26 @@ export * from './types';
 
 // Hook will be implemented in Stage 1
 // export { useMemory } from './useMemory';
-
-// API will be implemented in Stage 1
-// export { memory } from './memory';
+export { useMemoryQuery } from './useMemoryQuery';
+export { useMemoryCollection } from './useMemoryCollection';
+export { useMemoryHistory } from './useMemoryHistory';
 
 // Export core functionality
-export { MemoryManager } from './memory';
+export { MemoryManager, memory } from './memory';
 export { useMemory } from './useMemory';
 
+// Export storage adapters
+export * from './adapters';
+
+// Export cross-window synchronization
+export * from './sync';
+
+// Export principal memory handles
+export { getPrincipalKey } from './principals';
+
+// Export vector memory
+export { createVectorMemory, createInMemoryVectorIndex, createHashingEmbedding } from './vector';
+
 /**
  * Memory management utilities for persisting and retrieving application state
  */
@@ -28,30 +40,3 @@ import { MemoryConfig } from './types';
 export function createMemory(config: MemoryConfig = {}) {
   return new MemoryManager(config);
 }
-
-/**
- * Memory manager interface for plugin/application development
- */
-export const memory = {
-  /**
-   * Get a value from memory
-   */
-  get: (_key: string) => {
-    // Stub implementation - to be completed
-    return null;
-  },
-
-  /**
-   * Set a value in memory
-   */
-  set: (_key: string, _value: unknown) => {
-    // Stub implementation - to be completed
-  },
-
-  /**
-   * Remove a value from memory
-   */
-  remove: (_key: string) => {
-    // Stub implementation - to be completed
-  },
-};
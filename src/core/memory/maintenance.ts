@@ -0,0 +1,346 @@
+import {
+  MemoryEntry,
+  MemoryEvictedEvent,
+  MemoryMaintenance,
+  MemoryMaintenanceOptions,
+  MemoryQuotaExceededEvent,
+  MemoryUsage,
+} from './types';
+import { events } from '../events';
+import { QuotaExceededError } from '../errors';
+import { Scope } from '../types';
+import { logger } from '../utils/logger';
+
+/**
+ * Default milliseconds between sweeps of expired entries
+ */
+const DEFAULT_SWEEP_INTERVAL = 60000;
+
+/**
+ * A storage key together with its parsed key
+ */
+export interface StoredKey {
+  storageKey: string;
+  key: string;
+  scope: Scope;
+}
+
+/**
+ * A stored entry together with its parsed key
+ */
+export interface StoredEntry extends StoredKey {
+  entry: MemoryEntry;
+}
+
+/**
+ * Access to the memory manager's storage needed by maintenance
+ */
+export interface MaintenanceStore {
+  /**
+   * Name of the storage adapter
+   */
+  readonly name: string;
+
+  /**
+   * List every stored entry
+   */
+  listEntries(): Promise<StoredEntry[]>;
+
+  /**
+   * Remove an entry if it is still stored and, when given, still matches the predicate
+   * @returns The removed entry, or null if nothing was removed
+   */
+  evict(
+    stored: StoredKey,
+    predicate?: (entry: MemoryEntry) => boolean
+  ): Promise<MemoryEntry | null>;
+}
+
+/**
+ * Maintenance hooks called by the memory manager around writes
+ */
+export interface MemoryMaintenanceController extends MemoryMaintenance {
+  /**
+   * Record that a key was read or written
+   */
+  touch(storageKey: string): void;
+
+  /**
+   * Reject a value that could never fit in its quotas
+   * @throws QuotaExceededError
+   */
+  checkWrite(key: string, scope: Scope, value: unknown): void;
+
+  /**
+   * Evict least recently used entries until the written key's scope and namespace fit their quotas
+   */
+  afterWrite(key: string, scope: Scope, storageKey: string, entry: MemoryEntry): Promise<void>;
+
+  /**
+   * Record that a key was removed
+   */
+  afterDelete(storageKey: string): void;
+}
+
+/**
+ * Get the namespace of a key: the part before its first `:`
+ */
+export const getNamespace = (key: string): string => {
+  const separator = key.indexOf(':');
+  return separator === -1 ? '' : key.substring(0, separator);
+};
+
+/**
+ * Estimate the stored size of a value in bytes, counting strings as UTF-16
+ */
+export const estimateSize = (key: string, value: unknown): number => {
+  let valueSize: number;
+
+  if (typeof Blob !== 'undefined' && value instanceof Blob) {
+    valueSize = value.size;
+  } else if (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) {
+    valueSize = value.byteLength;
+  } else {
+    try {
+      valueSize = (JSON.stringify(value) ?? '').length * 2;
+    } catch (_e) {
+      valueSize = 0;
+    }
+  }
+
+  return key.length * 2 + valueSize;
+};
+
+/**
+ * Publish a `memory:quota-exceeded` event on the core events bus
+ */
+export const publishQuotaExceeded = (event: MemoryQuotaExceededEvent): void => {
+  events.publish('memory:quota-exceeded', event);
+};
+
+/**
+ * Check whether a stored entry has expired
+ */
+const isExpiredEntry = (entry: MemoryEntry): boolean => {
+  return !!entry.expiresAt && entry.expiresAt < Date.now();
+};
+
+/**
+ * Creates memory maintenance for a memory manager's storage
+ * @param store Storage access provided by the memory manager
+ * @param options Sweep interval and quotas
+ */
+export function createMemoryMaintenance(
+  store: MaintenanceStore,
+  options: MemoryMaintenanceOptions = {}
+): MemoryMaintenanceController {
+  const { sweepInterval = DEFAULT_SWEEP_INTERVAL, quotas = {} } = options;
+  const accessedAt = new Map<string, number>();
+  let accessCounter = 0;
+
+  /**
+   * Running sizes of the stored entries, by storage key, so quotas are
+   * enforced without listing the store on every write. Built on the first
+   * write and rebuilt by every sweep, which picks up changes made elsewhere.
+   */
+  let sizes: Map<string, StoredKey & { size: number; expiresAt?: number }> | null = null;
+  let loading: Promise<void> | null = null;
+
+  const rebuildSizes = (entries: StoredEntry[]): void => {
+    sizes = new Map(
+      entries
+        .filter(stored => !isExpiredEntry(stored.entry))
+        .map(({ storageKey, key, scope, entry }) => [
+          storageKey,
+          {
+            storageKey,
+            key,
+            scope,
+            size: estimateSize(key, entry.value),
+            expiresAt: entry.expiresAt,
+          },
+        ])
+    );
+  };
+
+  const loadSizes = async (): Promise<void> => {
+    if (!sizes) {
+      loading = loading || store.listEntries().then(rebuildSizes);
+      await loading.finally(() => {
+        loading = null;
+      });
+    }
+  };
+
+  const evict = async (
+    stored: StoredKey,
+    reason: MemoryEvictedEvent['reason'],
+    predicate?: (entry: MemoryEntry) => boolean
+  ): Promise<boolean> => {
+    const removed = await store.evict(stored, predicate);
+    accessedAt.delete(stored.storageKey);
+
+    if (!removed) {
+      return false;
+    }
+
+    sizes?.delete(stored.storageKey);
+    const event: MemoryEvictedEvent = {
+      key: stored.key,
+      scope: stored.scope,
+      namespace: getNamespace(stored.key),
+      size: estimateSize(stored.key, removed.value),
+      reason,
+    };
+    events.publish('memory:evicted', event);
+    return true;
+  };
+
+  const sweep = async (): Promise<number> => {
+    let removed = 0;
+    const entries = await store.listEntries();
+
+    for (const stored of entries) {
+      if (isExpiredEntry(stored.entry) && (await evict(stored, 'expired', isExpiredEntry))) {
+        removed++;
+      }
+    }
+
+    rebuildSizes(entries);
+    return removed;
+  };
+
+  const getUsage = async (): Promise<MemoryUsage> => {
+    const usage: MemoryUsage = {
+      total: 0,
+      entries: 0,
+      scopes: { global: 0, project: 0, conversation: 0 },
+      namespaces: {},
+    };
+
+    for (const { key, scope, entry } of await store.listEntries()) {
+      if (isExpiredEntry(entry)) {
+        continue;
+      }
+
+      const size = estimateSize(key, entry.value);
+      const namespace = getNamespace(key);
+      usage.total += size;
+      usage.entries++;
+      usage.scopes[scope] = (usage.scopes[scope] || 0) + size;
+      usage.namespaces[namespace] = (usage.namespaces[namespace] || 0) + size;
+    }
+
+    return usage;
+  };
+
+  /**
+   * Evict least recently used entries from a group until it fits its limit
+   */
+  const enforceLimit = async (
+    limit: number,
+    belongs: (stored: StoredKey) => boolean,
+    protectedKey: string
+  ): Promise<void> => {
+    const now = Date.now();
+    const group = [...(sizes?.values() || [])].filter(
+      stored => belongs(stored) && !(stored.expiresAt && stored.expiresAt < now)
+    );
+    let size = group.reduce((sum, stored) => sum + stored.size, 0);
+
+    // Entries never touched by this process count as least recently used
+    const candidates = group
+      .filter(stored => stored.storageKey !== protectedKey)
+      .sort((a, b) => (accessedAt.get(a.storageKey) ?? -1) - (accessedAt.get(b.storageKey) ?? -1));
+
+    for (const stored of candidates) {
+      if (size <= limit) {
+        break;
+      }
+
+      if (await evict(stored, 'quota')) {
+        size -= stored.size;
+      }
+    }
+  };
+
+  const sweepInBackground = (): void => {
+    sweep().catch(error => logger.error(`Failed to sweep the ${store.name} adapter:`, error));
+  };
+
+  const timer = sweepInterval > 0 ? setInterval(sweepInBackground, sweepInterval) : null;
+  // Don't keep Node processes alive just to sweep memory
+  (timer as { unref?: () => void } | null)?.unref?.();
+
+  return {
+    sweep,
+    getUsage,
+
+    stop(): void {
+      if (timer) {
+        clearInterval(timer);
+      }
+    },
+
+    touch(storageKey: string): void {
+      accessedAt.set(storageKey, ++accessCounter);
+    },
+
+    checkWrite(key: string, scope: Scope, value: unknown): void {
+      const namespace = getNamespace(key);
+      const size = estimateSize(key, value);
+      const limits = [quotas.scopes?.[scope], quotas.namespaces?.[namespace]];
+
+      for (const limit of limits) {
+        if (limit !== undefined && size > limit) {
+          publishQuotaExceeded({ key, scope, namespace, size, limit });
+          throw new QuotaExceededError(
+            `Memory value for "${key}" is larger than its ${limit} byte quota`,
+            store.name,
+            { context: { key, scope, namespace, size, limit } }
+          );
+        }
+      }
+    },
+
+    async afterWrite(
+      key: string,
+      scope: Scope,
+      storageKey: string,
+      entry: MemoryEntry
+    ): Promise<void> {
+      accessedAt.set(storageKey, ++accessCounter);
+
+      const scopeLimit = quotas.scopes?.[scope];
+      const namespace = getNamespace(key);
+      const namespaceLimit = quotas.namespaces?.[namespace];
+      if (scopeLimit !== undefined || namespaceLimit !== undefined) {
+        await loadSizes();
+      }
+      sizes?.set(storageKey, {
+        storageKey,
+        key,
+        scope,
+        size: estimateSize(key, entry.value),
+        expiresAt: entry.expiresAt,
+      });
+
+      if (scopeLimit !== undefined) {
+        await enforceLimit(scopeLimit, stored => stored.scope === scope, storageKey);
+      }
+
+      if (namespaceLimit !== undefined) {
+        await enforceLimit(
+          namespaceLimit,
+          stored => getNamespace(stored.key) === namespace,
+          storageKey
+        );
+      }
+    },
+
+    afterDelete(storageKey: string): void {
+      accessedAt.delete(storageKey);
+      sizes?.delete(storageKey);
+    },
+  };
+}
@@ -1,192 +1,385 @@
-import { MemoryAPI, MemoryOptions, MemoryConfig } from './types';
-
-/**
- * Storage key prefix for memory items
- */
-const MEMORY_PREFIX = 'vibing_memory_';
+import {
+  MemoryAPI,
+  MemoryChange,
+  MemoryOptions,
+  MemoryConfig,
+  MemorySchema,
+  MemoryDeleteOptions,
+  MemoryEncryptionOptions,
+  MemoryEntry,
+  MemoryExportDocument,
+  MemoryExportOptions,
+  MemoryHistoryEntry,
+  MemoryHistoryOptions,
+  MemoryHistoryQueryOptions,
+  MemoryImportOptions,
+  MemoryMaintenance,
+  MemoryMaintenanceOptions,
+  MemoryPrincipal,
+  PrincipalMemory,
+  MemorySnapshot,
+  MemoryStorageAdapter,
+  MemorySubscribeOptions,
+  MemoryTransaction,
+  MemoryTransactionOptions,
+} from './types';
+import { createInMemoryAdapter, createLocalStorageAdapter } from './adapters';
+import { memoryEvents } from './changes';
+import { createEncryptedAdapter, isEncryptedKey } from './encryption';
+import { MemoryJournal, createMemoryJournal } from './history';
+import { createSchemaRegistry, migrateSchemaValue, validateSchemaValue } from './schema';
+import {
+  MemoryMaintenanceController,
+  StoredKey,
+  createMemoryMaintenance,
+  estimateSize,
+  getNamespace,
+  publishQuotaExceeded,
+} from './maintenance';
+import { createPrincipalMemory, isPrincipalNamespaceKey } from './principals';
+import { StagedWrite, getEntryVersion, isEqualValue, withKeyLocks } from './transaction';
+import {
+  PermissionError,
+  QuotaExceededError,
+  SDKError,
+  ValidationError,
+  isSDKError,
+} from '../errors';
+import { PermissionAPI } from '../permissions/types';
+import { Scope } from '../types';
+import { logger } from '../utils/logger';
 
 /**
  * Format storage key based on provided key and scope
  */
 const formatStorageKey = (key: string, scope: string): string => {
-  return `${MEMORY_PREFIX}${scope}_${key}`;
+  return `${scope}_${key}`;
 };
 
 /**
  * Parse storage key to extract the original key
  */
-const parseStorageKey = (storageKey: string): { key: string; scope: string } | null => {
-  if (!storageKey.startsWith(MEMORY_PREFIX)) {
-    return null;
-  }
-
-  const withoutPrefix = storageKey.substring(MEMORY_PREFIX.length);
-  const firstUnderscore = withoutPrefix.indexOf('_');
+const parseStorageKey = (storageKey: string): { key: string; scope: Scope } | null => {
+  const firstUnderscore = storageKey.indexOf('_');
 
   if (firstUnderscore === -1) {
     return null;
   }
 
-  const scope = withoutPrefix.substring(0, firstUnderscore);
-  const key = withoutPrefix.substring(firstUnderscore + 1);
+  const scope = storageKey.substring(0, firstUnderscore) as Scope;
+  const key = storageKey.substring(firstUnderscore + 1);
 
   return { key, scope };
 };
 
 /**
- * Storage wrapper for browser localStorage
- * In production, this would be replaced with actual API calls
+ * Check whether a stored entry has expired
  */
-const storage = {
-  getItem: (key: string): string | null => {
-    try {
-      return localStorage.getItem(key);
-    } catch (e) {
-      console.warn('localStorage access failed:', e);
-      return null;
-    }
-  },
-
-  setItem: (key: string, value: string, expirationMs?: number): void => {
-    try {
-      // If expiration is set, store with expiration metadata
-      if (expirationMs) {
-        const expiresAt = Date.now() + expirationMs;
-        const valueWithExpiration = JSON.stringify({
-          value: JSON.parse(value),
-          expiresAt,
-        });
-        localStorage.setItem(key, valueWithExpiration);
-      } else {
-        localStorage.setItem(key, value);
-      }
-    } catch (e) {
-      console.warn('localStorage write failed:', e);
-    }
-  },
-
-  removeItem: (key: string): void => {
-    try {
-      localStorage.removeItem(key);
-    } catch (e) {
-      console.warn('localStorage remove failed:', e);
-    }
-  },
+const isExpired = (entry: MemoryEntry): boolean => {
+  return !!entry.expiresAt && entry.expiresAt < Date.now();
+};
 
-  getAllKeys: (): string[] => {
-    try {
-      return Object.keys(localStorage).filter(key => key.startsWith(MEMORY_PREFIX));
-    } catch (e) {
-      console.warn('localStorage getAllKeys failed:', e);
-      return [];
-    }
-  },
+/**
+ * Get the value of a stored entry, or undefined if it is missing or expired
+ */
+const getLiveValue = (entry: MemoryEntry | null): unknown => {
+  return entry && !isExpired(entry) ? entry.value : undefined;
 };
 
 /**
- * Event emitter for memory changes
+ * All scopes, in the order deletes without a scope visit them
  */
-class MemoryEventEmitter {
-  private listeners: Record<string, Array<(value: unknown) => void>> = {};
+const ALL_SCOPES: Scope[] = ['global', 'project', 'conversation'];
 
-  emit(key: string, value: unknown): void {
-    if (this.listeners[key]) {
-      this.listeners[key].forEach(callback => callback(value));
-    }
+/**
+ * Find a value that JSON serialization would silently drop or mangle
+ * @returns The path of the first such value, or null if the value is JSON-safe
+ */
+const findNonJSONValue = (value: unknown, path = '', seen = new Set<unknown>()): string | null => {
+  if (value === null || typeof value !== 'object' || seen.has(value)) {
+    return null;
+  }
+
+  if (
+    (typeof Blob !== 'undefined' && value instanceof Blob) ||
+    value instanceof ArrayBuffer ||
+    ArrayBuffer.isView(value) ||
+    value instanceof Map ||
+    value instanceof Set
+  ) {
+    return path || '(root)';
   }
 
-  subscribe(key: string, callback: (value: unknown) => void): () => void {
-    if (!this.listeners[key]) {
-      this.listeners[key] = [];
+  seen.add(value);
+  for (const [childKey, child] of Object.entries(value)) {
+    const found = findNonJSONValue(child, path ? `${path}.${childKey}` : childKey, seen);
+    if (found) {
+      return found;
     }
-    this.listeners[key].push(callback);
+  }
 
-    return () => {
-      this.listeners[key] = this.listeners[key].filter(cb => cb !== callback);
-      if (this.listeners[key].length === 0) {
-        delete this.listeners[key];
-      }
-    };
+  return null;
+};
+
+/**
+ * Check whether localStorage can be used (it is missing in Node and may throw in sandboxed frames)
+ */
+const localStorageAvailable = (): boolean => {
+  try {
+    return typeof localStorage !== 'undefined' && localStorage !== null;
+  } catch (_e) {
+    return false;
   }
-}
+};
 
-const memoryEvents = new MemoryEventEmitter();
+/**
+ * Shared adapter used by memory managers that aren't given one
+ */
+let defaultAdapter: MemoryStorageAdapter | null = null;
+
+/**
+ * Get the default storage adapter: localStorage in browsers, an in-process store elsewhere
+ */
+const getDefaultAdapter = (): MemoryStorageAdapter => {
+  if (!defaultAdapter) {
+    defaultAdapter = localStorageAvailable()
+      ? createLocalStorageAdapter()
+      : createInMemoryAdapter();
+  }
+  return defaultAdapter;
+};
 
 /**
- * Memory API implementation
+ * MemoryManager implements the memory API on top of a storage adapter.
  *
- * In Stage 1, this uses localStorage for storage.
- * In production, this would make actual API calls to the Vibing API.
+ * Without an adapter it uses localStorage in the browser and an
+ * in-process store in Node and during server-side rendering. Keys in the
+ * namespaces of apps, plugins and agents, such as `plugin/weather:units`,
+ * are only reachable through `forPrincipal()` handles; export, import,
+ * snapshots and maintenance still cover the whole store.
  */
-export const memory: MemoryAPI = {
-  get: async <T>(
-    key: string,
-    options: MemoryOptions = { scope: 'conversation' }
-  ): Promise<T | undefined> => {
-    const storageKey = formatStorageKey(key, options.scope);
-    const rawData = storage.getItem(storageKey);
+export class MemoryManager implements MemoryAPI {
+  private defaultOptions: MemoryOptions;
+  private adapter: MemoryStorageAdapter;
+  private storageAdapter: MemoryStorageAdapter;
+  private encryption: MemoryEncryptionOptions | null = null;
+  private schemas = createSchemaRegistry();
+  private maintenance: MemoryMaintenanceController | null = null;
+  private journal: MemoryJournal | null = null;
+
+  /**
+   * Whether keys in principals' namespaces can be reached, which only the view behind
+   * principal handles allows
+   */
+  private namespaceAccess = false;
+
+  constructor(config: MemoryConfig = {}) {
+    this.defaultOptions = {
+      scope: config.scope || 'conversation',
+    };
 
-    if (!rawData) {
-      return options.fallback as T;
+    if (config.expiration) {
+      this.defaultOptions.expiration = config.expiration;
     }
 
-    try {
-      const parsed = JSON.parse(rawData);
-
-      // Check if this is an item with expiration
-      if (parsed && typeof parsed === 'object' && 'expiresAt' in parsed) {
-        if (parsed.expiresAt < Date.now()) {
-          // Item has expired, remove it and return fallback
-          storage.removeItem(storageKey);
-          return options.fallback as T;
-        }
-        return parsed.value as T;
-      }
+    this.storageAdapter = config.adapter || getDefaultAdapter();
+    this.adapter = this.storageAdapter;
 
-      return parsed as T;
-    } catch (e) {
-      console.error('Failed to parse memory item:', e);
-      return options.fallback as T;
+    if (config.encryption) {
+      this.setEncryption(config.encryption);
     }
-  },
 
-  set: async <T>(
-    key: string,
-    value: T,
-    options: MemoryOptions = { scope: 'conversation' }
-  ): Promise<void> => {
-    const storageKey = formatStorageKey(key, options.scope);
+    if (config.history) {
+      this.setHistory(config.history);
+    }
 
-    try {
-      const serialized = JSON.stringify(value);
-      storage.setItem(storageKey, serialized, options.expiration);
+    Object.entries(config.schemas || {}).forEach(([prefix, schema]) => {
+      this.schemas.register(prefix, schema);
+    });
+  }
 
-      // Emit change event
-      memoryEvents.emit(key, value);
+  async get<T>(key: string, options?: MemoryOptions): Promise<T | undefined> {
+    this.assertReachable(key);
+    const { scope, fallback } = { ...this.defaultOptions, ...options };
+    const storageKey = formatStorageKey(key, scope);
+    const entry = await this.adapter.getItem(storageKey);
 
-      return Promise.resolve();
-    } catch (e) {
-      return Promise.reject(new Error(`Failed to store memory: ${e}`));
+    if (!entry) {
+      return fallback as T;
     }
-  },
 
-  delete: async (key: string): Promise<void> => {
-    // Delete from all scopes
-    const scopes = ['global', 'project', 'conversation'];
+    if (isExpired(entry)) {
+      // Item has expired, remove it and return fallback
+      await this.adapter.removeItem(storageKey);
+      this.maintenance?.afterDelete(storageKey);
+      return fallback as T;
+    }
+
+    this.maintenance?.touch(storageKey);
+    return this.readValue(key, entry) as T;
+  }
+
+  async set<T>(key: string, value: T, options?: MemoryOptions): Promise<void> {
+    this.assertReachable(key);
+    const { scope, expiration, actor } = { ...this.defaultOptions, ...options };
+    const storageKey = formatStorageKey(key, scope);
+    this.validateValue(key, scope, value);
 
-    scopes.forEach(scope => {
-      const storageKey = formatStorageKey(key, scope);
-      storage.removeItem(storageKey);
+    const entry = this.createEntry(key, value, expiration);
+
+    const previous = await withKeyLocks(this.adapter, [storageKey], async () => {
+      const current = await this.adapter.getItem(storageKey);
+      await this.writeEntry(key, scope, storageKey, entry, current);
+      return current;
     });
 
-    // Emit change event with undefined to indicate deletion
-    memoryEvents.emit(key, undefined);
+    this.emitChange(
+      { key, scope, oldValue: getLiveValue(previous), newValue: value, source: 'local' },
+      { actor }
+    );
+
+    await this.maintenance?.afterWrite(key, scope, storageKey, entry);
+  }
+
+  async delete(key: string, options?: MemoryDeleteOptions): Promise<void> {
+    this.assertReachable(key);
 
-    return Promise.resolve();
-  },
+    // Delete from the given scope, or from all scopes if none is given
+    const scopes = options?.scope ? [options.scope] : ALL_SCOPES;
 
-  query: async (pattern: string | RegExp): Promise<Record<string, unknown>> => {
-    const allKeys = storage.getAllKeys();
+    await Promise.all(
+      scopes.map(async scope => {
+        const storageKey = formatStorageKey(key, scope);
+        const entry = await withKeyLocks(this.adapter, [storageKey], async () => {
+          const current = await this.adapter.getItem(storageKey);
+          if (current) {
+            await this.adapter.removeItem(storageKey);
+          }
+          return current;
+        });
+
+        if (!entry) {
+          return;
+        }
+        this.maintenance?.afterDelete(storageKey);
+
+        // Emit change event with undefined to indicate deletion
+        this.emitChange(
+          { key, scope, oldValue: getLiveValue(entry), newValue: undefined, source: 'local' },
+          { actor: options?.actor }
+        );
+      })
+    );
+  }
+
+  async compareAndSet<T>(
+    key: string,
+    expected: T | undefined,
+    next: T,
+    options?: MemoryOptions
+  ): Promise<boolean> {
+    this.assertReachable(key);
+    const { scope, expiration, actor } = { ...this.defaultOptions, ...options };
+    const storageKey = formatStorageKey(key, scope);
+    this.validateValue(key, scope, next);
+
+    const entry = this.createEntry(key, next, expiration);
+
+    const previous = await withKeyLocks(this.adapter, [storageKey], async () => {
+      const current = await this.adapter.getItem(storageKey);
+      if (!isEqualValue(this.readValue(key, current), expected)) {
+        return null;
+      }
+
+      await this.writeEntry(key, scope, storageKey, entry, current);
+      return { entry: current };
+    });
+
+    if (!previous) {
+      return false;
+    }
+
+    this.emitChange(
+      { key, scope, oldValue: getLiveValue(previous.entry), newValue: next, source: 'local' },
+      { actor }
+    );
+
+    await this.maintenance?.afterWrite(key, scope, storageKey, entry);
+    return true;
+  }
+
+  async transaction<R>(
+    fn: (tx: MemoryTransaction) => Promise<R>,
+    options: MemoryTransactionOptions = {}
+  ): Promise<R> {
+    const retries = options.retries ?? 3;
+
+    for (let attempt = 0; attempt <= retries; attempt++) {
+      const reads = new Map<string, number>();
+      const writes = new Map<string, StagedWrite>();
+
+      const readEntry = async (storageKey: string): Promise<MemoryEntry | null> => {
+        const entry = await this.adapter.getItem(storageKey);
+        if (!reads.has(storageKey)) {
+          reads.set(storageKey, getEntryVersion(entry));
+        }
+        return entry;
+      };
+
+      const tx: MemoryTransaction = {
+        get: async <T>(key: string, getOptions?: MemoryOptions): Promise<T | undefined> => {
+          this.assertReachable(key);
+          const { scope, fallback } = { ...this.defaultOptions, ...getOptions };
+          const storageKey = formatStorageKey(key, scope);
+          const staged = writes.get(storageKey);
+          const entry = staged ? staged.entry : await readEntry(storageKey);
+          const value = this.readValue(key, entry);
+
+          return value === undefined ? (fallback as T) : (value as T);
+        },
+        set: <T>(key: string, value: T, setOptions?: MemoryOptions): void => {
+          this.assertReachable(key);
+          const { scope, expiration, actor } = { ...this.defaultOptions, ...setOptions };
+          this.validateValue(key, scope, value);
+          writes.set(formatStorageKey(key, scope), {
+            key,
+            scope,
+            entry: this.createEntry(key, value, expiration),
+            actor,
+          });
+        },
+        delete: (key: string, deleteOptions?: MemoryDeleteOptions): void => {
+          this.assertReachable(key);
+          const scopes = deleteOptions?.scope ? [deleteOptions.scope] : ALL_SCOPES;
+          scopes.forEach(scope => {
+            writes.set(formatStorageKey(key, scope), {
+              key,
+              scope,
+              entry: null,
+              actor: deleteOptions?.actor,
+            });
+          });
+        },
+      };
+
+      const result = await fn(tx);
+
+      if (await this.commit(reads, writes)) {
+        return result;
+      }
+
+      logger.debug(`Memory transaction conflict, attempt ${attempt + 1} of ${retries + 1}`);
+    }
+
+    throw new SDKError('Memory transaction conflicted with concurrent writes', {
+      code: 'MEMORY_TRANSACTION_CONFLICT',
+      retryable: true,
+      context: { retries },
+    });
+  }
+
+  async query(pattern: string | RegExp): Promise<Record<string, unknown>> {
+    const allKeys = await this.adapter.keys();
     const results: Record<string, unknown> = {};
 
     for (const storageKey of allKeys) {
@@ -197,74 +390,543 @@ export const memory: MemoryAPI = {
       }
 
       const { key } = parsedKey;
+      if (!this.namespaceAccess && isPrincipalNamespaceKey(key)) {
+        continue;
+      }
 
       // Check if key matches the pattern
       const matches = typeof pattern === 'string' ? key.includes(pattern) : pattern.test(key);
 
       if (matches) {
-        const rawData = storage.getItem(storageKey);
-
-        if (rawData) {
-          try {
-            const parsed = JSON.parse(rawData);
+        const entry = await this.adapter.getItem(storageKey);
 
-            // Check if this is an item with expiration
-            if (parsed && typeof parsed === 'object' && 'expiresAt' in parsed) {
-              if (parsed.expiresAt >= Date.now()) {
-                results[key] = parsed.value;
-              }
-            } else {
-              results[key] = parsed;
-            }
-          } catch (e) {
-            console.error(`Failed to parse memory item ${key}:`, e);
-          }
+        if (entry && !isExpired(entry)) {
+          results[key] = this.readValue(key, entry);
         }
       }
     }
 
     return results;
-  },
+  }
 
-  subscribe: (key: string, callback: (newValue: unknown) => void): (() => void) => {
-    return memoryEvents.subscribe(key, callback);
-  },
-};
+  subscribe(
+    key: string | RegExp,
+    callback: (newValue: unknown, change: MemoryChange) => void,
+    options?: MemorySubscribeOptions
+  ): () => void {
+    if (typeof key === 'string') {
+      this.assertReachable(key);
+    }
+    if (this.namespaceAccess) {
+      return memoryEvents.subscribe(key, callback, options);
+    }
 
-/**
- * MemoryManager class provides a object-oriented interface
- * to the memory system. It's a wrapper around the memory API.
- */
-export class MemoryManager implements MemoryAPI {
-  private defaultOptions: MemoryOptions;
+    // Patterns and prefixes must not reveal changes in principals' namespaces
+    return memoryEvents.subscribe(
+      key,
+      (newValue, change) => {
+        if (!isPrincipalNamespaceKey(change.key)) {
+          callback(newValue, change);
+        }
+      },
+      options
+    );
+  }
 
-  constructor(config: MemoryConfig = {}) {
-    this.defaultOptions = {
-      scope: config.scope || 'conversation',
+  registerSchema(prefix: string, schema: MemorySchema): () => void {
+    return this.schemas.register(prefix, schema);
+  }
+
+  async export(options: MemoryExportOptions = {}): Promise<MemoryExportDocument> {
+    const scopes = options.scopes || ALL_SCOPES;
+    const entries = await this.listEntries(scopes, options.prefix);
+
+    return {
+      format: 'vibing-memory',
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      scopes,
+      prefix: options.prefix,
+      entries: entries
+        .filter(({ entry }) => !isExpired(entry))
+        .map(({ key, scope, entry }) => {
+          const path = findNonJSONValue(entry.value);
+          if (path) {
+            throw new ValidationError(
+              `Memory value for "${key}" can't be exported as JSON`,
+              { [path]: ['Binary, Map and Set values are not supported in export documents'] },
+              { context: { key, scope } }
+            );
+          }
+
+          return {
+            key,
+            scope,
+            value: entry.value,
+            expiresAt: entry.expiresAt,
+            schemaVersion: entry.schemaVersion,
+          };
+        }),
+    };
+  }
+
+  async import(doc: MemoryExportDocument, options: MemoryImportOptions = {}): Promise<void> {
+    if (
+      !doc ||
+      doc.format !== 'vibing-memory' ||
+      doc.version !== 1 ||
+      !Array.isArray(doc.entries)
+    ) {
+      throw new ValidationError('Unsupported memory export document', {
+        format: ['Expected a version 1 document produced by memory.export()'],
+      });
+    }
+
+    const writes = new Map<string, StagedWrite>();
+
+    if (options.mode === 'replace') {
+      const existing = await this.listEntries(doc.scopes || ALL_SCOPES, doc.prefix);
+      existing.forEach(({ storageKey, key, scope }) => {
+        writes.set(storageKey, { key, scope, entry: null });
+      });
+    }
+
+    doc.entries.forEach(({ key, scope, value, expiresAt, schemaVersion }) => {
+      if (!ALL_SCOPES.includes(scope)) {
+        throw new ValidationError(`Invalid scope in memory export document for "${key}"`, {
+          scope: [`Expected one of ${ALL_SCOPES.join(', ')}`],
+        });
+      }
+
+      const entry = { value, expiresAt, schemaVersion };
+      if (!isExpired(entry)) {
+        writes.set(formatStorageKey(key, scope), { key, scope, entry });
+      }
+    });
+
+    await this.commit(new Map(), writes);
+  }
+
+  async snapshot(): Promise<MemorySnapshot> {
+    const entries = await this.listEntries(ALL_SCOPES);
+
+    return {
+      createdAt: Date.now(),
+      entries: new Map(entries.map(({ storageKey, entry }) => [storageKey, entry])),
     };
+  }
 
-    if (config.expiration) {
-      this.defaultOptions.expiration = config.expiration;
+  async restore(snapshot: MemorySnapshot): Promise<void> {
+    const writes = new Map<string, StagedWrite>();
+
+    (await this.listEntries(ALL_SCOPES)).forEach(({ storageKey, key, scope }) => {
+      writes.set(storageKey, { key, scope, entry: null });
+    });
+
+    snapshot.entries.forEach((entry, storageKey) => {
+      const parsedKey = parseStorageKey(storageKey);
+      if (parsedKey) {
+        writes.set(storageKey, { ...parsedKey, entry });
+      }
+    });
+
+    await this.commit(new Map(), writes);
+  }
+
+  startMaintenance(options?: MemoryMaintenanceOptions): MemoryMaintenance {
+    this.maintenance?.stop();
+
+    const maintenance = createMemoryMaintenance(
+      {
+        name: this.adapter.name,
+        listEntries: () => this.listEntries(ALL_SCOPES),
+        evict: (stored, predicate) => this.evictEntry(stored, predicate),
+      },
+      options
+    );
+    this.maintenance = maintenance;
+
+    return {
+      sweep: () => maintenance.sweep(),
+      getUsage: () => maintenance.getUsage(),
+      stop: () => {
+        maintenance.stop();
+        if (this.maintenance === maintenance) {
+          this.maintenance = null;
+        }
+      },
+    };
+  }
+
+  forPrincipal(
+    principal: MemoryPrincipal,
+    options: { permissions?: PermissionAPI } = {}
+  ): PrincipalMemory {
+    // The view shares this manager's state and only differs in reaching namespaces
+    const namespaces = Object.create(this) as MemoryManager;
+    namespaces.namespaceAccess = true;
+
+    return createPrincipalMemory(namespaces, principal, {
+      ...options,
+      defaultScope: this.defaultOptions.scope,
+    });
+  }
+
+  setEncryption(options: MemoryEncryptionOptions): void {
+    this.encryption = options;
+    this.adapter = createEncryptedAdapter(this.storageAdapter, options, storageKey => {
+      const parsedKey = parseStorageKey(storageKey);
+      return !!parsedKey && isEncryptedKey(options, parsedKey.key, parsedKey.scope);
+    });
+  }
+
+  /**
+   * Check whether the values of a key are encrypted at rest
+   * @internal
+   */
+  encrypts(key: string, scope: Scope): boolean {
+    return !!this.encryption && isEncryptedKey(this.encryption, key, scope);
+  }
+
+  /**
+   * Read the value of a key changed in another window, which memory sync only sends
+   * for keys that aren't encrypted
+   * @internal
+   */
+  async readSyncedValue(key: string, scope: Scope): Promise<unknown> {
+    const entry = await this.adapter.getItem(formatStorageKey(key, scope));
+    return entry && !isExpired(entry) ? this.readValue(key, entry) : undefined;
+  }
+
+  setAdapter(adapter: MemoryStorageAdapter): void {
+    this.storageAdapter = adapter;
+    this.adapter = adapter;
+
+    if (this.encryption) {
+      this.setEncryption(this.encryption);
     }
   }
 
-  async get<T>(key: string, options?: MemoryOptions): Promise<T | undefined> {
-    return memory.get<T>(key, { ...this.defaultOptions, ...options });
+  setHistory(options: MemoryHistoryOptions | null): void {
+    if (!options) {
+      this.journal = null;
+    } else if (this.journal) {
+      this.journal.configure(options);
+    } else {
+      this.journal = createMemoryJournal(options);
+    }
   }
 
-  async set<T>(key: string, value: T, options?: MemoryOptions): Promise<void> {
-    return memory.set(key, value, { ...this.defaultOptions, ...options });
+  async history<T = unknown>(
+    key: string,
+    options: MemoryHistoryQueryOptions = {}
+  ): Promise<MemoryHistoryEntry<T>[]> {
+    this.assertReachable(key);
+    const scope = options.scope || this.defaultOptions.scope;
+    return (this.journal?.list(key, scope) || []) as MemoryHistoryEntry<T>[];
+  }
+
+  async revert(
+    key: string,
+    version: number,
+    options: MemoryHistoryQueryOptions = {}
+  ): Promise<void> {
+    this.assertReachable(key);
+    const scope = options.scope || this.defaultOptions.scope;
+    const change = this.journal?.list(key, scope).find(entry => entry.version === version);
+
+    if (!change) {
+      throw new ValidationError(
+        `No change with version ${version} in the history of "${key}"`,
+        { version: ['Version is not in the recorded history'] },
+        { context: { key, scope, version } }
+      );
+    }
+
+    const value = change.previousValue;
+    if (value !== undefined) {
+      this.validateValue(key, scope, value);
+    }
+
+    const write: StagedWrite = {
+      key,
+      scope,
+      entry: value === undefined ? null : this.createEntry(key, value),
+      actor: options.actor,
+      revertOf: version,
+    };
+    await this.commit(new Map(), new Map([[formatStorageKey(key, scope), write]]));
+  }
+
+  /**
+   * Reject keys in principals' namespaces unless they can be reached
+   */
+  private assertReachable(key: string): void {
+    if (!this.namespaceAccess && isPrincipalNamespaceKey(key)) {
+      throw new PermissionError(
+        `"${key}" is in a principal's namespace, which only its memory.forPrincipal() handle reaches`,
+        'memory',
+        { context: { key } }
+      );
+    }
   }
 
-  async delete(key: string): Promise<void> {
-    return memory.delete(key);
+  /**
+   * Get the live value of an entry, migrated to the current schema version
+   */
+  private readValue(key: string, entry: MemoryEntry | null): unknown {
+    const value = getLiveValue(entry);
+    const schema = this.schemas.find(key);
+
+    if (!entry || value === undefined || !schema) {
+      return value;
+    }
+
+    return migrateSchemaValue(key, schema, value, entry.schemaVersion ?? 0);
   }
 
-  async query(pattern: string | RegExp): Promise<Record<string, unknown>> {
-    return memory.query(pattern);
+  /**
+   * Remove an entry for maintenance if it is still stored and matches the predicate
+   */
+  private async evictEntry(
+    { storageKey, key, scope }: StoredKey,
+    predicate?: (entry: MemoryEntry) => boolean
+  ): Promise<MemoryEntry | null> {
+    const removed = await withKeyLocks(this.adapter, [storageKey], async () => {
+      const current = await this.adapter.getItem(storageKey);
+      if (!current || (predicate && !predicate(current))) {
+        return null;
+      }
+
+      await this.adapter.removeItem(storageKey);
+      return current;
+    });
+
+    if (removed) {
+      memoryEvents.emit(
+        this.markEncrypted({
+          key,
+          scope,
+          oldValue: getLiveValue(removed),
+          newValue: undefined,
+          source: 'local',
+        })
+      );
+    }
+
+    return removed;
   }
 
-  subscribe(key: string, callback: (newValue: unknown) => void): () => void {
-    return memory.subscribe(key, callback);
+  /**
+   * List stored entries in the given scopes, optionally limited to a key prefix
+   */
+  private async listEntries(
+    scopes: Scope[],
+    prefix = ''
+  ): Promise<Array<{ storageKey: string; key: string; scope: Scope; entry: MemoryEntry }>> {
+    const results: Array<{ storageKey: string; key: string; scope: Scope; entry: MemoryEntry }> =
+      [];
+
+    for (const storageKey of await this.adapter.keys()) {
+      const parsedKey = parseStorageKey(storageKey);
+      if (!parsedKey || !scopes.includes(parsedKey.scope) || !parsedKey.key.startsWith(prefix)) {
+        continue;
+      }
+
+      const entry = await this.adapter.getItem(storageKey);
+      if (entry) {
+        results.push({ storageKey, ...parsedKey, entry });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Notify subscribers of a local change and record it in the history
+   */
+  private emitChange(change: MemoryChange, details: { actor?: string; revertOf?: number }): void {
+    this.journal?.record(change, details);
+    memoryEvents.emit(this.markEncrypted(change));
+  }
+
+  /**
+   * Mark changes of encrypted keys, so memory sync doesn't send their values to other windows
+   */
+  private markEncrypted(change: MemoryChange): MemoryChange {
+    return this.encrypts(change.key, change.scope) ? { ...change, encrypted: true } : change;
+  }
+
+  /**
+   * Reject values the adapter can't store or that don't match the key's schema
+   */
+  private validateValue(key: string, scope: Scope, value: unknown): void {
+    // Encrypted values are serialized as JSON before encryption
+    const encrypted = this.encrypts(key, scope);
+    const path = this.adapter.structuredClone && !encrypted ? null : findNonJSONValue(value);
+    if (path) {
+      throw new ValidationError(
+        encrypted
+          ? `Memory value for "${key}" can't be encrypted`
+          : `Memory value for "${key}" can't be stored by the ${this.adapter.name} adapter`,
+        {
+          [path]: [
+            encrypted
+              ? 'Encrypted values must be JSON serializable'
+              : 'Binary, Map and Set values require a structured clone adapter such as IndexedDB',
+          ],
+        },
+        { context: { key, scope, adapter: this.adapter.name } }
+      );
+    }
+
+    const schema = this.schemas.find(key);
+    if (schema) {
+      validateSchemaValue(key, schema, value);
+    }
+
+    this.maintenance?.checkWrite(key, scope, value);
+  }
+
+  /**
+   * Build an entry for a value with an optional expiration in milliseconds,
+   * tagged with the version of the key's schema
+   */
+  private createEntry(key: string, value: unknown, expiration?: number): MemoryEntry {
+    return {
+      value,
+      expiresAt: expiration ? Date.now() + expiration : undefined,
+      schemaVersion: this.schemas.find(key)?.version,
+    };
+  }
+
+  /**
+   * Write an entry, bumping the key's version, or remove it when entry is null
+   * Must be called while holding the key's lock
+   */
+  private async writeEntry(
+    key: string,
+    scope: Scope,
+    storageKey: string,
+    entry: MemoryEntry | null,
+    previous: MemoryEntry | null
+  ): Promise<void> {
+    try {
+      if (entry) {
+        await this.adapter.setItem(storageKey, {
+          ...entry,
+          version: getEntryVersion(previous) + 1,
+        });
+      } else if (previous) {
+        await this.adapter.removeItem(storageKey);
+      }
+    } catch (e) {
+      if (e instanceof QuotaExceededError && entry) {
+        publishQuotaExceeded({
+          key,
+          scope,
+          namespace: getNamespace(key),
+          size: estimateSize(key, entry.value),
+          storage: e.storage,
+        });
+      }
+      if (isSDKError(e)) {
+        throw e;
+      }
+      throw new SDKError(`Failed to store memory: ${e}`, {
+        code: 'MEMORY_WRITE_FAILED',
+        context: { key, scope },
+        cause: e instanceof Error ? e : undefined,
+      });
+    }
+  }
+
+  /**
+   * Commit a transaction's staged writes if none of the keys it read have changed
+   * @returns false on a conflict, in which case nothing was written
+   */
+  private async commit(
+    reads: Map<string, number>,
+    writes: Map<string, StagedWrite>
+  ): Promise<boolean> {
+    const storageKeys = [...Array.from(reads.keys()), ...Array.from(writes.keys())];
+
+    const applied = await withKeyLocks(this.adapter, storageKeys, async () => {
+      for (const [storageKey, version] of Array.from(reads.entries())) {
+        if (getEntryVersion(await this.adapter.getItem(storageKey)) !== version) {
+          return null;
+        }
+      }
+
+      const written: Array<{
+        write: StagedWrite;
+        storageKey: string;
+        previous: MemoryEntry | null;
+      }> = [];
+
+      try {
+        for (const [storageKey, write] of Array.from(writes.entries())) {
+          const previous = await this.adapter.getItem(storageKey);
+          await this.writeEntry(write.key, write.scope, storageKey, write.entry, previous);
+          written.push({ write, storageKey, previous });
+        }
+      } catch (e) {
+        // Restore the entries written so far so the batch has no effect
+        for (const { storageKey, previous } of written.reverse()) {
+          try {
+            if (previous) {
+              await this.adapter.setItem(storageKey, previous);
+            } else {
+              await this.adapter.removeItem(storageKey);
+            }
+          } catch (rollbackError) {
+            logger.error(`Failed to roll back memory key ${storageKey}:`, rollbackError);
+          }
+        }
+        throw e;
+      }
+
+      return written;
+    });
+
+    if (!applied) {
+      return false;
+    }
+
+    applied.forEach(({ write, previous }) => {
+      // Deleting a missing key is not a change
+      if (!write.entry && !previous) {
+        return;
+      }
+
+      this.emitChange(
+        {
+          key: write.key,
+          scope: write.scope,
+          oldValue: getLiveValue(previous),
+          newValue: write.entry ? write.entry.value : undefined,
+          source: 'local',
+        },
+        { actor: write.actor, revertOf: write.revertOf }
+      );
+    });
+
+    for (const { write, storageKey } of applied) {
+      if (write.entry) {
+        await this.maintenance?.afterWrite(write.key, write.scope, storageKey, write.entry);
+      } else {
+        this.maintenance?.afterDelete(storageKey);
+      }
+    }
+
+    return true;
   }
 }
+
+/**
+ * Memory manager backed by the default storage adapter, used by the memory hooks
+ *
+ * Hosts configure it with `setAdapter`, `setEncryption`, `setHistory` and
+ * `startMaintenance`.
+ */
+export const memory: MemoryAPI = new MemoryManager();
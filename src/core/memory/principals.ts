@@ -0,0 +1,267 @@
+import {
+  MemoryAPI,
+  MemoryChange,
+  MemoryDeleteOptions,
+  MemoryHandle,
+  MemoryOptions,
+  MemoryPrincipal,
+  MemoryShareOptions,
+  MemorySubscribeOptions,
+  PrincipalMemory,
+} from './types';
+import { PermissionAPI } from '../permissions/types';
+import { PermissionsManager } from '../permissions/permissions';
+import { PermissionError } from '../errors';
+import { Scope } from '../types';
+
+/**
+ * All scopes, checked when an operation doesn't name one
+ */
+const ALL_SCOPES: Scope[] = ['global', 'project', 'conversation'];
+
+/**
+ * Get the string identifying a principal, e.g. `plugin/weather`
+ */
+export const getPrincipalKey = (principal: MemoryPrincipal): string => {
+  return `${principal.kind}/${principal.id}`;
+};
+
+/**
+ * Get the key prefix of a principal's namespace
+ * The prefix ends in `:` so memory quotas can target a principal as a namespace.
+ */
+const getNamespacePrefix = (principal: MemoryPrincipal): string => {
+  return `${getPrincipalKey(principal)}:`;
+};
+
+/**
+ * Check whether a key lies in the namespace of an app, plugin or agent
+ * @internal
+ */
+export const isPrincipalNamespaceKey = (key: string): boolean => {
+  return /^(app|plugin|agent)\/[^:]+:/.test(key);
+};
+
+/**
+ * Get the permission type of a sharing grant from owner to grantee
+ */
+const getSharePermissionType = (owner: MemoryPrincipal, grantee: MemoryPrincipal): string => {
+  return `memory-share:${getPrincipalKey(owner)}:${getPrincipalKey(grantee)}`;
+};
+
+/**
+ * Creates a handle that maps keys into a principal's namespace
+ * @param memory Underlying memory
+ * @param principal Owner of the namespace
+ * @param authorize Called before every operation with the access it needs and its scopes
+ * @param actor Principal using the handle, recorded as the actor of its writes
+ */
+function createMemoryHandle(
+  memory: MemoryAPI,
+  principal: MemoryPrincipal,
+  authorize: (access: 'read' | 'write', scopes: Scope[]) => Promise<void>,
+  defaultScope: Scope,
+  actor: MemoryPrincipal
+): MemoryHandle {
+  const prefix = getNamespacePrefix(principal);
+  const actorKey = getPrincipalKey(actor);
+  const scopesOf = (options?: { scope?: Scope }): Scope[] => [options?.scope || defaultScope];
+
+  return {
+    principal,
+    defaultScope,
+
+    get: async <T>(key: string, options?: MemoryOptions): Promise<T | undefined> => {
+      await authorize('read', scopesOf(options));
+      return memory.get<T>(prefix + key, options);
+    },
+
+    set: async <T>(key: string, value: T, options?: MemoryOptions): Promise<void> => {
+      await authorize('write', scopesOf(options));
+      return memory.set(prefix + key, value, {
+        ...options,
+        scope: options?.scope || defaultScope,
+        actor: options?.actor || actorKey,
+      });
+    },
+
+    delete: async (key: string, options?: MemoryDeleteOptions): Promise<void> => {
+      await authorize('write', options?.scope ? [options.scope] : ALL_SCOPES);
+      return memory.delete(prefix + key, { ...options, actor: options?.actor || actorKey });
+    },
+
+    query: async (pattern: string | RegExp): Promise<Record<string, unknown>> => {
+      // Only read the scopes this handle may read
+      const readableScopes: Scope[] = [];
+      let denied: unknown;
+      for (const scope of ALL_SCOPES) {
+        try {
+          await authorize('read', [scope]);
+          readableScopes.push(scope);
+        } catch (e) {
+          denied = denied || e;
+        }
+      }
+
+      if (readableScopes.length === 0) {
+        throw denied;
+      }
+
+      const results: Record<string, unknown> = {};
+      for (const storedKey of Object.keys(await memory.query(prefix))) {
+        const key = storedKey.substring(prefix.length);
+        const matches = typeof pattern === 'string' ? key.includes(pattern) : pattern.test(key);
+        if (!storedKey.startsWith(prefix) || !matches) {
+          continue;
+        }
+
+        for (const scope of readableScopes) {
+          const value = await memory.get(storedKey, { scope });
+          if (value !== undefined) {
+            results[key] = value;
+          }
+        }
+      }
+
+      return results;
+    },
+
+    subscribe: (
+      key: string | RegExp,
+      callback: (newValue: unknown, change: MemoryChange) => void,
+      options: MemorySubscribeOptions = {}
+    ): (() => void) => {
+      const matches =
+        typeof key === 'string'
+          ? (relativeKey: string) =>
+              options.prefix ? relativeKey.startsWith(key) : relativeKey === key
+          : (relativeKey: string) => {
+              key.lastIndex = 0;
+              return key.test(relativeKey);
+            };
+
+      return memory.subscribe(
+        prefix,
+        (newValue, change) => {
+          const relativeKey = change.key.substring(prefix.length);
+          if (!matches(relativeKey)) {
+            return;
+          }
+
+          authorize('read', [change.scope]).then(
+            () => callback(newValue, { ...change, key: relativeKey }),
+            () => undefined
+          );
+        },
+        { scope: options.scope, prefix: true }
+      );
+    },
+  };
+}
+
+/**
+ * Creates a memory handle for a principal's own namespace
+ * Use `memory.forPrincipal()`, as the memory manager only lets its own handles reach namespaces.
+ * @internal
+ * @param memory Underlying memory
+ * @param principal App, plugin or agent that owns the namespace
+ * @param options Permissions the principal shares its namespace with, by default its
+ *   `PermissionsManager`, and the default scope of the underlying memory; grants from other
+ *   owners are always checked with the owner's `PermissionsManager`
+ * @returns Handle confined to the principal's namespace
+ * @example
+ * ```typescript
+ * const notes = memory.forPrincipal({ kind: 'app', id: 'notes' as AppId });
+ * await notes.set('draft', 'Hello');
+ *
+ * // Let a plugin read the app's notes
+ * await notes.share({ kind: 'plugin', id: 'summarizer' as PluginId }, { access: ['read'] });
+ *
+ * // Inside the plugin
+ * const summarizer = memory.forPrincipal({ kind: 'plugin', id: 'summarizer' as PluginId });
+ * const draft = await summarizer.shared({ kind: 'app', id: 'notes' as AppId }).get('draft');
+ * ```
+ */
+export function createPrincipalMemory(
+  memory: MemoryAPI,
+  principal: MemoryPrincipal,
+  options: { permissions?: PermissionAPI; defaultScope?: Scope } = {}
+): PrincipalMemory {
+  // Sharing grants belong to the owner of the shared namespace
+  const permissionsOf = (owner: MemoryPrincipal): PermissionAPI =>
+    (getPrincipalKey(owner) === getPrincipalKey(principal) && options.permissions) ||
+    new PermissionsManager(owner);
+  const defaultScope = options.defaultScope || 'conversation';
+  const ownHandle = createMemoryHandle(
+    memory,
+    principal,
+    async () => undefined,
+    defaultScope,
+    principal
+  );
+
+  /**
+   * Check whether a grant from owner to this principal covers an access level in a scope
+   */
+  const hasGrant = async (
+    owner: MemoryPrincipal,
+    access: 'read' | 'write',
+    scope: Scope
+  ): Promise<boolean> => {
+    const type = getSharePermissionType(owner, principal);
+    const permissions = permissionsOf(owner);
+    return (
+      (await permissions.check(type, [access], scope)) ||
+      (await permissions.check(type, ['read', 'write'], scope))
+    );
+  };
+
+  return {
+    ...ownHandle,
+
+    share: async (grantee: MemoryPrincipal, shareOptions: MemoryShareOptions = {}) => {
+      const result = await permissionsOf(principal).request({
+        type: getSharePermissionType(principal, grantee),
+        access: [...(shareOptions.access || ['read'])].sort(),
+        scope: shareOptions.scope || defaultScope,
+        duration: shareOptions.duration,
+        purpose: `Share ${getPrincipalKey(principal)} memory with ${getPrincipalKey(grantee)}`,
+      });
+
+      return result.granted;
+    },
+
+    unshare: async (grantee: MemoryPrincipal, unshareOptions: { scope?: Scope } = {}) => {
+      const type = getSharePermissionType(principal, grantee);
+      const permissions = permissionsOf(principal);
+      const scopes = unshareOptions.scope ? [unshareOptions.scope] : ALL_SCOPES;
+
+      for (const scope of scopes) {
+        for (const access of [['read'], ['write'], ['read', 'write']]) {
+          await permissions.revoke(type, access, scope);
+        }
+      }
+    },
+
+    shared: (owner: MemoryPrincipal): MemoryHandle => {
+      return createMemoryHandle(
+        memory,
+        owner,
+        async (access, scopes) => {
+          for (const scope of scopes) {
+            if (!(await hasGrant(owner, access, scope))) {
+              const permission = `${getSharePermissionType(owner, principal)}:${access}:${scope}`;
+              throw new PermissionError(
+                `${getPrincipalKey(principal)} has no ${access} access to ${getPrincipalKey(owner)} memory in the ${scope} scope`,
+                permission,
+                { context: { owner, grantee: principal, access, scope } }
+              );
+            }
+          }
+        },
+        defaultScope,
+        principal
+      );
+    },
+  };
+}
@@ -0,0 +1,114 @@
+import { MemorySchema } from './types';
+import { ValidationError } from '../errors';
+
+/**
+ * Schemas registered with a memory manager, matched by key prefix
+ */
+export interface MemorySchemaRegistry {
+  /**
+   * Register a schema for a key prefix, replacing any schema already registered for it
+   * @returns Function that removes the schema
+   */
+  register(prefix: string, schema: MemorySchema): () => void;
+
+  /**
+   * Find the schema for a key, preferring the longest matching prefix
+   */
+  find(key: string): MemorySchema | undefined;
+}
+
+/**
+ * Creates an empty schema registry
+ */
+export function createSchemaRegistry(): MemorySchemaRegistry {
+  const schemas = new Map<string, MemorySchema>();
+
+  return {
+    register(prefix: string, schema: MemorySchema): () => void {
+      if (!Number.isInteger(schema.version) || schema.version < 1) {
+        throw new ValidationError(`Invalid schema for memory prefix "${prefix}"`, {
+          version: ['Schema version must be a positive integer'],
+        });
+      }
+
+      schemas.set(prefix, schema);
+
+      return () => {
+        if (schemas.get(prefix) === schema) {
+          schemas.delete(prefix);
+        }
+      };
+    },
+
+    find(key: string): MemorySchema | undefined {
+      let match: { prefix: string; schema: MemorySchema } | undefined;
+
+      schemas.forEach((schema, prefix) => {
+        if (key.startsWith(prefix) && (!match || prefix.length > match.prefix.length)) {
+          match = { prefix, schema };
+        }
+      });
+
+      return match?.schema;
+    },
+  };
+}
+
+/**
+ * Check a value against a schema
+ * @throws ValidationError if the validator rejects the value
+ */
+export const validateSchemaValue = (key: string, schema: MemorySchema, value: unknown): void => {
+  if (!schema.validate) {
+    return;
+  }
+
+  const result = schema.validate(value);
+  const errors =
+    result === true ? {} : result === false ? { value: ['Value does not match schema'] } : result;
+
+  if (Object.keys(errors).length > 0) {
+    throw new ValidationError(
+      `Memory value for "${key}" does not match schema version ${schema.version}`,
+      errors,
+      { context: { key, schemaVersion: schema.version } }
+    );
+  }
+};
+
+/**
+ * Upgrade a stored value to the current schema version and validate it
+ * @param fromVersion Schema version the value was written with, 0 if untagged
+ * @throws ValidationError if a migration fails or the result is invalid
+ */
+export const migrateSchemaValue = (
+  key: string,
+  schema: MemorySchema,
+  value: unknown,
+  fromVersion: number
+): unknown => {
+  let migrated = value;
+
+  for (let version = fromVersion + 1; version <= schema.version; version++) {
+    const migration = schema.migrations?.[version];
+    if (!migration) {
+      continue;
+    }
+
+    try {
+      migrated = (migration as (value: unknown) => unknown)(migrated);
+    } catch (e) {
+      throw new ValidationError(
+        `Failed to migrate memory value for "${key}" to schema version ${version}`,
+        { value: [e instanceof Error ? e.message : String(e)] },
+        {
+          context: { key, fromVersion, schemaVersion: schema.version },
+          cause: e instanceof Error ? e : undefined,
+        }
+      );
+    }
+  }
+
+  validateSchemaValue(key, schema, migrated);
+  return migrated;
+};
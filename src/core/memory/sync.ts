@@ -0,0 +1,268 @@
+/**
+ * Cross-tab and cross-frame synchronization of memory changes
+ *
+ * Local changes are relayed to other windows and remote changes are
+ * re-emitted to `memory.subscribe` listeners with `source: 'remote'`.
+ * Only change notifications travel between windows; each window keeps
+ * reading from its own storage adapter. Values of encrypted keys are never
+ * sent, so receivers read them again through their encrypting adapter.
+ */
+import { memoryEvents } from './changes';
+import { MemoryManager, memory } from './memory';
+import {
+  MemoryChange,
+  MemorySync,
+  MemorySyncMessage,
+  MemorySyncOptions,
+  MemorySyncTransport,
+} from './types';
+import { logger } from '../utils/logger';
+
+/**
+ * Marker identifying memory sync messages
+ */
+const MESSAGE_TYPE = 'vibing:memory-change';
+
+/**
+ * Default channel name
+ */
+const DEFAULT_CHANNEL_NAME = 'vibing_memory';
+
+const SCOPES = ['global', 'project', 'conversation'];
+
+/**
+ * Check whether a received payload is a well-formed memory sync message
+ */
+const isSyncMessage = (data: unknown): data is MemorySyncMessage => {
+  if (typeof data !== 'object' || data === null) {
+    return false;
+  }
+
+  const { type, senderId, change } = data as MemorySyncMessage;
+  return (
+    type === MESSAGE_TYPE &&
+    typeof senderId === 'string' &&
+    typeof change === 'object' &&
+    change !== null &&
+    typeof change.key === 'string' &&
+    SCOPES.includes(change.scope) &&
+    (change.encrypted === undefined || typeof change.encrypted === 'boolean')
+  );
+};
+
+/**
+ * Creates a transport that uses a BroadcastChannel to reach same-origin tabs and frames
+ * @param channelName Name of the channel
+ */
+export function createBroadcastChannelTransport(
+  channelName: string = DEFAULT_CHANNEL_NAME
+): MemorySyncTransport {
+  const channel = new BroadcastChannel(channelName);
+
+  return {
+    post: message => channel.postMessage(message),
+
+    listen: handler => {
+      const onMessage = (event: MessageEvent) => {
+        if (isSyncMessage(event.data)) {
+          handler(event.data);
+        }
+      };
+      channel.addEventListener('message', onMessage);
+      return () => channel.removeEventListener('message', onMessage);
+    },
+
+    close: () => channel.close(),
+  };
+}
+
+/**
+ * Creates a transport that relays messages through `storage` events.
+ * Used where BroadcastChannel is unavailable; values must be JSON-serializable.
+ * @param channelName Name used to build the localStorage key carrying messages
+ */
+export function createStorageEventTransport(
+  channelName: string = DEFAULT_CHANNEL_NAME
+): MemorySyncTransport {
+  const storageKey = `${channelName}:sync`;
+
+  return {
+    post: message => {
+      // Writing then removing the key fires a storage event in every other tab
+      localStorage.setItem(storageKey, JSON.stringify(message));
+      localStorage.removeItem(storageKey);
+    },
+
+    listen: handler => {
+      const onStorage = (event: StorageEvent) => {
+        if (event.key !== storageKey || !event.newValue) {
+          return;
+        }
+
+        try {
+          const data = JSON.parse(event.newValue);
+          if (isSyncMessage(data)) {
+            handler(data);
+          }
+        } catch (e) {
+          logger.warn('Failed to parse memory sync message:', e);
+        }
+      };
+      window.addEventListener('storage', onStorage);
+      return () => window.removeEventListener('storage', onStorage);
+    },
+  };
+}
+
+/**
+ * Creates a transport that exchanges messages with another frame through postMessage
+ * @param target Window to exchange messages with, e.g. `window.parent` or `iframe.contentWindow`
+ * @param origin Origin of the target; messages from other origins are ignored
+ */
+export function createPostMessageTransport(target: Window, origin: string): MemorySyncTransport {
+  return {
+    post: message => target.postMessage(message, origin),
+
+    listen: handler => {
+      const onMessage = (event: MessageEvent) => {
+        if (event.source !== target || (origin !== '*' && event.origin !== origin)) {
+          return;
+        }
+        if (isSyncMessage(event.data)) {
+          handler(event.data);
+        }
+      };
+      window.addEventListener('message', onMessage);
+      return () => window.removeEventListener('message', onMessage);
+    },
+  };
+}
+
+/**
+ * Pick the default transports for the current environment:
+ * BroadcastChannel where supported, otherwise storage events, and none outside the browser
+ */
+const getDefaultTransports = (channelName: string): MemorySyncTransport[] => {
+  if (typeof BroadcastChannel !== 'undefined') {
+    return [createBroadcastChannelTransport(channelName)];
+  }
+
+  if (typeof window !== 'undefined' && typeof localStorage !== 'undefined') {
+    return [createStorageEventTransport(channelName)];
+  }
+
+  return [];
+};
+
+/**
+ * Start relaying memory changes between windows
+ *
+ * @param options Sync options
+ * @returns Handle used to stop synchronization
+ *
+ * @example
+ * ```ts
+ * // In every tab
+ * const sync = startMemorySync();
+ *
+ * // Inside an iframe, also exchange changes with the host page
+ * startMemorySync({ frames: [{ target: window.parent, origin: 'https://host.example.com' }] });
+ *
+ * memory.subscribe('draft', (value, change) => {
+ *   console.log(`${change.key} changed in ${change.scope} (${change.source})`);
+ * });
+ * ```
+ */
+export function startMemorySync(options: MemorySyncOptions = {}): MemorySync {
+  const channelName = options.channelName || DEFAULT_CHANNEL_NAME;
+  const senderId = Math.random().toString(36).substring(2, 11);
+  const manager = options.memory || (memory as MemoryManager);
+
+  const transports = [...(options.transports || getDefaultTransports(channelName))];
+  for (const frame of options.frames || []) {
+    transports.push(createPostMessageTransport(frame.target, frame.origin));
+  }
+
+  /**
+   * Re-emit a change received from another window, reading encrypted values from storage
+   */
+  const receive = (message: MemorySyncMessage): void => {
+    // Custom transports may pass on anything they receive
+    if (!isSyncMessage(message)) {
+      logger.warn('Ignoring a malformed memory sync message');
+      return;
+    }
+    if (message.senderId === senderId) {
+      return;
+    }
+
+    const { key, scope, oldValue, newValue, encrypted } = message.change;
+    if (!encrypted && !manager.encrypts(key, scope)) {
+      memoryEvents.emit({ key, scope, oldValue, newValue, source: 'remote' });
+      return;
+    }
+
+    // Values sent for encrypted keys are never trusted
+    manager.readSyncedValue(key, scope).then(
+      value => {
+        const change: MemoryChange = {
+          key,
+          scope,
+          oldValue: undefined,
+          newValue: value,
+          source: 'remote',
+          encrypted: true,
+        };
+        memoryEvents.emit(change);
+      },
+      e => logger.warn(`Failed to read synced memory change for "${key}":`, e)
+    );
+  };
+
+  const stopListening = transports.map(transport => transport.listen(receive));
+
+  // Relay local changes to other windows
+  const stopRelaying = memoryEvents.onChange(change => {
+    if (change.source !== 'local') {
+      return;
+    }
+
+    // Values of encrypted keys stay in this window's storage
+    const message: MemorySyncMessage = {
+      type: MESSAGE_TYPE,
+      senderId,
+      change: change.encrypted
+        ? {
+            key: change.key,
+            scope: change.scope,
+            oldValue: undefined,
+            newValue: undefined,
+            encrypted: true,
+          }
+        : {
+            key: change.key,
+            scope: change.scope,
+            oldValue: change.oldValue,
+            newValue: change.newValue,
+          },
+    };
+
+    for (const transport of transports) {
+      try {
+        transport.post(message);
+      } catch (e) {
+        logger.warn(`Failed to sync memory change for "${change.key}":`, e);
+      }
+    }
+  });
+
+  return {
+    transports,
+
+    stop: () => {
+      stopRelaying();
+      stopListening.forEach(stop => stop());
+      transports.forEach(transport => transport.close?.());
+    },
+  };
+}
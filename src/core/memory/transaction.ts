@@ -0,0 +1,123 @@
+import { MemoryEntry, MemoryStorageAdapter } from './types';
+import { Scope } from '../types';
+
+/**
+ * A write staged by a transaction, or null for a delete
+ */
+export interface StagedWrite {
+  key: string;
+  scope: Scope;
+  entry: MemoryEntry | null;
+
+  /**
+   * Who made the write and the change it reverts, recorded in the history
+   */
+  actor?: string;
+  revertOf?: number;
+}
+
+/**
+ * Pending lock promises per adapter and storage key
+ */
+const keyLocks = new WeakMap<MemoryStorageAdapter, Map<string, Promise<void>>>();
+
+/**
+ * Run a function while holding the locks for a set of storage keys
+ *
+ * Locks are in-process and shared by every memory manager using the same
+ * adapter. All keys are acquired in the same tick, so overlapping callers
+ * queue in order instead of deadlocking.
+ */
+export const withKeyLocks = async <R>(
+  adapter: MemoryStorageAdapter,
+  storageKeys: string[],
+  fn: () => Promise<R>
+): Promise<R> => {
+  const locks = keyLocks.get(adapter) || new Map<string, Promise<void>>();
+  keyLocks.set(adapter, locks);
+
+  const keys = Array.from(new Set(storageKeys));
+  const pending = keys.map(key => locks.get(key));
+
+  let release: () => void = () => undefined;
+  const lock = new Promise<void>(resolve => {
+    release = resolve;
+  });
+  keys.forEach(key => locks.set(key, lock));
+
+  await Promise.all(pending);
+
+  try {
+    return await fn();
+  } finally {
+    release();
+    keys.forEach(key => {
+      if (locks.get(key) === lock) {
+        locks.delete(key);
+      }
+    });
+  }
+};
+
+/**
+ * Get the version of a stored entry, 0 if the key has never been written
+ */
+export const getEntryVersion = (entry: MemoryEntry | null): number => {
+  return entry?.version ?? 0;
+};
+
+/**
+ * Compare two memory values structurally
+ * Handles primitives, arrays, plain objects, Date, Map and Set
+ */
+export const isEqualValue = (a: unknown, b: unknown): boolean => {
+  if (Object.is(a, b)) {
+    return true;
+  }
+
+  if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object') {
+    return false;
+  }
+
+  if (Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) {
+    return false;
+  }
+
+  if (a instanceof Date) {
+    return a.getTime() === (b as Date).getTime();
+  }
+
+  if (a instanceof Map) {
+    const other = b as Map<unknown, unknown>;
+    return (
+      a.size === other.size &&
+      Array.from(a.entries()).every(
+        ([key, value]) => other.has(key) && isEqualValue(value, other.get(key))
+      )
+    );
+  }
+
+  if (a instanceof Set) {
+    const other = b as Set<unknown>;
+    return a.size === other.size && Array.from(a).every(value => other.has(value));
+  }
+
+  if (Array.isArray(a)) {
+    const other = b as unknown[];
+    return (
+      a.length === other.length && a.every((value, index) => isEqualValue(value, other[index]))
+    );
+  }
+
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+
+  return (
+    aKeys.length === bKeys.length &&
+    aKeys.every(
+      key =>
+        Object.prototype.hasOwnProperty.call(b, key) &&
+        isEqualValue((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key])
+    )
+  );
+};
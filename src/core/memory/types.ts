@@ -1,6 +1,11 @@
 /**
  * Memory system types for the Vibing AI SDK
  */
+import { Scope } from '../types';
+import { ContextItem } from '../super-agent';
+import { AgentId, AppId, PluginId } from '../../types/utilities';
+import { EncryptionKeyProvider, EncryptionKeySource } from '../security/encryption';
+import { PermissionAPI } from '../permissions/types';
 
 /**
  * Configuration for memory system
@@ -9,12 +14,166 @@ export interface MemoryConfig {
   /**
    * Default scope for memory operations
    */
-  scope?: 'global' | 'project' | 'conversation';
+  scope?: Scope;
 
   /**
    * Default expiration time in milliseconds
    */
   expiration?: number;
+
+  /**
+   * Storage backend for memory items
+   * Defaults to localStorage when available, otherwise an in-process store
+   */
+  adapter?: MemoryStorageAdapter;
+
+  /**
+   * Schemas to register, keyed by key prefix
+   */
+  schemas?: Record<string, MemorySchema>;
+
+  /**
+   * Encrypt values at rest in some scopes or under some key prefixes
+   */
+  encryption?: MemoryEncryptionOptions;
+
+  /**
+   * Record a history of changes that can be reverted
+   */
+  history?: MemoryHistoryOptions;
+}
+
+/**
+ * Options for encrypting memory values at rest with AES-GCM
+ *
+ * Values of matching keys are encrypted before they reach the storage
+ * adapter and decrypted when read, so callers and `useMemory` see plain
+ * values. Keys, expiry and versions are stored unencrypted.
+ */
+export interface MemoryEncryptionOptions {
+  /**
+   * Key material, as accepted by `createSecureStore`, or a key provider
+   */
+  encryptionKey: EncryptionKeySource | EncryptionKeyProvider;
+
+  /**
+   * Scopes whose values are encrypted
+   */
+  scopes?: Scope[];
+
+  /**
+   * Key prefixes whose values are encrypted, in any scope
+   */
+  prefixes?: string[];
+
+  /**
+   * Read unencrypted values of encrypted keys, encrypting them as they're read
+   * Enable it once to migrate values stored before encryption was set up; otherwise
+   * reading them fails, so plain values written to storage can't stand in for encrypted ones.
+   * @default false
+   */
+  migrateUnencrypted?: boolean;
+}
+
+/**
+ * Versioned schema for memory values whose keys start with a given prefix
+ *
+ * Values are tagged with the schema version when written. Older values are
+ * upgraded by the migrations when read, and every value is checked by the
+ * validator on read and on write.
+ */
+export interface MemorySchema {
+  /**
+   * Current schema version, a positive integer
+   */
+  version: number;
+
+  /**
+   * Check a value against the schema
+   * Return true when valid, false when invalid, or validation errors by field
+   * (an empty object counts as valid)
+   */
+  validate?: (value: unknown) => boolean | Record<string, string[]>;
+
+  /**
+   * Migrations keyed by the version they upgrade to
+   * `migrations[2]` receives a version 1 value and returns a version 2 value.
+   * Values written before the schema was registered are version 0.
+   * Versions without a migration are assumed to be compatible.
+   */
+  migrations?: Record<number, (value: never) => unknown>;
+}
+
+/**
+ * A stored memory item as handed to a storage adapter
+ */
+export interface MemoryEntry<T = unknown> {
+  /**
+   * The stored value
+   */
+  value: T;
+
+  /**
+   * Timestamp after which the item is considered expired
+   */
+  expiresAt?: number;
+
+  /**
+   * Write counter for the key, incremented by the memory manager on every write
+   * Used to detect conflicting writes in compare-and-set and transactions
+   */
+  version?: number;
+
+  /**
+   * Version of the schema the value was written with, if a schema applies to the key
+   */
+  schemaVersion?: number;
+}
+
+/**
+ * Storage backend used by the memory system
+ *
+ * Adapters store entries under opaque string keys. Key formatting, scoping
+ * and expiration are handled by the memory manager.
+ */
+export interface MemoryStorageAdapter {
+  /**
+   * Name of the adapter, used in log messages
+   */
+  readonly name: string;
+
+  /**
+   * Whether values are stored with the structured clone algorithm, so that
+   * Blob, ArrayBuffer, typed arrays, Map, Set and Date survive a round trip.
+   * Adapters without it serialize values as JSON.
+   */
+  readonly structuredClone?: boolean;
+
+  /**
+   * Get an entry from storage
+   */
+  getItem(key: string): Promise<MemoryEntry | null>;
+
+  /**
+   * Store an entry
+   * Rejects with an SDKError, such as QuotaExceededError, if the write fails
+   */
+  setItem(key: string, entry: MemoryEntry): Promise<void>;
+
+  /**
+   * Remove an entry from storage
+   */
+  removeItem(key: string): Promise<void>;
+
+  /**
+   * List all keys held by the adapter
+   */
+  keys(): Promise<string[]>;
+
+  /**
+   * Remove all entries held by the adapter
+   */
+  clear(): Promise<void>;
 }
 
 /**
@@ -27,7 +186,7 @@ export interface MemoryOptions {
    * - project: Accessible within the current project
    * - conversation: Accessible only within the current conversation
    */
-  scope: 'global' | 'project' | 'conversation';
+  scope: Scope;
 
   /**
    * Optional default value if memory doesn't exist
@@ -38,6 +197,28 @@ export interface MemoryOptions {
    * Optional expiration time in milliseconds
    */
   expiration?: number;
+
+  /**
+   * Who is writing, recorded in the change history
+   */
+  actor?: string;
+}
+
+/**
+ * Options for the useMemory hook
+ */
+export interface UseMemoryOptions extends Omit<MemoryOptions, 'scope'> {
+  /**
+   * Scope of the memory
+   * @default 'conversation'
+   */
+  scope?: Scope;
+
+  /**
+   * Show written values before the write completes, rolling them back if it fails
+   * @default false
+   */
+  optimistic?: boolean;
 }
 
 /**
@@ -75,42 +256,1013 @@ export interface MemoryResult<T> {
   delete: () => Promise<void>;
 }
 
+/**
+ * A key and value returned by a memory query
+ */
+export interface MemoryQueryItem<T> {
+  key: string;
+  value: T;
+}
+
+/**
+ * Options for the useMemoryQuery hook
+ */
+export interface MemoryQueryOptions<T> {
+  /**
+   * Scope to read, or every scope when omitted
+   */
+  scope?: Scope;
+
+  /**
+   * Order of the results
+   * @default ordered by key
+   */
+  sort?: (a: MemoryQueryItem<T>, b: MemoryQueryItem<T>) => number;
+
+  /**
+   * Maximum number of results
+   */
+  limit?: number;
+
+  /**
+   * Number of sorted results to skip
+   * @default 0
+   */
+  offset?: number;
+}
+
+/**
+ * Result of the useMemoryQuery hook
+ */
+export interface MemoryQueryResult<T> {
+  /**
+   * The requested page of matching items
+   */
+  data: MemoryQueryItem<T>[];
+
+  /**
+   * Number of matching items before the limit and offset are applied
+   */
+  total: number;
+
+  /**
+   * Loading state
+   */
+  loading: boolean;
+
+  /**
+   * Error if any occurred while querying
+   */
+  error: Error | null;
+
+  /**
+   * Run the query again
+   */
+  refresh: () => Promise<void>;
+}
+
+/**
+ * An item of a memory collection
+ */
+export interface MemoryCollectionItem<T> {
+  /**
+   * Id of the item, the part of its key after the collection prefix
+   */
+  id: string;
+  value: T;
+}
+
+/**
+ * Result of the useMemoryCollection hook
+ */
+export interface MemoryCollectionResult<T> {
+  /**
+   * Items of the collection in order
+   * The order is stored under `collection-order:` followed by the collection prefix.
+   */
+  data: MemoryCollectionItem<T>[];
+
+  /**
+   * Loading state
+   */
+  loading: boolean;
+
+  /**
+   * Error if any occurred during collection operations
+   */
+  error: Error | null;
+
+  /**
+   * Add an item at the end of the collection
+   * @param id Id of the item, generated when omitted
+   * @returns The id of the item, or undefined if it couldn't be added
+   */
+  add: (value: T, id?: string) => Promise<string | undefined>;
+
+  /**
+   * Replace an item, or update it based on its current value
+   */
+  update: (id: string, value: T | ((currentValue: T | undefined) => T)) => Promise<void>;
+
+  /**
+   * Remove an item
+   */
+  remove: (id: string) => Promise<void>;
+
+  /**
+   * Put the items in a new order
+   * Ids left out keep their relative order after the listed ones.
+   */
+  reorder: (ids: string[]) => Promise<void>;
+}
+
 /**
  * Function to query memory based on pattern
  */
 export type MemoryQueryFn = (pattern: string | RegExp) => Promise<Record<string, any>>;
 
 /**
- * Function for subscribing to memory changes
+ * Description of a change to a memory item
  */
-export type MemorySubscribeFn = (key: string, callback: (newValue: any) => void) => () => void;
+export interface MemoryChange {
+  /**
+   * Key of the changed item
+   */
+  key: string;
+
+  /**
+   * Scope the change was made in
+   */
+  scope: Scope;
+
+  /**
+   * Value before the change, or undefined if the item didn't exist
+   */
+  oldValue: unknown;
+
+  /**
+   * New value, or undefined if the item was deleted
+   */
+  newValue: unknown;
+
+  /**
+   * Whether the change was made in this window or received from another tab or frame
+   */
+  source: 'local' | 'remote';
+
+  /**
+   * Whether the key's values are encrypted at rest
+   * Their values aren't sent to other windows, which read them again from storage
+   * and get no old value.
+   */
+  encrypted?: boolean;
+}
 
 /**
- * Memory API interface
+ * Options for the change history of a memory manager
  */
-export interface MemoryAPI {
+export interface MemoryHistoryOptions {
   /**
-   * Get value from memory
+   * Number of changes kept per scope, dropping the oldest first
+   * @default 100
    */
-  get: <T>(key: string, options?: MemoryOptions) => Promise<T | undefined>;
+  limit?: number;
 
   /**
-   * Set value in memory
+   * Number of changes kept in individual scopes, overriding `limit`
+   * Use 0 to turn history off for a scope.
    */
-  set: <T>(key: string, value: T, options?: MemoryOptions) => Promise<void>;
+  scopes?: Partial<Record<Scope, number>>;
+}
+
+/**
+ * A change recorded in the memory history
+ */
+export interface MemoryHistoryEntry<T = unknown> {
+  /**
+   * Number of the change, increasing with every change recorded by the memory manager
+   */
+  version: number;
+
+  key: string;
+  scope: Scope;
+  operation: 'set' | 'delete';
 
   /**
-   * Delete value from memory
+   * Value after the change, undefined for deletes
    */
-  delete: (key: string) => Promise<void>;
+  value: T | undefined;
 
   /**
-   * Query memory for keys matching pattern
+   * Value before the change, or undefined if the item didn't exist
    */
-  query: MemoryQueryFn;
+  previousValue: T | undefined;
 
   /**
-   * Subscribe to changes in memory
+   * When the change was made
    */
-  subscribe: MemorySubscribeFn;
+  timestamp: number;
+
+  /**
+   * Who made the change, if the writer named itself
+   */
+  actor?: string;
+
+  /**
+   * Version of the change this one reverted, for changes made by `memory.revert`
+   */
+  revertOf?: number;
+}
+
+/**
+ * Options for reading and reverting the history of a key
+ */
+export interface MemoryHistoryQueryOptions {
+  /**
+   * Scope of the key
+   * Defaults to the memory manager's default scope
+   */
+  scope?: Scope;
+
+  /**
+   * Who is reverting, recorded in the change history
+   */
+  actor?: string;
+}
+
+/**
+ * Result of the useMemoryHistory hook
+ */
+export interface MemoryHistoryResult<T> {
+  /**
+   * Recorded changes of the key, oldest first
+   */
+  data: MemoryHistoryEntry<T>[];
+
+  /**
+   * Loading state
+   */
+  loading: boolean;
+
+  /**
+   * Error if any occurred while reading or reverting history
+   */
+  error: Error | null;
+
+  /**
+   * Whether there is a change to undo
+   */
+  canUndo: boolean;
+
+  /**
+   * Whether there is an undone change to redo
+   */
+  canRedo: boolean;
+
+  /**
+   * Revert the latest change that wasn't undone
+   */
+  undo: () => Promise<void>;
+
+  /**
+   * Reapply the latest undone change
+   */
+  redo: () => Promise<void>;
+
+  /**
+   * Restore the value the key had before a change
+   */
+  revert: (version: number) => Promise<void>;
+}
+
+/**
+ * Options for memory subscriptions
+ */
+export interface MemorySubscribeOptions {
+  /**
+   * Only notify about changes in this scope
+   * Defaults to changes in any scope
+   */
+  scope?: Scope;
+
+  /**
+   * Treat a string key as a prefix and notify about every key starting with it
+   */
+  prefix?: boolean;
+}
+
+/**
+ * Options for deleting memory
+ */
+export interface MemoryDeleteOptions {
+  /**
+   * Only delete the item in this scope
+   * Defaults to deleting the item from every scope
+   */
+  scope?: Scope;
+
+  /**
+   * Who is deleting, recorded in the change history
+   */
+  actor?: string;
+}
+
+/**
+ * Function for subscribing to memory changes
+ * The key can be an exact key, a prefix (with `prefix: true`) or a RegExp
+ */
+export type MemorySubscribeFn = (
+  key: string | RegExp,
+  callback: (newValue: any, change: MemoryChange) => void,
+  options?: MemorySubscribeOptions
+) => () => void;
+
+/**
+ * Message exchanged between windows to synchronize memory changes
+ */
+export interface MemorySyncMessage {
+  /**
+   * Marker identifying memory sync messages
+   */
+  type: 'vibing:memory-change';
+
+  /**
+   * Id of the sync instance that sent the message, used to ignore echoes
+   */
+  senderId: string;
+
+  /**
+   * The change being propagated
+   */
+  change: Omit<MemoryChange, 'source'>;
+}
+
+/**
+ * Channel used to deliver sync messages to other windows
+ */
+export interface MemorySyncTransport {
+  /**
+   * Send a message to other windows
+   */
+  post: (message: MemorySyncMessage) => void;
+
+  /**
+   * Listen for messages from other windows
+   * @returns Function that stops listening
+   */
+  listen: (handler: (message: MemorySyncMessage) => void) => () => void;
+
+  /**
+   * Release resources held by the transport
+   */
+  close?: () => void;
+}
+
+/**
+ * Options for memory synchronization
+ */
+export interface MemorySyncOptions {
+  /**
+   * Name of the BroadcastChannel, also used to namespace storage event messages
+   * @default 'vibing_memory'
+   */
+  channelName?: string;
+
+  /**
+   * Frames to exchange changes with through postMessage, such as
+   * `window.parent` from inside an iframe or an iframe's `contentWindow` from the host.
+   * Messages are only sent to and accepted from the given origin.
+   */
+  frames?: Array<{ target: Window; origin: string }>;
+
+  /**
+   * Custom transports, replacing the default BroadcastChannel / storage event selection
+   */
+  transports?: MemorySyncTransport[];
+
+  /**
+   * Memory manager whose encryption options pick the keys whose values aren't sent,
+   * and which reads them again when they change in another window
+   * @default the shared `memory`
+   */
+  memory?: {
+    encrypts: (key: string, scope: Scope) => boolean;
+    readSyncedValue: (key: string, scope: Scope) => Promise<unknown>;
+  };
+}
+
+/**
+ * Handle for a running memory synchronization
+ */
+export interface MemorySync {
+  /**
+   * Transports in use
+   */
+  transports: MemorySyncTransport[];
+
+  /**
+   * Stop relaying changes
+   */
+  stop: () => void;
+}
+
+/**
+ * Batch of memory reads and writes passed to `memory.transaction`
+ *
+ * Reads see the transaction's own pending writes. Writes are staged and
+ * only committed if the transaction function resolves.
+ */
+export interface MemoryTransaction {
+  /**
+   * Get a value, including values written earlier in this transaction
+   */
+  get: <T>(key: string, options?: MemoryOptions) => Promise<T | undefined>;
+
+  /**
+   * Stage a write
+   */
+  set: <T>(key: string, value: T, options?: MemoryOptions) => void;
+
+  /**
+   * Stage a delete
+   */
+  delete: (key: string, options?: MemoryDeleteOptions) => void;
+}
+
+/**
+ * Options for memory transactions
+ */
+export interface MemoryTransactionOptions {
+  /**
+   * How many times to re-run the transaction when a key it read was changed before commit
+   * @default 3
+   */
+  retries?: number;
+}
+
+/**
+ * Options for exporting memory
+ */
+export interface MemoryExportOptions {
+  /**
+   * Scopes to export
+   * Defaults to every scope
+   */
+  scopes?: Scope[];
+
+  /**
+   * Only export keys starting with this prefix
+   */
+  prefix?: string;
+}
+
+/**
+ * A memory item in an export document
+ */
+export interface MemoryExportEntry {
+  key: string;
+  scope: Scope;
+  value: unknown;
+
+  /**
+   * Timestamp after which the item expires
+   */
+  expiresAt?: number;
+
+  /**
+   * Version of the schema the value was written with
+   */
+  schemaVersion?: number;
+}
+
+/**
+ * Portable, JSON-serializable copy of memory produced by `memory.export`
+ */
+export interface MemoryExportDocument {
+  /**
+   * Marker identifying memory export documents
+   */
+  format: 'vibing-memory';
+
+  /**
+   * Version of the document format
+   */
+  version: 1;
+
+  /**
+   * ISO timestamp of the export
+   */
+  exportedAt: string;
+
+  /**
+   * Scopes the document covers
+   */
+  scopes: Scope[];
+
+  /**
+   * Key prefix the document covers, if the export was limited to one
+   */
+  prefix?: string;
+
+  entries: MemoryExportEntry[];
+}
+
+/**
+ * Options for importing memory
+ */
+export interface MemoryImportOptions {
+  /**
+   * `merge` writes the document's entries over existing memory.
+   * `replace` first removes existing entries in the scopes and prefix the document covers.
+   * @default 'merge'
+   */
+  mode?: 'merge' | 'replace';
+}
+
+/**
+ * In-process copy of all memory, taken by `memory.snapshot()`
+ * Values are shared with the store rather than cloned, so don't mutate them.
+ */
+export interface MemorySnapshot {
+  /**
+   * Timestamp when the snapshot was taken
+   */
+  readonly createdAt: number;
+
+  /**
+   * Stored entries by storage key
+   */
+  readonly entries: ReadonlyMap<string, MemoryEntry>;
+}
+
+/**
+ * Size limits for memory, in bytes of serialized keys and values
+ */
+export interface MemoryQuotas {
+  /**
+   * Limits per scope
+   */
+  scopes?: Partial<Record<Scope, number>>;
+
+  /**
+   * Limits per namespace, the part of a key before its first `:`
+   */
+  namespaces?: Record<string, number>;
+}
+
+/**
+ * Options for background memory maintenance
+ */
+export interface MemoryMaintenanceOptions {
+  /**
+   * Milliseconds between sweeps of expired entries, 0 to only sweep on demand
+   * @default 60000
+   */
+  sweepInterval?: number;
+
+  /**
+   * Size limits enforced on writes by evicting least recently used entries
+   */
+  quotas?: MemoryQuotas;
+}
+
+/**
+ * Memory size accounting, in bytes of serialized keys and values
+ */
+export interface MemoryUsage {
+  /**
+   * Size of all live entries
+   */
+  total: number;
+
+  /**
+   * Number of live entries
+   */
+  entries: number;
+
+  /**
+   * Size per scope
+   */
+  scopes: Record<Scope, number>;
+
+  /**
+   * Size per namespace, the part of a key before its first `:` ('' for keys without one)
+   */
+  namespaces: Record<string, number>;
+}
+
+/**
+ * Handle for running memory maintenance
+ */
+export interface MemoryMaintenance {
+  /**
+   * Remove expired entries now
+   * @returns Number of entries removed
+   */
+  sweep(): Promise<number>;
+
+  /**
+   * Measure current memory usage
+   */
+  getUsage(): Promise<MemoryUsage>;
+
+  /**
+   * Stop sweeping and enforcing quotas
+   */
+  stop(): void;
+}
+
+/**
+ * Payload of the `memory:evicted` event
+ */
+export interface MemoryEvictedEvent {
+  key: string;
+  scope: Scope;
+  namespace: string;
+
+  /**
+   * Size of the removed entry in bytes
+   */
+  size: number;
+
+  /**
+   * Whether the entry expired or was evicted to stay within a quota
+   */
+  reason: 'expired' | 'quota';
+}
+
+/**
+ * Payload of the `memory:quota-exceeded` event
+ */
+export interface MemoryQuotaExceededEvent {
+  key: string;
+  scope: Scope;
+  namespace: string;
+
+  /**
+   * Size of the rejected entry in bytes
+   */
+  size: number;
+
+  /**
+   * Quota that would be exceeded, when the write was rejected by a configured quota
+   */
+  limit?: number;
+
+  /**
+   * Name of the storage backend, when the write was rejected by the storage itself
+   */
+  storage?: string;
+}
+
+/**
+ * App, plugin or agent that owns a memory namespace
+ */
+export type MemoryPrincipal =
+  | { kind: 'app'; id: AppId }
+  | { kind: 'plugin'; id: PluginId }
+  | { kind: 'agent'; id: AgentId };
+
+/**
+ * Memory operations confined to one principal's namespace
+ * Keys are relative to the namespace, so other principals' keys can't be reached.
+ */
+export interface MemoryHandle {
+  /**
+   * Principal whose namespace the handle operates on
+   */
+  readonly principal: MemoryPrincipal;
+
+  /**
+   * Scope of calls without a scope option, the default scope of the memory manager
+   */
+  readonly defaultScope: Scope;
+
+  get: <T>(key: string, options?: MemoryOptions) => Promise<T | undefined>;
+  set: <T>(key: string, value: T, options?: MemoryOptions) => Promise<void>;
+  delete: (key: string, options?: MemoryDeleteOptions) => Promise<void>;
+  query: MemoryQueryFn;
+  subscribe: MemorySubscribeFn;
+}
+
+/**
+ * Options for sharing a principal's memory with another principal
+ */
+export interface MemoryShareOptions {
+  /**
+   * Access to grant
+   * @default ['read']
+   */
+  access?: Array<'read' | 'write'>;
+
+  /**
+   * Memory scope the grant covers
+   * @default 'conversation'
+   */
+  scope?: Scope;
+
+  /**
+   * How long the grant lasts in milliseconds
+   * Defaults to the permission system's default duration
+   */
+  duration?: number;
+}
+
+/**
+ * Memory handle for a principal's own namespace
+ */
+export interface PrincipalMemory extends MemoryHandle {
+  /**
+   * Grant another principal access to this namespace
+   * The grant is requested through the permissions system, which may ask the user.
+   * @returns Whether the grant was given
+   */
+  share: (grantee: MemoryPrincipal, options?: MemoryShareOptions) => Promise<boolean>;
+
+  /**
+   * Revoke another principal's access to this namespace
+   */
+  unshare: (grantee: MemoryPrincipal, options?: { scope?: Scope }) => Promise<void>;
+
+  /**
+   * Open another principal's namespace
+   * Every operation is checked against the sharing grants and rejects with a
+   * `PermissionError` when no grant covers it.
+   */
+  shared: (owner: MemoryPrincipal) => MemoryHandle;
+}
+
+/**
+ * Memory API interface
+ */
+export interface MemoryAPI {
+  /**
+   * Get value from memory
+   */
+  get: <T>(key: string, options?: MemoryOptions) => Promise<T | undefined>;
+
+  /**
+   * Set value in memory
+   */
+  set: <T>(key: string, value: T, options?: MemoryOptions) => Promise<void>;
+
+  /**
+   * Delete value from memory
+   */
+  delete: (key: string, options?: MemoryDeleteOptions) => Promise<void>;
+
+  /**
+   * Query memory for keys matching pattern
+   */
+  query: MemoryQueryFn;
+
+  /**
+   * Subscribe to changes in memory
+   */
+  subscribe: MemorySubscribeFn;
+
+  /**
+   * Run reads and writes as a single all-or-nothing batch
+   * The transaction is re-run if a key it read changes before it commits
+   */
+  transaction: <R>(
+    fn: (tx: MemoryTransaction) => Promise<R>,
+    options?: MemoryTransactionOptions
+  ) => Promise<R>;
+
+  /**
+   * Set a value only if the current value equals `expected`
+   * @returns Whether the value was written
+   */
+  compareAndSet: <T>(
+    key: string,
+    expected: T | undefined,
+    next: T,
+    options?: MemoryOptions
+  ) => Promise<boolean>;
+
+  /**
+   * Register a versioned schema for keys starting with a prefix
+   * The longest matching prefix wins.
+   * @returns Function that removes the schema
+   */
+  registerSchema: (prefix: string, schema: MemorySchema) => () => void;
+
+  /**
+   * Export memory as a versioned JSON document, including expirations
+   */
+  export: (options?: MemoryExportOptions) => Promise<MemoryExportDocument>;
+
+  /**
+   * Import a document produced by `export`
+   * All entries are written in a single all-or-nothing batch.
+   */
+  import: (doc: MemoryExportDocument, options?: MemoryImportOptions) => Promise<void>;
+
+  /**
+   * Take an in-process copy of all memory, e.g. to reset state between tests
+   */
+  snapshot: () => Promise<MemorySnapshot>;
+
+  /**
+   * Restore memory to the state of a snapshot, removing anything written since
+   */
+  restore: (snapshot: MemorySnapshot) => Promise<void>;
+
+  /**
+   * Start sweeping expired entries and enforcing quotas
+   * Starting again replaces the running maintenance.
+   */
+  startMaintenance: (options?: MemoryMaintenanceOptions) => MemoryMaintenance;
+
+  /**
+   * Get a memory handle confined to a principal's namespace
+   * Other calls can't reach keys in principals' namespaces.
+   * @param principal App, plugin or agent that owns the namespace
+   * @param options Permissions the principal shares its namespace with, by default its
+   *   `PermissionsManager`; grants from other owners are checked with the owner's
+   */
+  forPrincipal: (
+    principal: MemoryPrincipal,
+    options?: { permissions?: PermissionAPI }
+  ) => PrincipalMemory;
+
+  /**
+   * Encrypt values at rest from now on, replacing any earlier encryption options
+   * Values already stored unencrypted are only read with `migrateUnencrypted`.
+   */
+  setEncryption: (options: MemoryEncryptionOptions) => void;
+
+  /**
+   * Store values in another adapter from now on, keeping the encryption options
+   * Values already stored in the previous adapter are not copied.
+   */
+  setAdapter: (adapter: MemoryStorageAdapter) => void;
+
+  /**
+   * Start recording changes, or stop and drop the recorded history with null
+   * Starting again keeps the changes already recorded.
+   */
+  setHistory: (options: MemoryHistoryOptions | null) => void;
+
+  /**
+   * Get the recorded changes of a key, oldest first
+   */
+  history: <T = unknown>(
+    key: string,
+    options?: MemoryHistoryQueryOptions
+  ) => Promise<MemoryHistoryEntry<T>[]>;
+
+  /**
+   * Restore the value a key had before a recorded change, undoing it and every later change
+   * The revert is recorded as a change itself.
+   * @throws ValidationError if the change is not in the history
+   */
+  revert: (key: string, version: number, options?: MemoryHistoryQueryOptions) => Promise<void>;
+}
+
+/**
+ * Function that turns text into an embedding vector
+ */
+export type EmbeddingFunction = (text: string) => Promise<number[]> | number[];
+
+/**
+ * Metadata filter for vector searches
+ * Either metadata fields that must equal the given values, or a predicate
+ */
+export type VectorFilter =
+  | Record<string, unknown>
+  | ((metadata: Record<string, unknown>) => boolean);
+
+/**
+ * A text stored in vector memory together with its embedding
+ */
+export interface VectorRecord {
+  /**
+   * Unique identifier of the record
+   */
+  id: string;
+
+  /**
+   * Original text
+   */
+  text: string;
+
+  /**
+   * Arbitrary metadata used for filtering and attribution
+   * `title` and `source` strings are copied to search results
+   */
+  metadata: Record<string, unknown>;
+
+  /**
+   * Embedding of the text
+   */
+  vector: number[];
+}
+
+/**
+ * A record returned by a vector index search
+ */
+export interface VectorMatch {
+  /**
+   * The matching record
+   */
+  record: VectorRecord;
+
+  /**
+   * Cosine similarity between the query and the record, from -1 to 1
+   */
+  score: number;
+}
+
+/**
+ * Storage and nearest-neighbour search for vector memory
+ */
+export interface VectorIndex {
+  /**
+   * Add a record or replace the record with the same id
+   */
+  upsert(record: VectorRecord): Promise<void>;
+
+  /**
+   * Remove a record; removing a missing record is a no-op
+   */
+  remove(id: string): Promise<void>;
+
+  /**
+   * Find the records most similar to a vector, best match first
+   */
+  search(
+    vector: number[],
+    options: { topK: number; filter?: VectorFilter }
+  ): Promise<VectorMatch[]>;
+
+  /**
+   * Remove every record
+   */
+  clear(): Promise<void>;
+}
+
+/**
+ * Options for vector memory searches
+ */
+export interface VectorSearchOptions {
+  /**
+   * Maximum number of results
+   * @default 5
+   */
+  topK?: number;
+
+  /**
+   * Only return records whose metadata matches the filter
+   */
+  filter?: VectorFilter;
+
+  /**
+   * Drop results with a relevance below this value (0-1)
+   */
+  minRelevance?: number;
+}
+
+/**
+ * Options for creating vector memory
+ */
+export interface VectorMemoryOptions {
+  /**
+   * Embedding function
+   * Defaults to a lexical hashing embedding that needs no model; plug in a
+   * model-backed embedding for semantic search
+   */
+  embed?: EmbeddingFunction;
+
+  /**
+   * Index storing the vectors
+   * Defaults to an in-process cosine-similarity index
+   */
+  index?: VectorIndex;
+}
+
+/**
+ * Semantic memory for retrieval-augmented generation
+ */
+export interface VectorMemory {
+  /**
+   * Embed a text and store it, replacing any record with the same id
+   */
+  upsert(id: string, text: string, metadata?: Record<string, unknown>): Promise<void>;
+
+  /**
+   * Remove a record
+   */
+  delete(id: string): Promise<void>;
+
+  /**
+   * Find the texts most relevant to a query, ready to pass as `QueryOptions.contextItems`
+   */
+  search(query: string, options?: VectorSearchOptions): Promise<ContextItem[]>;
+
+  /**
+   * Remove every record
+   */
+  clear(): Promise<void>;
 }
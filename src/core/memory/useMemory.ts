@@ -1,10 +1,74 @@
-import { useState, useEffect, useCallback } from 'react';
-import { MemoryOptions, MemoryResult } from './types';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { MemoryResult, UseMemoryOptions } from './types';
 import { memory } from './memory';
+import { SDKError } from '../errors';
+
+/**
+ * How many times update re-reads and retries when another writer gets in first
+ */
+const MAX_UPDATE_ATTEMPTS = 5;
+
+/**
+ * Scopes and keys with an optimistic write running, and the latest write waiting behind it
+ */
+const writeQueues = new Map<
+  string,
+  {
+    next?: {
+      write: () => Promise<void>;
+      promise: Promise<void>;
+      settle: (running: Promise<void>) => void;
+    };
+  }
+>();
+
+/**
+ * Run a write after the write already running for the same scope and key
+ *
+ * Writes waiting behind a running one are coalesced: only the latest runs,
+ * and every caller it replaced settles with it. Hook instances bound to the
+ * same key therefore never have more than two writes in flight.
+ */
+const enqueueWrite = (writeId: string, write: () => Promise<void>): Promise<void> => {
+  const queue = writeQueues.get(writeId);
+
+  const run = (next: () => Promise<void>): Promise<void> => {
+    return next().finally(() => {
+      const queued = writeQueues.get(writeId)?.next;
+      if (queued) {
+        writeQueues.set(writeId, {});
+        queued.settle(run(queued.write));
+      } else {
+        writeQueues.delete(writeId);
+      }
+    });
+  };
+
+  if (!queue) {
+    writeQueues.set(writeId, {});
+    return run(write);
+  }
+
+  if (queue.next) {
+    queue.next.write = write;
+    return queue.next.promise;
+  }
+
+  let settle: (running: Promise<void>) => void = () => undefined;
+  const promise = new Promise<void>((resolve, reject) => {
+    settle = running => running.then(resolve, reject);
+  });
+  queue.next = { write, promise, settle };
+  return promise;
+};
 
 /**
  * Hook for interacting with the Vibing AI memory system
  *
+ * With `optimistic: true`, `set`, `update` and `delete` show the new value
+ * at once and roll it back if the write fails, and `set` and `delete` calls
+ * for the same key are coalesced across hook instances while a write is running.
+ *
  * @param key - Unique identifier for the memory item
  * @param options - Configuration options for the memory operation
  * @returns A MemoryResult object with data and functions to interact with memory
@@ -27,14 +91,43 @@ import { memory } from './memory';
  * );
  * ```
  */
-export function useMemory<T>(
-  key: string,
-  options: MemoryOptions = { scope: 'conversation' }
-): MemoryResult<T> {
+export function useMemory<T>(key: string, options: UseMemoryOptions = {}): MemoryResult<T> {
+  const scope = options.scope ?? 'conversation';
+  const { optimistic, ...otherOptions } = options;
+  const memoryOptions = { ...otherOptions, scope };
   const [data, setData] = useState<T | undefined>(options.fallback as T);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<Error | null>(null);
 
+  // Latest value shown, to roll back to when an optimistic write fails
+  const dataRef = useRef(data);
+  dataRef.current = data;
+  const writeId = `${scope}_${key}`;
+
+  /**
+   * Show a value before it is written and run the write, rolling the value
+   * back if the write fails and nothing was shown since
+   */
+  const writeOptimistically = useCallback(
+    async (value: T | undefined, write: () => Promise<void>) => {
+      const previous = dataRef.current;
+      dataRef.current = value;
+      setData(value);
+      setError(null);
+
+      try {
+        await write();
+      } catch (err) {
+        if (dataRef.current === value) {
+          dataRef.current = previous;
+          setData(previous);
+        }
+        setError(err instanceof Error ? err : new Error(String(err)));
+      }
+    },
+    []
+  );
+
   // Fetch initial data
   useEffect(() => {
     let isMounted = true;
@@ -42,7 +135,7 @@ export function useMemory<T>(
     const fetchData = async () => {
       try {
         setLoading(true);
-        const result = await memory.get<T>(key, options);
+        const result = await memory.get<T>(key, memoryOptions);
 
         if (isMounted) {
           setData(result !== undefined ? result : (options.fallback as T));
@@ -62,26 +155,36 @@ export function useMemory<T>(
 
     fetchData();
 
-    // Set up subscription to memory changes
-    const unsubscribe = memory.subscribe(key, (newValue: T) => {
-      if (isMounted) {
-        setData(newValue);
-      }
-    });
+    // Set up subscription to memory changes in this hook's scope
+    const unsubscribe = memory.subscribe(
+      key,
+      (newValue: T) => {
+        if (isMounted) {
+          setData(newValue);
+        }
+      },
+      { scope }
+    );
 
     // Cleanup function
     return () => {
       isMounted = false;
       unsubscribe();
     };
-  }, [key, options.scope, options.fallback]);
+  }, [key, scope, options.fallback]);
 
   // Set function
   const set = useCallback(
     async (value: T) => {
+      if (optimistic) {
+        return writeOptimistically(value, () =>
+          enqueueWrite(writeId, () => memory.set(key, value, memoryOptions))
+        );
+      }
+
       try {
         setLoading(true);
-        await memory.set(key, value, options);
+        await memory.set(key, value, memoryOptions);
         setData(value);
         setError(null);
       } catch (err) {
@@ -90,16 +193,48 @@ export function useMemory<T>(
         setLoading(false);
       }
     },
-    [key, options]
+    [key, options, writeOptimistically]
   );
 
-  // Update function
+  // Update function, retried until no other writer changed the value between read and write
   const update = useCallback(
     async (updater: (currentValue: T | undefined) => T) => {
+      // Read, apply and compare-and-set until no other writer got in between
+      const applyUpdate = async (): Promise<T> => {
+        for (let attempt = 1; ; attempt++) {
+          const current = await memory.get<T>(key, { ...memoryOptions, fallback: undefined });
+          const newValue = updater(current !== undefined ? current : (options.fallback as T));
+
+          if (await memory.compareAndSet(key, current, newValue, memoryOptions)) {
+            return newValue;
+          }
+
+          if (attempt >= MAX_UPDATE_ATTEMPTS) {
+            throw new SDKError(`Memory key "${key}" kept changing during update`, {
+              code: 'MEMORY_TRANSACTION_CONFLICT',
+              retryable: true,
+              context: { key, scope, attempts: attempt },
+            });
+          }
+        }
+      };
+
+      if (optimistic) {
+        // Updates aren't coalesced, since each one builds on the value before it
+        const optimisticValue = updater(dataRef.current);
+        return writeOptimistically(optimisticValue, async () => {
+          // Another writer may have changed the value the update was applied to
+          const newValue = await applyUpdate();
+          if (dataRef.current === optimisticValue) {
+            dataRef.current = newValue;
+            setData(newValue);
+          }
+        });
+      }
+
       try {
         setLoading(true);
-        const newValue = updater(data);
-        await memory.set(key, newValue, options);
+        const newValue = await applyUpdate();
         setData(newValue);
         setError(null);
       } catch (err) {
@@ -108,14 +243,20 @@ export function useMemory<T>(
         setLoading(false);
       }
     },
-    [key, data, options]
+    [key, options, writeOptimistically]
   );
 
   // Delete function
   const deleteData = useCallback(async () => {
+    if (optimistic) {
+      return writeOptimistically(undefined, () =>
+        enqueueWrite(writeId, () => memory.delete(key, { scope }))
+      );
+    }
+
     try {
       setLoading(true);
-      await memory.delete(key);
+      await memory.delete(key, { scope });
       setData(undefined);
       setError(null);
     } catch (err) {
@@ -123,7 +264,7 @@ export function useMemory<T>(
     } finally {
       setLoading(false);
     }
-  }, [key]);
+  }, [key, scope, optimistic, writeOptimistically]);
 
   return {
     data,
@@ -0,0 +1,205 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { MemoryCollectionItem, MemoryCollectionResult, MemoryOptions } from './types';
+import { memory } from './memory';
+import { readMemoryItems } from './useMemoryQuery';
+
+/**
+ * Generate an id for a new collection item
+ * Ids start with the time so that unordered items list in insertion order.
+ */
+const generateItemId = (): string => {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 9)}`;
+};
+
+/**
+ * Key the order of a collection is stored under, outside its prefix
+ */
+const getOrderKey = (prefix: string): string => `collection-order:${prefix}`;
+
+/**
+ * Put ids in the given order, followed by the ids missing from it in their current order
+ */
+const applyOrder = (ids: string[], order: string[] | undefined): string[] => {
+  const known = new Set(ids);
+  const ordered = (order || []).filter(id => known.has(id));
+  const listed = new Set(ordered);
+  return [...ordered, ...ids.filter(id => !listed.has(id))];
+};
+
+/**
+ * Hook for a list of memory items stored under a key prefix
+ *
+ * Each item is stored under `prefix + id`, so it can also be read with
+ * `useMemory`. The order of the items is stored under `collection-order:` + prefix,
+ * so it isn't listed with them. The collection is re-read whenever a key under
+ * the prefix or its order changes.
+ *
+ * @param prefix - Key prefix of the collection, such as `tasks.`
+ * @param options - Scope of the collection
+ * @returns A MemoryCollectionResult with the items and functions to change them
+ *
+ * @example
+ * ```tsx
+ * const tasks = useMemoryCollection<Task>('tasks.', { scope: 'project' });
+ *
+ * const addTask = (title: string) => tasks.add({ title, done: false });
+ * const toggle = (id: string) => tasks.update(id, task => ({ ...task!, done: !task!.done }));
+ *
+ * return (
+ *   <ul>
+ *     {tasks.data.map(({ id, value }) => (
+ *       <li key={id} onClick={() => toggle(id)}>{value.title}</li>
+ *     ))}
+ *   </ul>
+ * );
+ * ```
+ */
+export function useMemoryCollection<T>(
+  prefix: string,
+  options: Pick<MemoryOptions, 'scope' | 'expiration'> = { scope: 'conversation' }
+): MemoryCollectionResult<T> {
+  const { scope, expiration } = options;
+  const [data, setData] = useState<MemoryCollectionItem<T>[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  const isMounted = useRef(true);
+  const latestRequest = useRef(0);
+
+  const refresh = useCallback(async () => {
+    const request = ++latestRequest.current;
+
+    try {
+      const values = new Map<string, T>();
+      for (const { key, value } of await readMemoryItems<T>(prefix, scope)) {
+        if (key.startsWith(prefix)) {
+          values.set(key.substring(prefix.length), value);
+        }
+      }
+
+      const order = await memory.get<string[]>(getOrderKey(prefix), { scope });
+      const items = applyOrder([...values.keys()].sort(), order).map(id => ({
+        id,
+        value: values.get(id) as T,
+      }));
+
+      if (isMounted.current && request === latestRequest.current) {
+        setData(items);
+        setError(null);
+      }
+    } catch (err) {
+      if (isMounted.current && request === latestRequest.current) {
+        setError(err instanceof Error ? err : new Error(String(err)));
+      }
+    } finally {
+      if (isMounted.current && request === latestRequest.current) {
+        setLoading(false);
+      }
+    }
+  }, [prefix, scope]);
+
+  useEffect(() => {
+    isMounted.current = true;
+    setLoading(true);
+    refresh();
+
+    const unsubscribeItems = memory.subscribe(prefix, () => void refresh(), {
+      scope,
+      prefix: true,
+    });
+    const unsubscribeOrder = memory.subscribe(getOrderKey(prefix), () => void refresh(), {
+      scope,
+    });
+
+    return () => {
+      isMounted.current = false;
+      unsubscribeItems();
+      unsubscribeOrder();
+    };
+  }, [refresh]);
+
+  /**
+   * Run a collection write, then re-read the collection or record the error
+   */
+  const write = useCallback(
+    async <R>(fn: () => Promise<R>): Promise<R | undefined> => {
+      try {
+        setLoading(true);
+        const result = await fn();
+        await refresh();
+        return result;
+      } catch (err) {
+        setError(err instanceof Error ? err : new Error(String(err)));
+        setLoading(false);
+        return undefined;
+      }
+    },
+    [refresh]
+  );
+
+  const add = useCallback(
+    (value: T, id: string = generateItemId()) =>
+      write(() =>
+        memory.transaction(async tx => {
+          const order = (await tx.get<string[]>(getOrderKey(prefix), { scope })) || [];
+          tx.set(prefix + id, value, { scope, expiration });
+          tx.set(getOrderKey(prefix), [...order.filter(orderedId => orderedId !== id), id], {
+            scope,
+          });
+          return id;
+        })
+      ),
+    [write, prefix, scope, expiration]
+  );
+
+  const update = useCallback(
+    (id: string, value: T | ((currentValue: T | undefined) => T)) =>
+      write(() =>
+        memory.transaction(async tx => {
+          const newValue =
+            typeof value === 'function'
+              ? (value as (currentValue: T | undefined) => T)(
+                  await tx.get<T>(prefix + id, { scope })
+                )
+              : value;
+          tx.set(prefix + id, newValue, { scope, expiration });
+        })
+      ),
+    [write, prefix, scope, expiration]
+  );
+
+  const remove = useCallback(
+    (id: string) =>
+      write(() =>
+        memory.transaction(async tx => {
+          const order = (await tx.get<string[]>(getOrderKey(prefix), { scope })) || [];
+          tx.delete(prefix + id, { scope });
+          tx.set(
+            getOrderKey(prefix),
+            order.filter(orderedId => orderedId !== id),
+            { scope }
+          );
+        })
+      ),
+    [write, prefix, scope]
+  );
+
+  const reorder = useCallback(
+    (ids: string[]) =>
+      write(async () => {
+        const current = data.map(item => item.id);
+        await memory.set(getOrderKey(prefix), applyOrder(current, ids), { scope });
+      }),
+    [write, data, prefix, scope]
+  );
+
+  return {
+    data,
+    loading,
+    error,
+    add,
+    update,
+    remove,
+    reorder,
+  };
+}
@@ -0,0 +1,142 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { MemoryHistoryEntry, MemoryHistoryResult } from './types';
+import { memory } from './memory';
+import { Scope } from '../types';
+
+/**
+ * Work out which changes can be undone and redone
+ *
+ * Undo and redo are both reverts: undo reverts the latest applied change and
+ * redo reverts the undo. Any other change clears the redo stack.
+ */
+const getUndoState = <T>(
+  history: MemoryHistoryEntry<T>[]
+): { applied: MemoryHistoryEntry<T>[]; undone: MemoryHistoryEntry<T>[] } => {
+  const applied: MemoryHistoryEntry<T>[] = [];
+  let undone: MemoryHistoryEntry<T>[] = [];
+
+  history.forEach(entry => {
+    if (entry.revertOf !== undefined && entry.revertOf === applied[applied.length - 1]?.version) {
+      applied.pop();
+      undone.push(entry);
+    } else if (
+      entry.revertOf !== undefined &&
+      entry.revertOf === undone[undone.length - 1]?.version
+    ) {
+      undone.pop();
+      applied.push(entry);
+    } else {
+      applied.push(entry);
+      undone = [];
+    }
+  });
+
+  return { applied, undone };
+};
+
+/**
+ * Hook for the change history of a memory key, with undo and redo
+ *
+ * History must be turned on with `memory.setHistory()`. Changes made while
+ * it is off, or dropped by its limits, can't be undone.
+ *
+ * @param key - Key whose history to follow
+ * @param options - Scope of the key and the actor recorded for undo and redo
+ * @returns A MemoryHistoryResult with the changes and functions to undo them
+ *
+ * @example
+ * ```tsx
+ * memory.setHistory({ scopes: { conversation: 50 } });
+ *
+ * const { canUndo, canRedo, undo, redo } = useMemoryHistory('canvas', { actor: 'user' });
+ *
+ * return (
+ *   <div>
+ *     <button disabled={!canUndo} onClick={undo}>Undo</button>
+ *     <button disabled={!canRedo} onClick={redo}>Redo</button>
+ *   </div>
+ * );
+ * ```
+ */
+export function useMemoryHistory<T>(
+  key: string,
+  options: { scope?: Scope; actor?: string } = {}
+): MemoryHistoryResult<T> {
+  const { scope, actor } = options;
+  const [data, setData] = useState<MemoryHistoryEntry<T>[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<Error | null>(null);
+  const isMounted = useRef(true);
+
+  const refresh = useCallback(async () => {
+    try {
+      const history = await memory.history<T>(key, { scope });
+      if (isMounted.current) {
+        setData(history);
+        setError(null);
+      }
+    } catch (err) {
+      if (isMounted.current) {
+        setError(err instanceof Error ? err : new Error(String(err)));
+      }
+    } finally {
+      if (isMounted.current) {
+        setLoading(false);
+      }
+    }
+  }, [key, scope]);
+
+  useEffect(() => {
+    isMounted.current = true;
+    setLoading(true);
+    refresh();
+
+    const unsubscribe = memory.subscribe(key, () => void refresh(), { scope });
+
+    return () => {
+      isMounted.current = false;
+      unsubscribe();
+    };
+  }, [refresh]);
+
+  const revert = useCallback(
+    async (version: number) => {
+      try {
+        setLoading(true);
+        await memory.revert(key, version, { scope, actor });
+        await refresh();
+      } catch (err) {
+        setError(err instanceof Error ? err : new Error(String(err)));
+        setLoading(false);
+      }
+    },
+    [key, scope, actor, refresh]
+  );
+
+  const { applied, undone } = getUndoState(data);
+  const lastApplied = applied[applied.length - 1];
+  const lastUndone = undone[undone.length - 1];
+
+  const undo = useCallback(async () => {
+    if (lastApplied) {
+      await revert(lastApplied.version);
+    }
+  }, [revert, lastApplied]);
+
+  const redo = useCallback(async () => {
+    if (lastUndone) {
+      await revert(lastUndone.version);
+    }
+  }, [revert, lastUndone]);
+
+  return {
+    data,
+    loading,
+    error,
+    canUndo: !!lastApplied,
+    canRedo: !!lastUndone,
+    undo,
+    redo,
+    revert,
+  };
+}
@@ -0,0 +1,134 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { MemoryQueryItem, MemoryQueryOptions, MemoryQueryResult } from './types';
+import { memory } from './memory';
+import { Scope } from '../types';
+
+/**
+ * Read the items whose keys match a pattern, from one scope or from all of them
+ * @internal
+ */
+export const readMemoryItems = async <T>(
+  pattern: string | RegExp,
+  scope?: Scope
+): Promise<MemoryQueryItem<T>[]> => {
+  const results = await memory.query(pattern);
+
+  if (!scope) {
+    return Object.entries(results).map(([key, value]) => ({ key, value: value as T }));
+  }
+
+  const items: MemoryQueryItem<T>[] = [];
+  for (const key of Object.keys(results)) {
+    const value = await memory.get<T>(key, { scope });
+    if (value !== undefined) {
+      items.push({ key, value });
+    }
+  }
+  return items;
+};
+
+/**
+ * Get a pattern that matches the same keys for memory subscriptions
+ */
+const toSubscriptionPattern = (pattern: string | RegExp): RegExp => {
+  return typeof pattern === 'string'
+    ? new RegExp(pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    : pattern;
+};
+
+const compareKeys = <T>(a: MemoryQueryItem<T>, b: MemoryQueryItem<T>): number => {
+  return a.key < b.key ? -1 : a.key > b.key ? 1 : 0;
+};
+
+/**
+ * Hook for listing memory items whose keys match a pattern
+ *
+ * A string pattern matches keys containing it, as in `memory.query`.
+ * The results are re-read whenever a matching key changes.
+ *
+ * @param pattern - Substring or regular expression to match keys against
+ * @param options - Scope to read, sort order and page of results
+ * @returns A MemoryQueryResult with the matching items
+ *
+ * @example
+ * ```tsx
+ * const { data, total, loading } = useMemoryQuery<Task>('tasks.', {
+ *   scope: 'project',
+ *   sort: (a, b) => a.value.createdAt - b.value.createdAt,
+ *   limit: 10,
+ * });
+ *
+ * if (loading) return <div>Loading...</div>;
+ *
+ * return (
+ *   <ul>
+ *     {data.map(({ key, value }) => <li key={key}>{value.title}</li>)}
+ *   </ul>
+ * );
+ * ```
+ */
+export function useMemoryQuery<T>(
+  pattern: string | RegExp,
+  options: MemoryQueryOptions<T> = {}
+): MemoryQueryResult<T> {
+  const { scope, limit, offset = 0 } = options;
+  const [data, setData] = useState<MemoryQueryItem<T>[]>([]);
+  const [total, setTotal] = useState<number>(0);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  // Sort functions are usually inline, so don't re-run the query when only their identity changes
+  const sortRef = useRef(options.sort);
+  sortRef.current = options.sort;
+
+  const isMounted = useRef(true);
+  const latestRequest = useRef(0);
+  const patternKey = String(pattern);
+
+  const refresh = useCallback(async () => {
+    const request = ++latestRequest.current;
+
+    try {
+      const items = await readMemoryItems<T>(pattern, scope);
+      items.sort(sortRef.current || compareKeys);
+
+      // Drop results overtaken by a newer query
+      if (isMounted.current && request === latestRequest.current) {
+        setTotal(items.length);
+        setData(items.slice(offset, limit === undefined ? undefined : offset + limit));
+        setError(null);
+      }
+    } catch (err) {
+      if (isMounted.current && request === latestRequest.current) {
+        setError(err instanceof Error ? err : new Error(String(err)));
+      }
+    } finally {
+      if (isMounted.current && request === latestRequest.current) {
+        setLoading(false);
+      }
+    }
+  }, [patternKey, scope, limit, offset]);
+
+  useEffect(() => {
+    isMounted.current = true;
+    setLoading(true);
+    refresh();
+
+    const unsubscribe = memory.subscribe(toSubscriptionPattern(pattern), () => void refresh(), {
+      scope,
+    });
+
+    return () => {
+      isMounted.current = false;
+      unsubscribe();
+    };
+  }, [refresh]);
+
+  return {
+    data,
+    total,
+    loading,
+    error,
+    refresh,
+  };
+}
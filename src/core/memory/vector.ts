@@ -0,0 +1,177 @@
+import {
+  EmbeddingFunction,
+  VectorFilter,
+  VectorIndex,
+  VectorMatch,
+  VectorMemory,
+  VectorMemoryOptions,
+  VectorRecord,
+  VectorSearchOptions,
+} from './types';
+import { isEqualValue } from './transaction';
+import { ContextItem } from '../super-agent';
+import { ValidationError } from '../errors';
+
+/**
+ * Default number of search results
+ */
+const DEFAULT_TOP_K = 5;
+
+/**
+ * Hash a token with 32-bit FNV-1a
+ */
+const hashToken = (token: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Get the Euclidean length of a vector
+ */
+const magnitude = (vector: number[]): number => {
+  return Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+};
+
+/**
+ * Check whether record metadata matches a search filter
+ */
+const matchesFilter = (metadata: Record<string, unknown>, filter?: VectorFilter): boolean => {
+  if (!filter) {
+    return true;
+  }
+
+  if (typeof filter === 'function') {
+    return filter(metadata);
+  }
+
+  return Object.entries(filter).every(([field, value]) => isEqualValue(metadata[field], value));
+};
+
+/**
+ * Creates a lexical embedding that hashes word tokens into a fixed number of buckets
+ *
+ * It needs no model and finds texts sharing words with the query, but knows
+ * nothing about synonyms. Use a model-backed embedding for semantic search.
+ * @param dimensions Number of buckets
+ */
+export function createHashingEmbedding(dimensions = 256): EmbeddingFunction {
+  return (text: string): number[] => {
+    const vector = new Array<number>(dimensions).fill(0);
+    const tokens = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+    tokens.forEach(token => {
+      const hash = hashToken(token);
+      // Use the top bit as a sign so colliding tokens tend to cancel out
+      vector[hash % dimensions] += hash & 0x80000000 ? -1 : 1;
+    });
+
+    return vector;
+  };
+}
+
+/**
+ * Creates an in-process vector index with exhaustive cosine-similarity search
+ */
+export function createInMemoryVectorIndex(): VectorIndex {
+  const records = new Map<string, { record: VectorRecord; magnitude: number }>();
+
+  return {
+    async upsert(record: VectorRecord): Promise<void> {
+      records.set(record.id, { record, magnitude: magnitude(record.vector) });
+    },
+
+    async remove(id: string): Promise<void> {
+      records.delete(id);
+    },
+
+    async search(
+      vector: number[],
+      options: { topK: number; filter?: VectorFilter }
+    ): Promise<VectorMatch[]> {
+      const queryMagnitude = magnitude(vector);
+      const matches: VectorMatch[] = [];
+
+      records.forEach(({ record, magnitude: recordMagnitude }) => {
+        if (record.vector.length !== vector.length) {
+          throw new ValidationError('Query vector does not match the indexed dimensions', {
+            vector: [`Expected ${record.vector.length} dimensions, got ${vector.length}`],
+          });
+        }
+
+        if (!matchesFilter(record.metadata, options.filter)) {
+          return;
+        }
+
+        const dot = record.vector.reduce((sum, value, i) => sum + value * vector[i], 0);
+        const denominator = queryMagnitude * recordMagnitude;
+        matches.push({ record, score: denominator ? dot / denominator : 0 });
+      });
+
+      return matches.sort((a, b) => b.score - a.score).slice(0, options.topK);
+    },
+
+    async clear(): Promise<void> {
+      records.clear();
+    },
+  };
+}
+
+/**
+ * Convert a search match to a context item for the super agent
+ */
+const toContextItem = ({ record, score }: VectorMatch): ContextItem => {
+  const { title, source } = record.metadata;
+
+  return {
+    content: record.text,
+    title: typeof title === 'string' ? title : undefined,
+    source: typeof source === 'string' ? source : record.id,
+    relevance: Math.max(0, Math.min(1, score)),
+  };
+};
+
+/**
+ * Creates a vector memory for retrieval-augmented generation
+ * @param options Embedding function and index to use
+ * @returns Vector memory whose search results can be passed to the super agent
+ * @example
+ * ```typescript
+ * const vectors = createVectorMemory({ embed: text => embeddings.create(text) });
+ *
+ * await vectors.upsert('doc-1', 'Invoices are due within 30 days', { title: 'Billing' });
+ *
+ * const contextItems = await vectors.search('when do I have to pay?', { topK: 3 });
+ * const response = await query('When is my invoice due?', { contextItems });
+ * ```
+ */
+export function createVectorMemory(options: VectorMemoryOptions = {}): VectorMemory {
+  const embed = options.embed || createHashingEmbedding();
+  const index = options.index || createInMemoryVectorIndex();
+
+  return {
+    async upsert(id: string, text: string, metadata: Record<string, unknown> = {}): Promise<void> {
+      const vector = await embed(text);
+      await index.upsert({ id, text, metadata, vector });
+    },
+
+    async delete(id: string): Promise<void> {
+      await index.remove(id);
+    },
+
+    async search(query: string, searchOptions: VectorSearchOptions = {}): Promise<ContextItem[]> {
+      const { topK = DEFAULT_TOP_K, filter, minRelevance = 0 } = searchOptions;
+      const vector = await embed(query);
+      const matches = await index.search(vector, { topK, filter });
+
+      return matches.map(toContextItem).filter(item => (item.relevance ?? 0) >= minRelevance);
+    },
+
+    async clear(): Promise<void> {
+      await index.clear();
+    },
+  };
+}
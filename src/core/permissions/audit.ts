@@ -0,0 +1,133 @@
+import {
+  PermissionAuditLog,
+  PermissionAuditLogOptions,
+  PermissionAuditQuery,
+  PermissionAuditRecord,
+} from './types';
+import { logger } from '../utils/logger';
+
+/**
+ * Default number of records kept in memory
+ */
+const DEFAULT_AUDIT_LIMIT = 1000;
+
+/**
+ * Whether routine permission checks are recorded
+ */
+let auditingChecks = false;
+
+/**
+ * Check whether a record matches a filter
+ */
+const matchesQuery = (record: PermissionAuditRecord, filter: PermissionAuditQuery): boolean => {
+  const { action, principal, type, granted, source, since, until } = filter;
+
+  if (principal) {
+    if (!record.principal) {
+      return false;
+    }
+    if (principal.kind !== undefined && record.principal.kind !== principal.kind) {
+      return false;
+    }
+    if (principal.id !== undefined && record.principal.id !== principal.id) {
+      return false;
+    }
+  }
+
+  return (
+    (action === undefined || record.action === action) &&
+    (type === undefined || record.request.type === type) &&
+    (granted === undefined || record.granted === granted) &&
+    (source === undefined || record.source === source) &&
+    (since === undefined || record.timestamp >= since) &&
+    (until === undefined || record.timestamp <= until)
+  );
+};
+
+/**
+ * Creates an in-memory, append-only permission audit log
+ *
+ * Records can't be changed or removed. Once the limit is reached the oldest
+ * records are dropped and passed to `onDrop`, so export them there to keep
+ * them. Without `onDrop`, the first drop is logged as a warning.
+ *
+ * @param options Maximum number of records kept, and where dropped records go
+ * @example
+ * ```ts
+ * const denials = permissionAudit.query({ principal: { kind: 'plugin' }, granted: false });
+ * await upload('permissions.jsonl', permissionAudit.toJSONLines({ since: lastUpload }));
+ * ```
+ */
+export function createPermissionAuditLog(
+  options: PermissionAuditLogOptions = {}
+): PermissionAuditLog {
+  const { limit = DEFAULT_AUDIT_LIMIT, onDrop } = options;
+  const records: PermissionAuditRecord[] = [];
+  let lastId = 0;
+  let warned = false;
+
+  const query = (filter: PermissionAuditQuery = {}): PermissionAuditRecord[] => {
+    const matching = records.filter(record => matchesQuery(record, filter));
+    return filter.limit !== undefined ? matching.slice(-filter.limit) : matching;
+  };
+
+  return {
+    append: record => {
+      const stamped = Object.freeze({
+        ...record,
+        request: Object.freeze({ ...record.request }),
+        id: ++lastId,
+        timestamp: Date.now(),
+      });
+      records.push(stamped);
+      if (records.length > limit) {
+        const dropped = records.splice(0, records.length - limit);
+        if (onDrop) {
+          onDrop(dropped);
+        } else if (!warned) {
+          warned = true;
+          logger.warn(
+            `Permission audit log reached its limit of ${limit} records and is dropping the oldest; ` +
+              'keep them with onDrop or by subscribing to the permission:* events'
+          );
+        }
+      }
+      return stamped;
+    },
+
+    query,
+
+    toJSONLines: filter => {
+      return query(filter)
+        .map(record => JSON.stringify(record))
+        .join('\n');
+    },
+  };
+}
+
+/**
+ * Audit log of the permissions API
+ * Each record is also published on the core `events` bus as a `permission:*` event.
+ */
+export const permissionAudit = createPermissionAuditLog();
+
+/**
+ * Record routine permission checks in the audit log
+ *
+ * Guards check a permission on every guarded call, so checks would soon push
+ * requests and revocations out of the log. They're only recorded, and
+ * published as `permission:checked` events, once enabled here; checks that
+ * find and remove an expired grant are always recorded.
+ *
+ * @param enabled Whether to record checks
+ */
+export function setPermissionCheckAuditing(enabled: boolean): void {
+  auditingChecks = enabled;
+}
+
+/**
+ * Check whether routine permission checks are recorded
+ */
+export function isPermissionCheckAuditing(): boolean {
+  return auditingChecks;
+}
@@ -0,0 +1,274 @@
+import {
+  CapabilityAuthority,
+  CapabilityClaims,
+  MintCapabilityOptions,
+  PermissionPrincipal,
+} from './types';
+import { compilePermissions, formatPermission, matchesPermission } from './grammar';
+import { ConfigurationError, PermissionError, SDKError } from '../errors';
+
+/**
+ * Prefix identifying capability tokens and their format version
+ */
+const TOKEN_PREFIX = 'cap1.';
+
+/**
+ * Lifetime of tokens minted without an expiry
+ * @internal
+ */
+export const DEFAULT_CAPABILITY_DURATION = 60 * 60 * 1000; // 1 hour
+
+/**
+ * HMAC key tokens are signed with
+ */
+let capabilityKey: Promise<CryptoKey> | null = null;
+
+/**
+ * Whether the host has claimed the capability authority
+ */
+let authorityClaimed = false;
+
+/**
+ * Get WebCrypto's SubtleCrypto
+ * @throws ConfigurationError if WebCrypto isn't available
+ */
+const getSubtle = (): SubtleCrypto => {
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) {
+    throw new ConfigurationError('Capability tokens require the WebCrypto API', {
+      code: 'CAPABILITIES_UNAVAILABLE',
+    });
+  }
+  return subtle;
+};
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (base64: string): Uint8Array => {
+  const binary = atob(base64.replace(/-/g, '+').replace(/_/g, '/'));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+const samePrincipal = (a?: PermissionPrincipal, b?: PermissionPrincipal): boolean => {
+  return !!a && !!b && a.kind === b.kind && a.id === b.id;
+};
+
+/**
+ * Set the HMAC key capability tokens are signed and verified with
+ */
+const setCapabilityKey = (key: string | CryptoKey | null): void => {
+  if (key === null) {
+    capabilityKey = null;
+  } else if (typeof key === 'string') {
+    capabilityKey = Promise.resolve().then(() =>
+      getSubtle().importKey(
+        'raw',
+        new TextEncoder().encode(key),
+        { name: 'HMAC', hash: 'SHA-256' },
+        false,
+        ['sign', 'verify']
+      )
+    );
+  } else {
+    capabilityKey = Promise.resolve(key);
+  }
+};
+
+/**
+ * Get the signing key, generating a random one if none was set
+ */
+const getCapabilityKey = (): Promise<CryptoKey> => {
+  if (!capabilityKey) {
+    capabilityKey = Promise.resolve().then(
+      () =>
+        getSubtle().generateKey({ name: 'HMAC', hash: 'SHA-256' }, false, [
+          'sign',
+          'verify',
+        ]) as Promise<CryptoKey>
+    );
+  }
+  return capabilityKey;
+};
+
+const invalid = (message: string, cause?: Error): never => {
+  throw new SDKError(`Invalid capability token: ${message}`, {
+    code: 'CAPABILITY_INVALID',
+    cause,
+  });
+};
+
+/**
+ * Check the signature of a token and decode its claims, without checking expiry or its parent
+ */
+const decodeCapability = async (token: string): Promise<CapabilityClaims> => {
+  if (typeof token !== 'string' || !token.startsWith(TOKEN_PREFIX)) {
+    return invalid('not in the capability format');
+  }
+
+  const [payload, signature] = token.substring(TOKEN_PREFIX.length).split('.');
+  let verified = false;
+
+  try {
+    verified = await getSubtle().verify(
+      'HMAC',
+      await getCapabilityKey(),
+      fromBase64Url(signature || ''),
+      new TextEncoder().encode(payload)
+    );
+  } catch (e) {
+    if (e instanceof ConfigurationError) {
+      throw e;
+    }
+    invalid('the signature could not be read', e as Error);
+  }
+
+  if (!verified) {
+    invalid('the signature does not match');
+  }
+
+  return JSON.parse(new TextDecoder().decode(fromBase64Url(payload))) as CapabilityClaims;
+};
+
+/**
+ * Verify a capability token and its attenuation chain, without any network or storage access
+ *
+ * Each token in the chain must be signed with the capability key and
+ * unexpired, and every delegated token must be issued by the holder of its
+ * parent, grant no permission its parent doesn't and expire no later.
+ *
+ * @param token Capability token
+ * @param options Time to check expiry against, for tests
+ * @returns The token's claims
+ * @throws SDKError with code CAPABILITY_INVALID if the token is not valid
+ */
+export async function verifyCapability(
+  token: string,
+  options: { now?: number } = {}
+): Promise<CapabilityClaims> {
+  const now = options.now ?? Date.now();
+  const claims = await decodeCapability(token);
+
+  if (claims.expiresAt <= now) {
+    invalid(`token ${claims.id} has expired`);
+  }
+
+  if (claims.parent) {
+    const parent = await verifyCapability(claims.parent, { now });
+
+    if (!samePrincipal(claims.issuer, parent.principal)) {
+      invalid(`token ${claims.id} was not delegated by the holder of its parent`);
+    }
+    if (claims.expiresAt > parent.expiresAt) {
+      invalid(`token ${claims.id} outlives its parent`);
+    }
+
+    const exceeding = claims.permissions.find(
+      permission => !parent.permissions.some(granted => matchesPermission(granted, permission))
+    );
+    if (exceeding) {
+      invalid(`token ${claims.id} grants ${formatPermission(exceeding)} beyond its parent`);
+    }
+  }
+
+  return claims;
+}
+
+/**
+ * Sign a capability token, attenuating its parent when it has one
+ *
+ * Tokens without a parent are trusted as they are, and tokens with one are
+ * issued by its holder, so callers must check that they may grant them.
+ *
+ * @internal
+ * @param options Holder, permissions, expiry and parent of the token
+ * @returns The token
+ * @throws PermissionError if the token would grant more than its parent
+ */
+export async function signCapability(options: MintCapabilityOptions): Promise<string> {
+  const now = Date.now();
+  const permissions = compilePermissions(options.permissions);
+  let issuer = options.issuer;
+  let expiresAt = options.expiresAt ?? now + (options.expiresIn ?? DEFAULT_CAPABILITY_DURATION);
+
+  if (options.parent) {
+    const parent = await verifyCapability(options.parent, { now });
+    const exceeding = permissions.find(
+      permission => !parent.permissions.some(granted => matchesPermission(granted, permission))
+    );
+
+    if (exceeding) {
+      throw new PermissionError(
+        `Capability ${parent.id} does not grant ${formatPermission(exceeding)}`,
+        formatPermission(exceeding),
+        { context: { parent: parent.id, principal: parent.principal } }
+      );
+    }
+
+    issuer = parent.principal;
+    expiresAt = Math.min(expiresAt, parent.expiresAt);
+  }
+
+  const randomId = globalThis.crypto.getRandomValues(new Uint8Array(12));
+  const claims: CapabilityClaims = {
+    id: toBase64Url(randomId),
+    principal: options.principal,
+    ...(issuer && { issuer }),
+    permissions,
+    issuedAt: now,
+    expiresAt,
+    ...(options.parent && { parent: options.parent }),
+  };
+
+  const payload = toBase64Url(new TextEncoder().encode(JSON.stringify(claims)));
+  const signature = await getSubtle().sign(
+    'HMAC',
+    await getCapabilityKey(),
+    new TextEncoder().encode(payload)
+  );
+
+  return `${TOKEN_PREFIX}${payload}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Claim the capability authority, which mints root tokens and sets the signing key
+ *
+ * Only one caller can claim it, so the host claims it while it starts, before
+ * any app, plugin or agent code runs, and keeps the handle to itself.
+ *
+ * @returns The host's handle on capability tokens
+ * @throws ConfigurationError with code CAPABILITY_AUTHORITY_CLAIMED if it was already claimed
+ * @example
+ * ```ts
+ * const authority = claimCapabilityAuthority();
+ * authority.setKey(process.env.VIBING_CAPABILITY_SECRET);
+ *
+ * const token = await authority.mint({
+ *   principal: { kind: 'plugin', id: 'com.acme.search' },
+ *   permissions: ['memory:read:conversation'],
+ *   expiresIn: 5 * 60 * 1000,
+ * });
+ * ```
+ */
+export function claimCapabilityAuthority(): CapabilityAuthority {
+  if (authorityClaimed) {
+    throw new ConfigurationError('The capability authority has already been claimed', {
+      code: 'CAPABILITY_AUTHORITY_CLAIMED',
+    });
+  }
+  authorityClaimed = true;
+
+  return {
+    mint: options => signCapability(options),
+    setKey: setCapabilityKey,
+  };
+}
@@ -0,0 +1,174 @@
+import {
+  ConsentProvider,
+  ConsentResponse,
+  PendingPermissionRequest,
+  PermissionPrincipal,
+  PermissionRequest,
+} from './types';
+import { logger } from '../utils/logger';
+
+/**
+ * Denies every request, without blocking on a prompt
+ * Used until a host registers a consent provider.
+ */
+const denyingConsentProvider: ConsentProvider = {
+  requestConsent: async (request: PermissionRequest): Promise<boolean> => {
+    logger.warn(
+      `Permission "${request.type}" denied: no consent provider is registered. ` +
+        'Register one with setConsentProvider(), such as createModalConsentProvider(modals).'
+    );
+    return false;
+  },
+};
+
+/**
+ * Consent provider registered by the host
+ */
+let consentProvider: ConsentProvider | null = null;
+
+/**
+ * Register the consent provider asked about permission requests
+ * @param provider Provider to use, or null to go back to the default
+ * @example
+ * ```ts
+ * // Headless agents and tests
+ * setConsentProvider(createPolicyConsentProvider('grant'));
+ * ```
+ */
+export function setConsentProvider(provider: ConsentProvider | null): void {
+  consentProvider = provider;
+}
+
+/**
+ * Get the registered consent provider
+ * Without one, requests are denied.
+ */
+export function getConsentProvider(): ConsentProvider {
+  return consentProvider || denyingConsentProvider;
+}
+
+/**
+ * Requests waiting for an answer from the consent provider
+ */
+let pendingRequests: PendingPermissionRequest[] = [];
+const pendingListeners = new Set<(requests: PendingPermissionRequest[]) => void>();
+let lastPendingId = 0;
+
+const notifyPendingListeners = (): void => {
+  pendingListeners.forEach(listener => listener(pendingRequests));
+};
+
+/**
+ * Ask the registered consent provider, listing the request as pending until it answers
+ * @internal
+ */
+export const askConsent = async (
+  request: PermissionRequest,
+  principal?: PermissionPrincipal
+): Promise<ConsentResponse> => {
+  const pending: PendingPermissionRequest = {
+    id: ++lastPendingId,
+    request,
+    principal,
+    requestedAt: Date.now(),
+  };
+  pendingRequests = [...pendingRequests, pending];
+  notifyPendingListeners();
+
+  try {
+    return await getConsentProvider().requestConsent(request, principal);
+  } finally {
+    pendingRequests = pendingRequests.filter(item => item !== pending);
+    notifyPendingListeners();
+  }
+};
+
+/**
+ * Get the permission requests waiting for an answer, oldest first
+ */
+export function getPendingPermissionRequests(): PendingPermissionRequest[] {
+  return pendingRequests;
+}
+
+/**
+ * Listen for permission requests starting or getting an answer
+ * @param listener Called with the pending requests whenever they change
+ * @returns Function to stop listening
+ */
+export function subscribePendingPermissionRequests(
+  listener: (requests: PendingPermissionRequest[]) => void
+): () => void {
+  pendingListeners.add(listener);
+  return () => {
+    pendingListeners.delete(listener);
+  };
+}
+
+/**
+ * Get the access levels a consent response grants, limited to those requested
+ */
+export const getGrantedAccess = (
+  request: PermissionRequest,
+  response: ConsentResponse
+): string[] => {
+  if (typeof response === 'boolean') {
+    return response ? [...request.access] : [];
+  }
+
+  return request.access.filter(level => response.access.includes(level));
+};
+
+/**
+ * Consent policy: grant or deny everything, or decide per request and the principal asking
+ */
+export type ConsentPolicy =
+  | 'grant'
+  | 'deny'
+  | ((
+      request: PermissionRequest,
+      principal?: PermissionPrincipal
+    ) => ConsentResponse | Promise<ConsentResponse>);
+
+/**
+ * Consent provider that answers by policy instead of asking a user
+ */
+export interface PolicyConsentProvider extends ConsentProvider {
+  /**
+   * Requests the provider was asked about, oldest first
+   */
+  readonly requests: PermissionRequest[];
+}
+
+/**
+ * Creates a consent provider that answers requests by policy, for tests and headless agents
+ * @param policy 'grant', 'deny' or a function deciding each request
+ * @example
+ * ```ts
+ * // Let agents read memory but never write it
+ * setConsentProvider(
+ *   createPolicyConsentProvider((request, principal) =>
+ *     principal?.kind === 'agent' && request.type === 'memory' ? { access: ['read'] } : false
+ *   )
+ * );
+ * ```
+ */
+export function createPolicyConsentProvider(policy: ConsentPolicy): PolicyConsentProvider {
+  const requests: PermissionRequest[] = [];
+
+  return {
+    requests,
+
+    requestConsent: async (
+      request: PermissionRequest,
+      principal?: PermissionPrincipal
+    ): Promise<ConsentResponse> => {
+      requests.push(request);
+
+      if (typeof policy === 'function') {
+        return policy(request, principal);
+      }
+
+      return policy === 'grant';
+    },
+  };
+}
@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { ConsentProvider, ConsentResponse, PermissionPrincipal, PermissionRequest } from './types';
+import { ModalConfig } from '../../surfaces/modals';
+
+/**
+ * Props of the consent dialog
+ */
+export interface ConsentDialogProps {
+  request: PermissionRequest;
+
+  /**
+   * App, plugin or agent asking, or undefined for the host
+   */
+  principal?: PermissionPrincipal;
+
+  /**
+   * Called once with the user's answer
+   */
+  onDecide: (response: ConsentResponse) => void;
+}
+
+/**
+ * Dialog asking the user to grant a permission request
+ *
+ * The dialog names the app, plugin or agent asking, and every requested
+ * access level has a checkbox, so the user can grant part of a request,
+ * such as read but not write.
+ */
+export function ConsentDialog({
+  request,
+  principal,
+  onDecide,
+}: ConsentDialogProps): React.ReactElement {
+  const [selected, setSelected] = useState<string[]>(request.access);
+
+  const toggle = (level: string) => {
+    setSelected(prev =>
+      prev.includes(level) ? prev.filter(item => item !== level) : [...prev, level]
+    );
+  };
+
+  const allow = () => {
+    onDecide(
+      selected.length === request.access.length
+        ? true
+        : selected.length === 0
+          ? false
+          : { access: request.access.filter(level => selected.includes(level)) }
+    );
+  };
+
+  return React.createElement(
+    'div',
+    { className: 'vibing-consent', role: 'dialog', 'aria-label': 'Permission request' },
+    React.createElement(
+      'p',
+      { className: 'vibing-consent__summary' },
+      principal
+        ? `Allow the ${principal.kind} "${principal.id}" to access ${request.type} in the ${request.scope} scope?`
+        : `Allow access to ${request.type} in the ${request.scope} scope?`
+    ),
+    request.purpose &&
+      React.createElement('p', { className: 'vibing-consent__purpose' }, request.purpose),
+    React.createElement(
+      'ul',
+      { className: 'vibing-consent__access' },
+      request.access.map(level =>
+        React.createElement(
+          'li',
+          { key: level },
+          React.createElement(
+            'label',
+            null,
+            React.createElement('input', {
+              type: 'checkbox',
+              checked: selected.includes(level),
+              onChange: () => toggle(level),
+            }),
+            ` ${level}`
+          )
+        )
+      )
+    ),
+    React.createElement(
+      'div',
+      { className: 'vibing-consent__actions' },
+      React.createElement('button', { type: 'button', onClick: () => onDecide(false) }, 'Deny'),
+      React.createElement('button', { type: 'button', onClick: allow }, 'Allow')
+    )
+  );
+}
+
+/**
+ * Modal surface to show consent dialogs on, such as `createModals()` or `useModal()`
+ */
+export interface ConsentModalHost {
+  showModal: (config: ModalConfig) => {
+    hide: (result?: unknown) => void;
+    result: Promise<unknown>;
+  };
+}
+
+/**
+ * Creates a consent provider that asks with a dialog on the modal surface
+ * Closing the modal without answering denies the request.
+ * @param modals Modal surface to show the dialog on
+ * @example
+ * ```tsx
+ * const modals = useModal();
+ *
+ * useEffect(() => {
+ *   setConsentProvider(createModalConsentProvider(modals));
+ *   return () => setConsentProvider(null);
+ * }, []);
+ * ```
+ */
+export function createModalConsentProvider(modals: ConsentModalHost): ConsentProvider {
+  return {
+    requestConsent: async (
+      request: PermissionRequest,
+      principal?: PermissionPrincipal
+    ): Promise<ConsentResponse> => {
+      let modal: ReturnType<ConsentModalHost['showModal']> | null = null;
+
+      modal = modals.showModal({
+        title: 'Permission request',
+        content: React.createElement(ConsentDialog, {
+          request,
+          principal,
+          onDecide: (response: ConsentResponse) => modal?.hide(response),
+        }),
+        size: 'small',
+        metadata: { permissionRequest: request, principal },
+      });
+
+      const result = await modal.result;
+      return result === undefined ? false : (result as ConsentResponse);
+    },
+  };
+}
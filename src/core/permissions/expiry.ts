@@ -0,0 +1,156 @@
+import {
+  PermissionExpiringEvent,
+  PermissionExpiry,
+  PermissionExpiryOptions,
+  PermissionGrant,
+  PermissionResult,
+} from './types';
+import { PermissionsManager, expirePermissionGrants, listPermissionGrants } from './permissions';
+import { events } from '../events';
+import { logger } from '../utils/logger';
+
+/**
+ * Default milliseconds before expiry to warn about a grant
+ */
+const DEFAULT_WARN_BEFORE = 60 * 60 * 1000;
+
+/**
+ * Longest delay setTimeout supports, in milliseconds
+ */
+const MAX_TIMEOUT = 2147483647;
+
+/**
+ * Identify one lifetime of a grant, so a renewed grant is warned about again
+ */
+const getWarningKey = (
+  principalKey: string,
+  grant: Pick<PermissionResult, 'request' | 'expiresAt'>
+): string => {
+  return `${principalKey}|${grant.request.type}|${grant.request.scope}|${grant.expiresAt}`;
+};
+
+/**
+ * Start expiring grants on schedule instead of when they are next checked
+ *
+ * Publishes `permission:expiring` on the core `events` bus `warnBefore`
+ * milliseconds ahead of each grant's expiry, and removes grants when they
+ * expire, publishing `permission:expired`. With `autoRenew`, grants are
+ * renewed with `permissions.renew` when they are about to expire, which
+ * renews without asking or prompts again as the permission policy says.
+ *
+ * @param options How long ahead to warn and whether to renew
+ * @returns Handle to sweep now or stop scheduling
+ * @example
+ * ```ts
+ * const expiry = startPermissionExpiry({ warnBefore: 24 * 60 * 60 * 1000 });
+ *
+ * events.subscribe('permission:expiring', ({ grant }) => {
+ *   notify(`Access to ${grant.request.type} expires soon`);
+ * });
+ * ```
+ */
+export function startPermissionExpiry(options: PermissionExpiryOptions = {}): PermissionExpiry {
+  const { warnBefore = DEFAULT_WARN_BEFORE, autoRenew = false } = options;
+  const warned = new Set<string>();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let stopped = false;
+
+  /**
+   * Set the timer for the next warning or expiry
+   */
+  const schedule = async (): Promise<void> => {
+    const grants = await listPermissionGrants();
+    if (stopped) {
+      return;
+    }
+
+    const deadlines = grants
+      .filter(grant => grant.expiresAt !== undefined)
+      .map(grant =>
+        warned.has(getWarningKey(grant.principalKey, grant))
+          ? (grant.expiresAt as number)
+          : (grant.expiresAt as number) - warnBefore
+      );
+
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    if (deadlines.length > 0) {
+      const delay = Math.min(Math.max(Math.min(...deadlines) - Date.now() + 1, 0), MAX_TIMEOUT);
+      timer = setTimeout(() => void sweep(), delay);
+    }
+  };
+
+  const warn = async (grant: PermissionGrant, now: number): Promise<void> => {
+    warned.add(getWarningKey(grant.principalKey, grant));
+
+    const event: PermissionExpiringEvent = {
+      grant,
+      expiresIn: (grant.expiresAt as number) - now,
+    };
+    events.publish('permission:expiring', event);
+
+    if (!autoRenew) {
+      return;
+    }
+
+    try {
+      const renewed = await new PermissionsManager(grant.principal).renew(
+        grant.request.type,
+        grant.access || grant.request.access,
+        grant.request.scope
+      );
+
+      if (renewed.granted) {
+        warned.delete(getWarningKey(grant.principalKey, grant));
+
+        // A renewal too short to leave the warning window isn't warned about or renewed again
+        if ((renewed.expiresAt as number) - warnBefore <= Date.now()) {
+          warned.add(getWarningKey(grant.principalKey, renewed));
+        }
+      }
+    } catch (e) {
+      logger.warn(`Failed to renew ${grant.request.type} permission of ${grant.principalKey}:`, e);
+    }
+  };
+
+  const sweep = async (): Promise<number> => {
+    const now = Date.now();
+    const expired = expirePermissionGrants(now);
+    expired.forEach(grant => warned.delete(getWarningKey(grant.principalKey, grant)));
+
+    for (const grant of await listPermissionGrants()) {
+      if (
+        grant.expiresAt !== undefined &&
+        grant.expiresAt - warnBefore <= now &&
+        !warned.has(getWarningKey(grant.principalKey, grant))
+      ) {
+        await warn(grant, now);
+      }
+    }
+
+    await schedule();
+    return expired.length;
+  };
+
+  // New and removed grants change the next deadline
+  const unsubscribers = ['permission:granted', 'permission:revoked'].map(event =>
+    events.subscribe(event, () => void schedule())
+  );
+
+  void sweep();
+
+  return {
+    sweep,
+
+    stop: () => {
+      stopped = true;
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+    },
+  };
+}
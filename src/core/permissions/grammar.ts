@@ -0,0 +1,247 @@
+import { ParsedPermission, PermissionRequest, PermissionSpec } from './types';
+import { ValidationError } from '../errors';
+
+/**
+ * Canonical permission grammar
+ *
+ * ```
+ * permission := type ":" access [ ":" scope ]
+ * type       := name ( "." name )*
+ * access     := name ( "," name )*
+ * scope      := "global" | "project" | "conversation" | "*"
+ * ```
+ *
+ * Names may hold `*` wildcards. Two other forms are read as well:
+ * - dotted, where the last part is the access: `'memory.read'` is
+ *   `'memory:read'` and `'surfaces.cards.create'` is `'surfaces.cards:create'`
+ * - `domain:action:resource`, where the resource becomes a sub-type:
+ *   `'files:read:user'` is `'files.user:read'`
+ */
+
+const SCOPES = ['global', 'project', 'conversation'];
+const NAME = /^[\w*-]+$/;
+
+/**
+ * Scope of compiled permissions that don't name one
+ */
+const DEFAULT_SCOPE: PermissionRequest['scope'] = 'conversation';
+
+/**
+ * Check a value against a glob pattern where `*` stands for any characters
+ * @internal
+ */
+export const matchesPattern = (pattern: string, value: string): boolean => {
+  const source = pattern
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`).test(value);
+};
+
+const invalid = (permission: string, message: string): never => {
+  throw new ValidationError(`Invalid permission "${permission}"`, { permission: [message] });
+};
+
+/**
+ * Parse a permission string in any supported form
+ * @param permission Permission string, such as 'memory:read', 'memory.read' or 'files:read:user'
+ * @returns The type, access levels and scope, if the string names one
+ * @throws ValidationError when the string is not a permission
+ * @example
+ * ```ts
+ * parsePermission('surfaces.cards.create');
+ * // { type: 'surfaces.cards', access: ['create'] }
+ * parsePermission('memory:read,write:project');
+ * // { type: 'memory', access: ['read', 'write'], scope: 'project' }
+ * ```
+ */
+export function parsePermission(permission: string): ParsedPermission {
+  let type: string;
+  let access: string;
+  let scope: string | undefined;
+
+  if (permission.includes(':')) {
+    const parts = permission.split(':');
+    if (parts.length > 3) {
+      invalid(permission, 'Expected type:access[:scope]');
+    }
+
+    [type, access, scope] = parts;
+    // 'domain:action:resource'
+    if (scope !== undefined && scope !== '*' && !SCOPES.includes(scope)) {
+      type = `${type}.${scope}`;
+      scope = undefined;
+    }
+  } else {
+    const parts = permission.split('.');
+    if (parts.length < 2) {
+      invalid(permission, 'Expected type:access[:scope] or type.access');
+    }
+
+    access = parts.pop() as string;
+    type = parts.join('.');
+  }
+
+  if (!type.split('.').every(name => NAME.test(name))) {
+    invalid(permission, `Invalid type "${type}"`);
+  }
+
+  const levels = (access || '').split(',');
+  if (!levels.every(level => NAME.test(level))) {
+    invalid(permission, `Invalid access "${access}"`);
+  }
+
+  return scope === undefined
+    ? { type, access: levels }
+    : { type, access: levels, scope: scope as ParsedPermission['scope'] };
+}
+
+/**
+ * Format a permission in the canonical grammar
+ * @param permission Permission request or parsed permission
+ * @returns The canonical string, such as 'memory:read,write:conversation'
+ */
+export function formatPermission(permission: ParsedPermission | PermissionSpec): string {
+  const { type, access, scope } =
+    typeof permission === 'string' ? parsePermission(permission) : permission;
+  return [type, access.join(','), scope].filter(Boolean).join(':');
+}
+
+/**
+ * Check whether a permission pattern covers a permission
+ *
+ * Types and access levels in the pattern may hold `*` wildcards, and every
+ * access level of the permission must be covered. Scopes are only compared
+ * when both name one.
+ *
+ * @param pattern Permission pattern, such as 'surfaces.*:*'
+ * @param permission Permission to check
+ * @example
+ * ```ts
+ * matchesPermission('surfaces.*:create', 'surfaces.cards.create'); // true
+ * matchesPermission('memory:read', { type: 'memory', access: ['write'] }); // false
+ * ```
+ */
+export function matchesPermission(
+  pattern: ParsedPermission | PermissionSpec,
+  permission: ParsedPermission | PermissionSpec
+): boolean {
+  const covering = typeof pattern === 'string' ? parsePermission(pattern) : pattern;
+  const covered = typeof permission === 'string' ? parsePermission(permission) : permission;
+
+  return (
+    matchesPattern(covering.type, covered.type) &&
+    covered.access.every(level =>
+      covering.access.some(allowed => matchesPattern(allowed, level))
+    ) &&
+    (!covering.scope ||
+      !covered.scope ||
+      covering.scope === '*' ||
+      covering.scope === covered.scope)
+  );
+}
+
+/**
+ * Check a permission request object, returning what is wrong with it
+ */
+const validateRequest = (spec: Exclude<PermissionSpec, string>): string[] => {
+  const errors: string[] = [];
+
+  if (!spec || typeof spec.type !== 'string' || !spec.type) {
+    errors.push('Expected a type string');
+  }
+  if (
+    !spec ||
+    !Array.isArray(spec.access) ||
+    !spec.access.every(level => typeof level === 'string')
+  ) {
+    errors.push('Expected an access array of strings');
+  }
+  if (spec?.scope !== undefined && !SCOPES.includes(spec.scope)) {
+    errors.push(`Expected a scope of ${SCOPES.join(', ')}`);
+  }
+
+  return errors;
+};
+
+/**
+ * Compile permissions in any supported form to permission requests
+ *
+ * Permissions without a scope get the default scope, and permissions of the
+ * same type and scope are merged into one request, which is session-only if
+ * any of them is.
+ *
+ * @param specs Permission strings and request objects
+ * @param defaults Scope and purpose of permissions that don't name one
+ * @returns One request per type and scope
+ * @throws ValidationError listing every invalid permission by index
+ * @example
+ * ```ts
+ * compilePermissions(['memory.read', 'memory.write', 'surfaces.cards.create']);
+ * // [
+ * //   { type: 'memory', access: ['read', 'write'], scope: 'conversation' },
+ * //   { type: 'surfaces.cards', access: ['create'], scope: 'conversation' },
+ * // ]
+ * ```
+ */
+export function compilePermissions(
+  specs: PermissionSpec[],
+  defaults: { scope?: PermissionRequest['scope']; purpose?: string } = {}
+): PermissionRequest[] {
+  const errors: Record<string, string[]> = {};
+  const requests = new Map<string, PermissionRequest>();
+
+  specs.forEach((spec, index) => {
+    const field = `permissions[${index}]`;
+    let parsed: Omit<PermissionRequest, 'scope'> & { scope?: string };
+
+    if (typeof spec === 'string') {
+      try {
+        parsed = parsePermission(spec);
+      } catch (e) {
+        errors[field] = (e as ValidationError).validationErrors.permission;
+        return;
+      }
+      if (parsed.scope === '*') {
+        errors[field] = ['Expected a scope without wildcards'];
+        return;
+      }
+    } else {
+      const problems = validateRequest(spec);
+      if (problems.length > 0) {
+        errors[field] = problems;
+        return;
+      }
+      parsed = spec;
+    }
+
+    const { type, access, duration, session } = parsed;
+    const scope = (parsed.scope || defaults.scope || DEFAULT_SCOPE) as PermissionRequest['scope'];
+    const purpose = parsed.purpose || defaults.purpose;
+    const key = `${type}:${scope}`;
+    const existing = requests.get(key);
+
+    if (existing) {
+      existing.access = [...existing.access, ...access.filter(l => !existing.access.includes(l))];
+      if (session) {
+        existing.session = true;
+      }
+      return;
+    }
+
+    requests.set(key, {
+      type,
+      access: [...new Set(access)],
+      scope,
+      ...(purpose !== undefined && { purpose }),
+      ...(duration !== undefined && { duration }),
+      ...(session && { session }),
+    });
+  });
+
+  if (Object.keys(errors).length > 0) {
+    throw new ValidationError('Invalid permissions', errors);
+  }
+
+  return [...requests.values()];
+}
@@ -0,0 +1,441 @@
+import {
+  PermissionGuard,
+  PermissionGuardOptions,
+  PermissionRequest,
+  PermissionResult,
+} from './types';
+import { matchesPermission } from './grammar';
+import { getPermissionPrincipalKey } from './permissions';
+import { MemoryTransaction } from '../memory/types';
+import { matchesEventPattern } from '../events';
+import { PermissionError } from '../errors';
+import { logger } from '../utils/logger';
+
+/**
+ * Event channels of the SDK itself, which need an `events` permission to publish on
+ */
+export const DEFAULT_RESTRICTED_CHANNELS = ['app:**', 'memory:**', 'permission:**'];
+
+/**
+ * Scope checked for declared permissions that don't name one
+ */
+const DEFAULT_SCOPE: PermissionRequest['scope'] = 'conversation';
+
+type PermissionScope = PermissionRequest['scope'];
+
+/**
+ * Scopes memory calls without a scope option reach, when they reach every scope
+ */
+const ALL_SCOPES: PermissionScope[] = ['global', 'project', 'conversation'];
+
+/**
+ * Get the scope option of the argument at an index, or the memory's default scope
+ */
+const optionScope =
+  (index: number) =>
+  (args: unknown[], defaultScope: PermissionScope): PermissionScope[] => [
+    (args[index] as { scope?: PermissionScope } | undefined)?.scope || defaultScope,
+  ];
+
+/**
+ * Get the scope option of the argument at an index, or every scope
+ */
+const optionScopeOrAll =
+  (index: number) =>
+  (args: unknown[]): PermissionScope[] => {
+    const scope = (args[index] as { scope?: PermissionScope } | undefined)?.scope;
+    return scope ? [scope] : ALL_SCOPES;
+  };
+
+/**
+ * Get the scopes listed by the argument at an index, or every scope
+ */
+const listedScopes =
+  (index: number) =>
+  (args: unknown[]): PermissionScope[] =>
+    (args[index] as { scopes?: PermissionScope[] } | undefined)?.scopes || ALL_SCOPES;
+
+/**
+ * Memory methods, the access they need and the scopes a call reaches
+ *
+ * Methods missing here, such as `setEncryption` or `startMaintenance`, are
+ * for hosts and can't be called through a guarded context. `subscribe`,
+ * `transaction` and the handles returned by `shared` are guarded separately.
+ */
+const MEMORY_ACCESS: Record<
+  string,
+  {
+    access: string[] | ((args: unknown[]) => string[]);
+    scopes: (args: unknown[], defaultScope: PermissionScope) => PermissionScope[];
+  }
+> = {
+  get: { access: ['read'], scopes: optionScope(1) },
+  query: { access: ['read'], scopes: () => ALL_SCOPES },
+  history: { access: ['read'], scopes: optionScope(1) },
+  export: { access: ['read'], scopes: listedScopes(0) },
+  snapshot: { access: ['read'], scopes: () => ALL_SCOPES },
+  set: { access: ['write'], scopes: optionScope(2) },
+  update: { access: ['write'], scopes: optionScope(2) },
+  delete: { access: ['write'], scopes: optionScopeOrAll(1) },
+  revert: { access: ['write'], scopes: optionScope(2) },
+  import: { access: ['write'], scopes: listedScopes(0) },
+  restore: { access: ['write'], scopes: () => ALL_SCOPES },
+  compareAndSet: { access: ['read', 'write'], scopes: optionScope(3) },
+  // Principals share only the access they hold, and can always take shared access back
+  share: {
+    access: args => (args[1] as { access?: string[] } | undefined)?.access || ['read'],
+    scopes: optionScope(1),
+  },
+  unshare: { access: [], scopes: optionScopeOrAll(1) },
+};
+
+/**
+ * Vector memory methods and the access they need
+ */
+const VECTOR_ACCESS: Record<string, string> = {
+  search: 'read',
+  upsert: 'write',
+  delete: 'write',
+  clear: 'write',
+};
+
+/**
+ * Wrap the methods of an object so they run only with the permission they need
+ * @param target Object to wrap
+ * @param getRequired Permission a method needs, or undefined if it can't be called
+ * @param authorize Called before methods run, throwing when they may not
+ * @param reject Called instead of methods that can't be called
+ */
+const guardMethods = <T extends object>(
+  target: T,
+  getRequired: (
+    method: string
+  ) => { type: string; access: string; scope?: PermissionScope } | undefined,
+  authorize: (type: string, access: string, scope?: PermissionScope) => Promise<void>,
+  reject: (method: string) => never
+): T => {
+  return new Proxy(target, {
+    get(obj, property, receiver) {
+      const value = Reflect.get(obj, property, receiver);
+      if (typeof property !== 'string' || typeof value !== 'function') {
+        return value;
+      }
+
+      const required = getRequired(property);
+      if (!required) {
+        return () => reject(property);
+      }
+
+      return async (...args: unknown[]) => {
+        await authorize(required.type, required.access, required.scope);
+        return (value as (...args: unknown[]) => unknown).apply(obj, args);
+      };
+    },
+  });
+};
+
+/**
+ * Creates a guard that enforces an app, plugin or agent's permissions on its context
+ *
+ * Memory and surface calls need a declared permission that has been granted,
+ * such as `'memory:write:project'` for `memory.set(key, value, { scope: 'project' })`
+ * or `'surfaces.cards:create'` for `surfaces.cards.create`; declarations may
+ * use wildcards, as in `'surfaces.cards:*'`. Memory calls are checked in the
+ * scopes they reach, which is every scope for `delete`, `query` and
+ * `subscribe` without a scope, and memory methods for hosts, such as
+ * `setEncryption`, can't be called. With
+ * `promptOnFirstUse`, a declared permission that hasn't been granted is
+ * requested on its first use instead of failing. Publishing on a restricted
+ * event channel needs a declared and granted `events:publish` permission;
+ * such events are published once the grant is checked, and `publish` returns
+ * a promise that rejects when it is missing.
+ *
+ * @param options Principal, its permissions and its declared permissions
+ * @example
+ * ```ts
+ * const principal = { kind: 'plugin', id: config.id };
+ * const guard = createPermissionGuard({
+ *   principal,
+ *   permissions: new PermissionsManager(principal),
+ *   declared: compilePermissions(config.permissions),
+ *   promptOnFirstUse: true,
+ * });
+ *
+ * const context = { memory: guard.memory(memory), events: guard.events(events) };
+ * ```
+ */
+export function createPermissionGuard(options: PermissionGuardOptions): PermissionGuard {
+  const { permissions, principal, declared, promptOnFirstUse = false } = options;
+  const restrictedChannels = options.restrictedChannels || DEFAULT_RESTRICTED_CHANNELS;
+  const principalKey = getPermissionPrincipalKey(principal);
+  const pendingRequests = new Map<string, Promise<PermissionResult>>();
+
+  const deny = (message: string, type: string, access: string, scope?: string): never => {
+    throw new PermissionError(
+      `${principalKey} ${message}`,
+      [type, access, scope].filter(Boolean).join(':'),
+      { context: { principal, type, access, scope } }
+    );
+  };
+
+  const unavailable = (method: string): never => {
+    throw new PermissionError(`${principalKey} may not call ${method}`, method, {
+      context: { principal, method },
+    });
+  };
+
+  const assertDeclared = (
+    type: string,
+    access: string,
+    scope?: PermissionScope
+  ): PermissionRequest => {
+    const request = declared.find(permission =>
+      matchesPermission(permission, { type, access: [access], ...(scope && { scope }) })
+    );
+
+    return (
+      request ||
+      deny(
+        `did not declare ${access} access to ${type}${scope ? ` in the ${scope} scope` : ''}`,
+        type,
+        access,
+        scope
+      )
+    );
+  };
+
+  /**
+   * Request a declared permission once, however many calls are waiting for it
+   */
+  const requestOnce = (
+    request: PermissionRequest,
+    scope: PermissionScope
+  ): Promise<PermissionResult> => {
+    const key = `${request.type}|${request.access.join(',')}|${scope}`;
+    let pending = pendingRequests.get(key);
+    if (!pending) {
+      pending = permissions
+        .request({ ...request, scope })
+        .finally(() => pendingRequests.delete(key));
+      pendingRequests.set(key, pending);
+    }
+    return pending;
+  };
+
+  const authorize = async (
+    type: string,
+    access: string,
+    scope?: PermissionScope
+  ): Promise<void> => {
+    const request = assertDeclared(type, access, scope);
+    const checkedScope = scope || request.scope || DEFAULT_SCOPE;
+
+    if (await permissions.check(type, [access], checkedScope)) {
+      return;
+    }
+
+    if (promptOnFirstUse) {
+      const result = await requestOnce(request, checkedScope);
+      if (result.granted && (await permissions.check(type, [access], checkedScope))) {
+        return;
+      }
+    }
+
+    deny(
+      `has no ${access} access to ${type} in the ${checkedScope} scope`,
+      type,
+      access,
+      checkedScope
+    );
+  };
+
+  /**
+   * Authorize every access in every scope a memory call reaches
+   */
+  const authorizeMemory = async (access: string[], scopes: PermissionScope[]): Promise<void> => {
+    for (const scope of new Set(scopes)) {
+      for (const level of access) {
+        await authorize('memory', level, scope);
+      }
+    }
+  };
+
+  /**
+   * Guard a transaction: reads are checked as they happen and the staged
+   * writes before the transaction commits
+   */
+  const guardTransaction =
+    (transaction: (...args: unknown[]) => Promise<unknown>, defaultScope: PermissionScope) =>
+    (fn: (tx: MemoryTransaction) => Promise<unknown>, options?: unknown): Promise<unknown> =>
+      transaction(async (tx: MemoryTransaction) => {
+        const written: PermissionScope[] = [];
+        const stage = (scopes: PermissionScope[]): void => {
+          scopes.forEach(scope => assertDeclared('memory', 'write', scope));
+          written.push(...scopes);
+        };
+
+        const result = await fn({
+          get: async (key, getOptions) => {
+            await authorizeMemory(['read'], optionScope(1)([key, getOptions], defaultScope));
+            return tx.get(key, getOptions);
+          },
+          set: (key, value, setOptions) => {
+            stage(optionScope(2)([key, value, setOptions], defaultScope));
+            tx.set(key, value, setOptions);
+          },
+          delete: (key, deleteOptions) => {
+            stage(optionScopeOrAll(1)([key, deleteOptions]));
+            tx.delete(key, deleteOptions);
+          },
+        });
+
+        await authorizeMemory(['write'], written);
+        return result;
+      }, options);
+
+  /**
+   * Guard a subscription: it starts once reading is authorized, and a
+   * denial is logged as listeners have no way to receive it
+   */
+  const guardSubscribe =
+    (subscribe: (...args: unknown[]) => () => void) =>
+    (key: unknown, callback: unknown, options?: { scope?: PermissionScope }): (() => void) => {
+      const scopes = optionScopeOrAll(0)([options]);
+      scopes.forEach(scope => assertDeclared('memory', 'read', scope));
+
+      let unsubscribe: (() => void) | null = null;
+      let cancelled = false;
+
+      authorizeMemory(['read'], scopes).then(
+        () => {
+          if (!cancelled) {
+            unsubscribe = subscribe(key, callback, options);
+          }
+        },
+        error => logger.warn(`Memory subscription of ${principalKey} was not started:`, error)
+      );
+
+      return () => {
+        cancelled = true;
+        unsubscribe?.();
+      };
+    };
+
+  const guardMemory = <T extends object>(memory: T): T => {
+    // Calls without a scope reach the default scope of the memory manager behind the handle
+    const defaultScope =
+      (memory as { defaultScope?: PermissionScope }).defaultScope || DEFAULT_SCOPE;
+
+    return new Proxy(memory, {
+      get(obj, property, receiver) {
+        const value = Reflect.get(obj, property, receiver);
+        if (typeof property !== 'string') {
+          return value;
+        }
+
+        // Vector memory has no scopes of its own, so it's checked in the default scope
+        if (property === 'vectors' && value && typeof value === 'object') {
+          return guardMethods(
+            value,
+            method =>
+              VECTOR_ACCESS[method]
+                ? { type: 'memory', access: VECTOR_ACCESS[method], scope: defaultScope }
+                : undefined,
+            authorize,
+            method => unavailable(`memory.vectors.${method}`)
+          );
+        }
+
+        if (typeof value !== 'function') {
+          return value;
+        }
+
+        const method = value as (...args: unknown[]) => unknown;
+        if (property === 'subscribe') {
+          return guardSubscribe((...args) => method.apply(obj, args) as () => void);
+        }
+        if (property === 'transaction') {
+          return guardTransaction(
+            (...args) => method.apply(obj, args) as Promise<unknown>,
+            defaultScope
+          );
+        }
+        // Shared namespaces also need the principal's own memory permissions
+        if (property === 'shared') {
+          return (...args: unknown[]) => guardMemory(method.apply(obj, args) as object);
+        }
+
+        const rule = MEMORY_ACCESS[property];
+        if (!rule) {
+          return () => unavailable(`memory.${property}`);
+        }
+
+        return async (...args: unknown[]) => {
+          const access = typeof rule.access === 'function' ? rule.access(args) : rule.access;
+          await authorizeMemory(access, rule.scopes(args, defaultScope));
+          return method.apply(obj, args);
+        };
+      },
+    });
+  };
+
+  return {
+    authorize,
+
+    memory: guardMemory,
+
+    events: bus => {
+      return new Proxy(bus, {
+        get(obj, property, receiver) {
+          const value = Reflect.get(obj, property, receiver);
+          if (property !== 'publish' && property !== 'emit') {
+            return value;
+          }
+
+          return (event: string, ...args: unknown[]) => {
+            if (!restrictedChannels.some(pattern => matchesEventPattern(pattern, event))) {
+              return (value as (...args: unknown[]) => unknown).call(obj, event, ...args);
+            }
+
+            // Undeclared publishing fails right away, ungranted once the grant is checked
+            assertDeclared('events', 'publish');
+            const delivery = authorize('events', 'publish').then(() => {
+              (value as (...args: unknown[]) => unknown).call(obj, event, ...args);
+            });
+            delivery.catch(error =>
+              logger.warn(`Event '${event}' of ${principalKey} was not published:`, error)
+            );
+            return delivery;
+          };
+        },
+      });
+    },
+
+    surfaces: surfaces => {
+      return new Proxy(surfaces, {
+        get(obj, property, receiver) {
+          const surface = Reflect.get(obj, property, receiver);
+          if (typeof property !== 'string' || !surface) {
+            return surface;
+          }
+
+          if (typeof surface === 'function') {
+            return async (...args: unknown[]) => {
+              await authorize('surfaces', property);
+              return (surface as (...args: unknown[]) => unknown).apply(obj, args);
+            };
+          }
+
+          return typeof surface === 'object'
+            ? guardMethods(
+                surface,
+                method => ({ type: `surfaces.${property}`, access: method }),
+                authorize,
+                method => unavailable(`surfaces.${property}.${method}`)
+              )
+            : surface;
+        },
+      });
+    },
+  };
+}
@@ -6,6 +6,17 @@
 export * from './types';
 export * from './permissions';
 export * from './usePermissions';
+export * from './usePermission';
+export * from './usePendingPermissionRequests';
+export * from './permissionGate';
+export * from './consent';
+export * from './consentDialog';
+export * from './grammar';
+export * from './policy';
+export * from './audit';
+export * from './guard';
+export { claimCapabilityAuthority, verifyCapability } from './capabilities';
+export * from './expiry';
 
 // Hook will be implemented in Stage 1
 // export { usePermissions } from './usePermissions';
@@ -0,0 +1,71 @@
+import React from 'react';
+import { PermissionRequest, UsePermissionOptions, UsePermissionResult } from './types';
+import { usePermission } from './usePermission';
+
+/**
+ * Props of the permission gate
+ */
+export interface PermissionGateProps extends UsePermissionOptions {
+  type: string;
+  access: string[];
+  scope: PermissionRequest['scope'];
+
+  /**
+   * Rendered once the permission is granted
+   */
+  children?: React.ReactNode;
+
+  /**
+   * Rendered until the permission is granted, instead of a button requesting it
+   */
+  fallback?: React.ReactNode | ((permission: UsePermissionResult) => React.ReactNode);
+}
+
+/**
+ * Renders its children only while a permission is granted
+ *
+ * Until then it renders the fallback, or a button that requests the permission.
+ *
+ * @example
+ * ```tsx
+ * <PermissionGate type="memory" access={['read']} scope="conversation" purpose="Show your notes">
+ *   <Notes />
+ * </PermissionGate>
+ * ```
+ */
+export function PermissionGate({
+  type,
+  access,
+  scope,
+  children,
+  fallback,
+  ...options
+}: PermissionGateProps): React.ReactElement | null {
+  const permission = usePermission(type, access, scope, options);
+
+  if (permission.status === 'granted') {
+    return React.createElement(React.Fragment, null, children);
+  }
+
+  if (permission.loading) {
+    return null;
+  }
+
+  if (fallback !== undefined) {
+    return React.createElement(
+      React.Fragment,
+      null,
+      typeof fallback === 'function' ? fallback(permission) : fallback
+    );
+  }
+
+  return React.createElement(
+    'button',
+    {
+      type: 'button',
+      className: 'vibing-permission-gate',
+      onClick: () => void permission.request(),
+    },
+    permission.status === 'expired' ? `Renew ${type} access` : `Allow ${type} access`
+  );
+}
@@ -1,4 +1,21 @@
-import { PermissionAPI, PermissionRequest, PermissionResult } from './types';
+import {
+  CapabilityClaims,
+  DelegateOptions,
+  PermissionAPI,
+  PermissionAuditRecord,
+  PermissionGrant,
+  PermissionPrincipal,
+  PermissionRequest,
+  PermissionResult,
+  PermissionSpec,
+} from './types';
+import { askConsent, getGrantedAccess } from './consent';
+import { evaluatePermissionPolicy, getPermissionPolicy } from './policy';
+import { compilePermissions, formatPermission, matchesPermission } from './grammar';
+import { DEFAULT_CAPABILITY_DURATION, signCapability, verifyCapability } from './capabilities';
+import { PermissionError } from '../errors';
+import { isPermissionCheckAuditing, permissionAudit } from './audit';
+import { events } from '../events';
 
 /**
  * Storage key for permissions in localStorage
@@ -9,7 +26,7 @@ const PERMISSIONS_STORAGE_KEY = 'vibing_permissions';
  * Gets a unique identifier for a permission based on its properties
  */
 const getPermissionKey = (type: string, access?: string[], scope?: string): string => {
-  const accessStr = access ? access.sort().join(',') : '*';
+  const accessStr = access ? [...access].sort().join(',') : '*';
   const scopeStr = scope || '*';
   return `${type}:${accessStr}:${scopeStr}`;
 };
@@ -19,205 +36,747 @@ const getPermissionKey = (type: string, access?: string[], scope?: string): stri
  */
 const DEFAULT_PERMISSION_DURATION = 30 * 24 * 60 * 60 * 1000;
 
+/**
+ * Key of the grants made without a principal, such as by the host page itself
+ */
+const HOST_PRINCIPAL_KEY = 'host';
+
+/**
+ * Get the string identifying a principal's grants, e.g. `plugin/com.acme.search`
+ */
+export const getPermissionPrincipalKey = (principal?: PermissionPrincipal): string => {
+  return principal ? `${principal.kind}/${principal.id}` : HOST_PRINCIPAL_KEY;
+};
+
+/**
+ * Check whether a stored value is a single grant rather than a principal's grants
+ */
+const isStoredPermission = (value: unknown): value is PermissionResult => {
+  return !!value && typeof value === 'object' && 'granted' in value && 'request' in value;
+};
+
+/**
+ * Session-only grants, kept in memory instead of localStorage
+ */
+let sessionGrants: Record<string, Record<string, PermissionResult>> = {};
+
 /**
  * Storage for permissions (localStorage-based for Stage 1)
+ * Grants are stored by principal key, then by permission key. Session-only
+ * grants are kept apart in memory, so they never outlive the page.
  */
 const permissionStorage = {
-  getAll: (): Record<string, PermissionResult> => {
+  getAll: (): Record<string, Record<string, PermissionResult>> => {
     try {
       const storedData = localStorage.getItem(PERMISSIONS_STORAGE_KEY);
-      return storedData ? JSON.parse(storedData) : {};
+      const data: Record<string, unknown> = storedData ? JSON.parse(storedData) : {};
+      const store: Record<string, Record<string, PermissionResult>> = {};
+
+      Object.entries(data).forEach(([key, value]) => {
+        // Grants stored before they were kept per principal belong to the host
+        if (isStoredPermission(value)) {
+          store[HOST_PRINCIPAL_KEY] = { ...store[HOST_PRINCIPAL_KEY], [key]: value };
+        } else {
+          store[key] = { ...store[key], ...(value as Record<string, PermissionResult>) };
+        }
+      });
+
+      Object.entries(sessionGrants).forEach(([principalKey, grants]) => {
+        store[principalKey] = { ...store[principalKey], ...grants };
+      });
+
+      return store;
     } catch (e) {
       console.warn('Failed to read permissions from storage:', e);
       return {};
     }
   },
 
-  save: (permissions: Record<string, PermissionResult>): void => {
+  save: (store: Record<string, Record<string, PermissionResult>>): void => {
+    const persistent: Record<string, Record<string, PermissionResult>> = {};
+    sessionGrants = {};
+
+    Object.entries(store).forEach(([principalKey, grants]) => {
+      Object.entries(grants).forEach(([key, grant]) => {
+        const target = grant.request.session ? sessionGrants : persistent;
+        target[principalKey] = { ...target[principalKey], [key]: grant };
+      });
+    });
+
     try {
-      localStorage.setItem(PERMISSIONS_STORAGE_KEY, JSON.stringify(permissions));
+      localStorage.setItem(PERMISSIONS_STORAGE_KEY, JSON.stringify(persistent));
     } catch (e) {
       console.warn('Failed to save permissions to storage:', e);
     }
   },
+
+  getGrants: (principalKey: string): Record<string, PermissionResult> => {
+    return permissionStorage.getAll()[principalKey] || {};
+  },
+
+  saveGrants: (principalKey: string, permissions: Record<string, PermissionResult>): void => {
+    const store = permissionStorage.getAll();
+    if (Object.keys(permissions).length > 0) {
+      store[principalKey] = permissions;
+    } else {
+      delete store[principalKey];
+    }
+    permissionStorage.save(store);
+  },
 };
 
 /**
- * Simple UI for permission dialogs (would be replaced with proper UI in production)
+ * Check whether a stored permission grants access levels for a type and scope
+ * @internal
  */
-const permissionDialogs = {
-  /**
-   * Show a permission request dialog and return the user's decision
-   */
-  showRequestDialog: (request: PermissionRequest): Promise<boolean> => {
-    // In a real implementation, this would show a proper UI component
-    // For Stage 1, using a simple confirm dialog
-    const { type, access, scope, purpose } = request;
-    const accessStr = access.join(', ');
-    const purposeText = purpose ? `\nPurpose: ${purpose}` : '';
-
-    const message =
-      `An app is requesting permission:\n` +
-      `Type: ${type}\n` +
-      `Access: ${accessStr}\n` +
-      `Scope: ${scope}${purposeText}\n\n` +
-      `Do you want to grant this permission?`;
-
-    return Promise.resolve(window.confirm(message));
-  },
+export const coversRequest = (
+  permission: PermissionResult,
+  type: string,
+  access: string[],
+  scope?: string
+): boolean => {
+  // Grants of wildcard types or access, such as 'surfaces.*:*', cover what they match
+  return (
+    permission.granted &&
+    (permission.request.scope || '*') === (scope || '*') &&
+    matchesPermission(
+      { type: permission.request.type, access: permission.access || permission.request.access },
+      { type, access }
+    )
+  );
+};
+
+/**
+ * Find the key of a stored permission granting access levels for a type and scope
+ * A grant covers any subset of its access levels, so a read and write grant also grants read.
+ */
+const findPermissionKey = (
+  allPermissions: Record<string, PermissionResult>,
+  type: string,
+  access: string[],
+  scope?: string
+): string | undefined => {
+  const key = getPermissionKey(type, access, scope);
+  if (allPermissions[key]?.granted) {
+    return key;
+  }
+
+  // Check for wildcard permissions
+  const wildcardKey = getPermissionKey(type, undefined, scope);
+  if (allPermissions[wildcardKey]?.granted) {
+    return wildcardKey;
+  }
+
+  return Object.keys(allPermissions).find(storedKey =>
+    coversRequest(allPermissions[storedKey], type, access, scope)
+  );
+};
+
+/**
+ * Find a stored grant for access levels of a type and scope, removing it if it has expired
+ */
+const findGrant = (
+  principalKey: string,
+  type: string,
+  access: string[],
+  scope?: string
+): { permission?: PermissionResult; expired: boolean } => {
+  const allPermissions = permissionStorage.getGrants(principalKey);
+  const key = findPermissionKey(allPermissions, type, access, scope);
+
+  if (!key) {
+    return { expired: false };
+  }
+
+  const permission = allPermissions[key];
+  if (permission.expiresAt && permission.expiresAt < Date.now()) {
+    delete allPermissions[key];
+    permissionStorage.saveGrants(principalKey, allPermissions);
+    return { expired: true };
+  }
+
+  return { permission, expired: false };
+};
+
+/**
+ * Events published for decisions other than requests
+ */
+const DECISION_EVENTS: Record<Exclude<PermissionAuditRecord['action'], 'request'>, string> = {
+  check: 'permission:checked',
+  revoke: 'permission:revoked',
+  expire: 'permission:expired',
 };
 
 /**
- * Permissions API implementation
+ * Record a permission decision in the audit log and publish it as a `permission:*` event
+ * Routine checks are left out unless check auditing is enabled.
+ */
+const recordDecision = (record: Omit<PermissionAuditRecord, 'id' | 'timestamp'>): void => {
+  if (record.action === 'check' && record.source !== 'expired' && !isPermissionCheckAuditing()) {
+    return;
+  }
+
+  const stamped = permissionAudit.append(record);
+
+  if (record.action === 'request') {
+    events.publish(record.granted ? 'permission:granted' : 'permission:denied', stamped);
+  } else {
+    events.publish(DECISION_EVENTS[record.action], stamped);
+  }
+};
+
+/**
+ * Check whether the permission policy denies access levels of a type and scope to a principal
+ * Deny rules apply to stored grants and capability tokens alike, even ones made before the rule.
+ */
+const isDeniedByPolicy = (
+  principal: PermissionPrincipal | undefined,
+  type: string,
+  access: string[],
+  scope: string | undefined
+): boolean => {
+  const policy = getPermissionPolicy();
+  const request = { type, access, scope: scope as PermissionRequest['scope'] };
+  return !!policy && evaluatePermissionPolicy(policy, request, principal).effect === 'deny';
+};
+
+/**
+ * Check whether a capability token held by a principal grants access levels for a type and scope
+ * Tokens are verified offline; invalid, expired and misheld tokens grant nothing.
+ */
+const checkCapability = async (
+  principal: PermissionPrincipal | undefined,
+  type: string,
+  access: string[],
+  scope: string | undefined,
+  token: string
+): Promise<boolean> => {
+  let claims: CapabilityClaims | undefined;
+  try {
+    claims = await verifyCapability(token);
+  } catch {
+    claims = undefined;
+  }
+
+  // Tokens are bound to their holder, though the host may check any token
+  const held =
+    !!claims &&
+    (!principal ||
+      getPermissionPrincipalKey(claims.principal) === getPermissionPrincipalKey(principal));
+  const granted =
+    held &&
+    !!claims?.permissions.some(permission =>
+      coversRequest({ granted: true, request: permission }, type, access, scope)
+    );
+
+  recordDecision({
+    action: 'check',
+    principal,
+    request: { type, access, scope },
+    granted,
+    source: 'capability',
+    expiresAt: granted ? claims?.expiresAt : undefined,
+  });
+
+  return granted;
+};
+
+/**
+ * Creates the permissions API of a principal
+ *
+ * In Stage 1, this uses localStorage for storage. The permission policy is
+ * evaluated first, then requests without a stored grant are answered by the
+ * registered consent provider. Grants are kept per principal, so a grant to
+ * one plugin doesn't apply to another.
  *
- * In Stage 1, this uses localStorage for storage and simple confirm dialogs.
- * In production, this would make actual API calls and use proper UI components.
+ * @param principal App, plugin or agent the grants belong to, or undefined for the host
  */
-export const permissions: PermissionAPI = {
-  /**
-   * Request a permission
-   */
-  request: async (request: PermissionRequest): Promise<PermissionResult> => {
-    const { type, access, scope, duration } = request;
+const createPermissionAPI = (principal?: PermissionPrincipal): PermissionAPI => {
+  const principalKey = getPermissionPrincipalKey(principal);
 
-    // Check if permission already exists
-    const existingPermission = await permissions.check(type, access, scope);
+  return {
+    /**
+     * Request a permission
+     */
+    request: async (request: PermissionRequest): Promise<PermissionResult> => {
+      const { type, access, scope, duration } = request;
 
-    if (existingPermission) {
-      const allPermissions = permissionStorage.getAll();
-      const key = getPermissionKey(type, access, scope);
-      return allPermissions[key];
-    }
+      // Policy denials win over stored grants
+      const policy = getPermissionPolicy();
+      const decision = policy ? evaluatePermissionPolicy(policy, request, principal) : undefined;
+      if (decision?.effect === 'deny') {
+        recordDecision({ action: 'request', principal, request, granted: false, source: 'policy' });
+        return {
+          granted: false,
+          request,
+        };
+      }
 
-    // Show permission request dialog
-    const granted = await permissionDialogs.showRequestDialog(request);
+      // Check if permission already exists
+      const existingPermission = findGrant(principalKey, type, access, scope).permission;
 
-    if (granted) {
-      const now = Date.now();
-      const permissionDuration = duration || DEFAULT_PERMISSION_DURATION;
-      const expiresAt = now + permissionDuration;
+      if (existingPermission) {
+        recordDecision({
+          action: 'request',
+          principal,
+          request,
+          granted: true,
+          source: 'stored',
+          access: existingPermission.access,
+          expiresAt: existingPermission.expiresAt,
+        });
+        return existingPermission;
+      }
 
-      const result: PermissionResult = {
-        granted: true,
-        request,
-        grantedAt: now,
-        expiresAt,
-      };
+      // Grant by policy, or ask the registered consent provider
+      const source = decision?.effect === 'allow' ? 'policy' : 'user';
+      const response = source === 'policy' ? true : await askConsent(request, principal);
+      const grantedAccess = getGrantedAccess(request, response);
 
-      // Store the granted permission
-      const allPermissions = permissionStorage.getAll();
-      const key = getPermissionKey(type, access, scope);
-      allPermissions[key] = result;
-      permissionStorage.save(allPermissions);
+      if (grantedAccess.length > 0) {
+        const now = Date.now();
+        const permissionDuration =
+          (typeof response === 'object' && response.duration) ||
+          duration ||
+          DEFAULT_PERMISSION_DURATION;
+        const expiresAt = now + permissionDuration;
 
-      return result;
-    } else {
-      return {
-        granted: false,
-        request,
-      };
-    }
-  },
+        const result: PermissionResult = {
+          granted: true,
+          request,
+          grantedAt: now,
+          expiresAt,
+          access: grantedAccess,
+          principal,
+        };
 
-  /**
-   * Check if a permission exists and is valid
-   */
-  check: async (type: string, access: string[], scope?: string): Promise<boolean> => {
-    const allPermissions = permissionStorage.getAll();
-    const key = getPermissionKey(type, access, scope);
-
-    // Check for exact match first
-    if (allPermissions[key] && allPermissions[key].granted) {
-      // Check if permission has expired
-      if (allPermissions[key].expiresAt && allPermissions[key].expiresAt < Date.now()) {
-        // Permission expired, remove it
+        // Store the granted permission under the access actually granted
+        const allPermissions = permissionStorage.getGrants(principalKey);
+        allPermissions[getPermissionKey(type, grantedAccess, scope)] = result;
+        permissionStorage.saveGrants(principalKey, allPermissions);
+
+        recordDecision({
+          action: 'request',
+          principal,
+          request,
+          granted: true,
+          source,
+          access: grantedAccess,
+          expiresAt,
+        });
+        return result;
+      } else {
+        recordDecision({ action: 'request', principal, request, granted: false, source });
+        return {
+          granted: false,
+          request,
+        };
+      }
+    },
+
+    /**
+     * Renew a grant, without prompting when the policy allows it
+     */
+    renew: async (type: string, access?: string[], scope?: string): Promise<PermissionResult> => {
+      const allPermissions = permissionStorage.getGrants(principalKey);
+      const key = findPermissionKey(allPermissions, type, access || [], scope);
+      const grant = key ? allPermissions[key] : undefined;
+
+      if (!key || !grant) {
+        return {
+          granted: false,
+          request: { type, access: access || [], scope: scope as PermissionRequest['scope'] },
+        };
+      }
+
+      const request = { ...grant.request, access: grant.access || grant.request.access };
+
+      // Expired grants are requested again, never brought back
+      if (grant.expiresAt && grant.expiresAt < Date.now()) {
         delete allPermissions[key];
-        permissionStorage.save(allPermissions);
-        return false;
+        permissionStorage.saveGrants(principalKey, allPermissions);
+        recordDecision({
+          action: 'expire',
+          principal,
+          request,
+          granted: false,
+          source: 'expired',
+          access: grant.access,
+          expiresAt: grant.expiresAt,
+        });
+        return { granted: false, request };
       }
-      return true;
-    }
 
-    // Check for wildcard permissions (if no exact match)
-    const wildcardKey = getPermissionKey(type, undefined, scope);
-    if (allPermissions[wildcardKey] && allPermissions[wildcardKey].granted) {
-      // Check if permission has expired
-      if (
-        allPermissions[wildcardKey].expiresAt &&
-        allPermissions[wildcardKey].expiresAt < Date.now()
-      ) {
-        // Permission expired, remove it
-        delete allPermissions[wildcardKey];
-        permissionStorage.save(allPermissions);
-        return false;
+      const policy = getPermissionPolicy();
+      const decision = policy ? evaluatePermissionPolicy(policy, request, principal) : undefined;
+
+      if (decision?.effect === 'deny') {
+        delete allPermissions[key];
+        permissionStorage.saveGrants(principalKey, allPermissions);
+        recordDecision({ action: 'revoke', principal, request, granted: false, source: 'policy' });
+        return { granted: false, request };
       }
-      return true;
-    }
 
-    // No matching permission found
-    return false;
-  },
+      // Rules that allow the request, or renew it automatically, renew without asking
+      const source =
+        decision?.effect === 'allow' || decision?.rule?.renew === 'auto' ? 'policy' : 'user';
+      const response = source === 'policy' ? true : await askConsent(request, principal);
+      const grantedAccess = getGrantedAccess(request, response);
 
-  /**
-   * Revoke a permission
-   */
-  revoke: async (type: string, access?: string[], scope?: string): Promise<void> => {
-    const allPermissions = permissionStorage.getAll();
-    const key = getPermissionKey(type, access, scope);
+      if (grantedAccess.length === 0) {
+        // The grant stays until it expires
+        recordDecision({ action: 'request', principal, request, granted: false, source });
+        return { granted: false, request };
+      }
+
+      const expiresAt =
+        Date.now() +
+        ((typeof response === 'object' && response.duration) ||
+          request.duration ||
+          DEFAULT_PERMISSION_DURATION);
+      const renewed: PermissionResult = { ...grant, expiresAt, access: grantedAccess };
 
-    if (allPermissions[key]) {
       delete allPermissions[key];
-      permissionStorage.save(allPermissions);
-    }
+      allPermissions[getPermissionKey(request.type, grantedAccess, request.scope)] = renewed;
+      permissionStorage.saveGrants(principalKey, allPermissions);
 
-    return Promise.resolve();
-  },
+      recordDecision({
+        action: 'request',
+        principal,
+        request,
+        granted: true,
+        source,
+        access: grantedAccess,
+        expiresAt,
+      });
+      return renewed;
+    },
 
-  /**
-   * Get all granted permissions
-   */
-  getAll: async (): Promise<Record<string, PermissionResult>> => {
-    const allPermissions = permissionStorage.getAll();
-    const validPermissions: Record<string, PermissionResult> = {};
-
-    // Filter out expired permissions
-    Object.entries(allPermissions).forEach(([key, permission]) => {
-      if (permission.granted) {
-        if (permission.expiresAt && permission.expiresAt < Date.now()) {
-          // Permission expired, skip it
-        } else {
-          validPermissions[key] = permission;
+    /**
+     * Check if a permission exists and is valid, or if a capability token grants it,
+     * unless the policy denies it
+     */
+    check: async (
+      type: string,
+      access: string[],
+      scope?: string,
+      token?: string
+    ): Promise<boolean> => {
+      if (isDeniedByPolicy(principal, type, access, scope)) {
+        recordDecision({
+          action: 'check',
+          principal,
+          request: { type, access, scope },
+          granted: false,
+          source: 'policy',
+        });
+        return false;
+      }
+
+      if (token !== undefined) {
+        return checkCapability(principal, type, access, scope, token);
+      }
+
+      const { permission, expired } = findGrant(principalKey, type, access, scope);
+
+      recordDecision({
+        action: 'check',
+        principal,
+        request: { type, access, scope },
+        granted: !!permission,
+        source: expired ? 'expired' : 'stored',
+        access: permission?.access,
+        expiresAt: permission?.expiresAt,
+      });
+
+      return !!permission;
+    },
+
+    /**
+     * Delegate permissions the principal holds with a capability token
+     */
+    delegate: async (specs: PermissionSpec[], options: DelegateOptions): Promise<string> => {
+      if (options.parent) {
+        // Tokens are delegated further by their holder, never on the host's behalf
+        if (!principal) {
+          throw new PermissionError(
+            'Only the holder of a capability token can delegate it',
+            'capability',
+            { context: { delegate: options.principal } }
+          );
+        }
+
+        const parent = await verifyCapability(options.parent);
+        if (getPermissionPrincipalKey(parent.principal) !== principalKey) {
+          throw new PermissionError(
+            `${principalKey} does not hold capability ${parent.id}`,
+            'capability',
+            { context: { principal, capability: parent.id } }
+          );
         }
+        return signCapability({ ...options, permissions: specs });
       }
-    });
 
-    // If we removed any expired permissions, update storage
-    if (Object.keys(validPermissions).length !== Object.keys(allPermissions).length) {
-      permissionStorage.save(validPermissions);
-    }
+      // Root tokens come from the host's capability authority, as anyone can use the host's API
+      if (!principal) {
+        throw new PermissionError(
+          'The host mints tokens without a parent with its capability authority',
+          'capability',
+          { context: { delegate: options.principal } }
+        );
+      }
 
-    return validPermissions;
-  },
+      // Apps, plugins and agents delegate only what they were granted
+      let expiresAt =
+        options.expiresAt ?? Date.now() + (options.expiresIn ?? DEFAULT_CAPABILITY_DURATION);
+      const requests = compilePermissions(specs);
+      for (const request of requests) {
+        const { permission } = findGrant(principalKey, request.type, request.access, request.scope);
+        if (!permission) {
+          throw new PermissionError(
+            `${principalKey} can't delegate ${formatPermission(request)} without holding it`,
+            formatPermission(request),
+            { context: { principal, delegate: options.principal } }
+          );
+        }
+        // Tokens can't outlive the grants they delegate
+        expiresAt = Math.min(expiresAt, permission.expiresAt ?? Infinity);
+      }
+
+      return signCapability({ ...options, permissions: requests, issuer: principal, expiresAt });
+    },
+
+    /**
+     * Revoke a permission
+     */
+    revoke: async (type: string, access?: string[], scope?: string): Promise<void> => {
+      const allPermissions = permissionStorage.getGrants(principalKey);
+      const key = getPermissionKey(type, access, scope);
+
+      if (allPermissions[key]) {
+        delete allPermissions[key];
+        permissionStorage.saveGrants(principalKey, allPermissions);
+      }
+
+      recordDecision({
+        action: 'revoke',
+        principal,
+        request: { type, access, scope },
+        granted: false,
+      });
+
+      return Promise.resolve();
+    },
+
+    /**
+     * Get all granted permissions
+     */
+    getAll: async (): Promise<Record<string, PermissionResult>> => {
+      const allPermissions = permissionStorage.getGrants(principalKey);
+      const validPermissions: Record<string, PermissionResult> = {};
+
+      // Filter out expired permissions
+      Object.entries(allPermissions).forEach(([key, permission]) => {
+        if (permission.granted) {
+          if (permission.expiresAt && permission.expiresAt < Date.now()) {
+            // Permission expired, skip it
+          } else {
+            validPermissions[key] = permission;
+          }
+        }
+      });
+
+      // If we removed any expired permissions, update storage
+      if (Object.keys(validPermissions).length !== Object.keys(allPermissions).length) {
+        permissionStorage.saveGrants(principalKey, validPermissions);
+      }
+
+      return validPermissions;
+    },
+  };
 };
 
+/**
+ * Permissions API of the host page
+ * Apps, plugins and agents use a `PermissionsManager` constructed for them instead.
+ */
+export const permissions: PermissionAPI = createPermissionAPI();
+
 /**
  * PermissionsManager class provides an object-oriented interface
- * to the permissions system. It's a wrapper around the permissions API.
+ * to the permissions system for one principal.
+ *
+ * @example
+ * ```ts
+ * const pluginPermissions = new PermissionsManager({ kind: 'plugin', id: config.id });
+ * await pluginPermissions.request({ type: 'network', access: ['read'], scope: 'global' });
+ * ```
  */
 export class PermissionsManager implements PermissionAPI {
+  private api: PermissionAPI;
+
+  /**
+   * @param principal App, plugin or agent whose grants are managed, or undefined for the host
+   */
+  constructor(readonly principal?: PermissionPrincipal) {
+    this.api = principal ? createPermissionAPI(principal) : permissions;
+  }
+
   async request(request: PermissionRequest): Promise<PermissionResult> {
-    return permissions.request(request);
+    return this.api.request(request);
+  }
+
+  async renew(type: string, access?: string[], scope?: string): Promise<PermissionResult> {
+    return this.api.renew(type, access, scope);
+  }
+
+  async check(type: string, access: string[], scope?: string, token?: string): Promise<boolean> {
+    return this.api.check(type, access, scope, token);
   }
 
-  async check(type: string, access: string[], scope?: string): Promise<boolean> {
-    return permissions.check(type, access, scope);
+  async delegate(permissions: PermissionSpec[], options: DelegateOptions): Promise<string> {
+    return this.api.delegate(permissions, options);
   }
 
   async revoke(type: string, access?: string[], scope?: string): Promise<void> {
-    return permissions.revoke(type, access, scope);
+    return this.api.revoke(type, access, scope);
   }
 
   async getAll(): Promise<Record<string, PermissionResult>> {
-    return permissions.getAll();
+    return this.api.getAll();
+  }
+}
+
+/**
+ * List the unexpired grants of a principal, or of every principal and the host
+ * @param principal App, plugin or agent whose grants to list
+ * @returns The grants with the principal and key they are stored under
+ */
+export async function listPermissionGrants(
+  principal?: PermissionPrincipal
+): Promise<PermissionGrant[]> {
+  const store = permissionStorage.getAll();
+  const principalKeys = principal ? [getPermissionPrincipalKey(principal)] : Object.keys(store);
+  const now = Date.now();
+
+  return principalKeys.flatMap(principalKey =>
+    Object.entries(store[principalKey] || {})
+      .filter(
+        ([, permission]) =>
+          permission.granted && !(permission.expiresAt && permission.expiresAt < now)
+      )
+      .map(([key, permission]) => ({ ...permission, principalKey, key }))
+  );
+}
+
+/**
+ * Revoke the grants of a principal, for hosts managing apps, plugins and agents
+ * @param principal App, plugin or agent whose grants to revoke
+ * @param filter Only revoke grants of this type or scope
+ * @returns The number of grants revoked
+ * @example
+ * ```ts
+ * // Revoke everything a plugin was granted when it is uninstalled
+ * await revokePermissionGrants({ kind: 'plugin', id: 'com.acme.search' });
+ * ```
+ */
+export async function revokePermissionGrants(
+  principal: PermissionPrincipal,
+  filter: { type?: string; scope?: string } = {}
+): Promise<number> {
+  const principalKey = getPermissionPrincipalKey(principal);
+  const allPermissions = permissionStorage.getGrants(principalKey);
+  const revoked = Object.keys(allPermissions).filter(key => {
+    const { type, scope } = allPermissions[key].request;
+    return (
+      (filter.type === undefined || type === filter.type) &&
+      (filter.scope === undefined || scope === filter.scope)
+    );
+  });
+
+  revoked.forEach(key => {
+    const { request, access } = allPermissions[key];
+    delete allPermissions[key];
+    recordDecision({
+      action: 'revoke',
+      principal,
+      request: { ...request, access: access || request.access },
+      granted: false,
+    });
+  });
+  permissionStorage.saveGrants(principalKey, allPermissions);
+
+  return revoked.length;
+}
+
+/**
+ * Remove grants matching a predicate from every principal, recording each as expired
+ */
+const expireGrants = (
+  predicate: (grant: PermissionGrant) => boolean,
+  source: 'expired' | 'session'
+): PermissionGrant[] => {
+  const store = permissionStorage.getAll();
+  const expired: PermissionGrant[] = [];
+
+  Object.entries(store).forEach(([principalKey, grants]) => {
+    Object.entries(grants).forEach(([key, grant]) => {
+      if (predicate({ ...grant, principalKey, key })) {
+        expired.push({ ...grant, principalKey, key });
+        delete grants[key];
+      }
+    });
+    if (Object.keys(grants).length === 0) {
+      delete store[principalKey];
+    }
+  });
+
+  if (expired.length > 0) {
+    permissionStorage.save(store);
   }
+
+  expired.forEach(grant => {
+    recordDecision({
+      action: 'expire',
+      principal: grant.principal,
+      request: grant.request,
+      granted: false,
+      source,
+      access: grant.access,
+      expiresAt: grant.expiresAt,
+    });
+  });
+
+  return expired;
+};
+
+/**
+ * Remove every grant past its expiry, publishing `permission:expired` for each
+ * @param now Time to compare expiries against
+ * @returns The removed grants
+ */
+export function expirePermissionGrants(now: number = Date.now()): PermissionGrant[] {
+  return expireGrants(grant => grant.expiresAt !== undefined && grant.expiresAt <= now, 'expired');
+}
+
+/**
+ * End the session of apps, plugins or agents, removing their session-only grants
+ *
+ * Apps end their own and their plugins' sessions when they unmount. Call it
+ * without principals when the conversation ends to remove every session grant.
+ *
+ * @param principals Principals whose session ended, or undefined for all of them
+ * @returns The removed grants
+ * @example
+ * ```ts
+ * events.subscribe('conversation:ended', () => endPermissionSession());
+ * ```
+ */
+export function endPermissionSession(principals?: PermissionPrincipal[]): PermissionGrant[] {
+  const principalKeys = principals?.map(getPermissionPrincipalKey);
+  return expireGrants(
+    grant =>
+      !!grant.request.session && (!principalKeys || principalKeys.includes(grant.principalKey)),
+    'session'
+  );
 }
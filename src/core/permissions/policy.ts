@@ -0,0 +1,227 @@
+import {
+  PermissionPolicy,
+  PermissionPrincipal,
+  PermissionRequest,
+  PolicyDecision,
+  PolicyEffect,
+  PolicyRule,
+} from './types';
+import { matchesPattern } from './grammar';
+import { ValidationError } from '../errors';
+
+const EFFECTS: PolicyEffect[] = ['allow', 'deny', 'prompt'];
+const SCOPES = ['global', 'project', 'conversation'];
+const PRINCIPAL_KINDS = ['app', 'plugin', 'agent'];
+
+/**
+ * Policy evaluated before permission requests are prompted
+ */
+let permissionPolicy: PermissionPolicy | null = null;
+
+/**
+ * Normalize a rule field that accepts one value or a list
+ */
+const toList = <T>(value: T | T[] | undefined): T[] | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+  return Array.isArray(value) ? value : [value];
+};
+
+/**
+ * Check whether a rule applies to a request
+ */
+const matchesRule = (
+  rule: PolicyRule,
+  request: PermissionRequest,
+  principal?: PermissionPrincipal
+): boolean => {
+  const types = toList(rule.type);
+  if (types && !types.some(pattern => matchesPattern(pattern, request.type))) {
+    return false;
+  }
+
+  const scopes = toList(rule.scope);
+  if (scopes && !scopes.includes(request.scope)) {
+    return false;
+  }
+
+  if (rule.access) {
+    const listed = request.access.filter(level => rule.access?.includes(level));
+    // Denying any requested level denies the request, while allowing needs every level
+    const matches =
+      rule.effect === 'deny' ? listed.length > 0 : listed.length === request.access.length;
+    if (!matches) {
+      return false;
+    }
+  }
+
+  if (rule.principal) {
+    if (!principal) {
+      return false;
+    }
+
+    const kinds = toList(rule.principal.kind);
+    const ids = toList(rule.principal.id);
+    if (kinds && !kinds.includes(principal.kind)) {
+      return false;
+    }
+    if (ids && !ids.some(pattern => matchesPattern(pattern, principal.id))) {
+      return false;
+    }
+  }
+
+  return true;
+};
+
+/**
+ * Evaluate a policy against a request without prompting or storing anything
+ * @param policy Policy to evaluate
+ * @param request Permission request
+ * @param principal App, plugin or agent making the request
+ * @returns The effect and the rule that decided it
+ * @example
+ * ```ts
+ * const decision = evaluatePermissionPolicy(policy, request, { kind: 'plugin', id: 'com.acme.search' });
+ * console.log(decision.effect, decision.rule?.id);
+ * ```
+ */
+export function evaluatePermissionPolicy(
+  policy: PermissionPolicy,
+  request: PermissionRequest,
+  principal?: PermissionPrincipal
+): PolicyDecision {
+  const ruleIndex = policy.rules.findIndex(rule => matchesRule(rule, request, principal));
+
+  if (ruleIndex === -1) {
+    return { effect: policy.defaultEffect || 'prompt', ruleIndex };
+  }
+
+  const rule = policy.rules[ruleIndex];
+  return { effect: rule.effect, rule, ruleIndex };
+}
+
+/**
+ * Check that a rule field holds strings from an optional set of values
+ */
+const validateStrings = (
+  value: unknown,
+  field: string,
+  errors: Record<string, string[]>,
+  allowed?: string[]
+): void => {
+  if (value === undefined) {
+    return;
+  }
+
+  const values = Array.isArray(value) ? value : [value];
+  if (!values.every(item => typeof item === 'string' && (!allowed || allowed.includes(item)))) {
+    errors[field] = [
+      allowed ? `Expected one or more of ${allowed.join(', ')}` : 'Expected a string or strings',
+    ];
+  }
+};
+
+/**
+ * Parse and validate a permission policy, such as one loaded from a JSON file
+ * @param source JSON text or an already parsed object
+ * @returns The validated policy
+ * @throws ValidationError when the source is not a valid policy
+ * @example
+ * ```ts
+ * setPermissionPolicy(
+ *   parsePermissionPolicy(`{
+ *     "rules": [
+ *       { "effect": "allow", "type": "memory", "access": ["read"], "scope": "conversation" },
+ *       { "effect": "prompt", "type": "network", "principal": { "kind": "plugin", "id": "com.acme.*" } },
+ *       { "effect": "deny", "type": "network", "principal": { "kind": "plugin" } }
+ *     ]
+ *   }`)
+ * );
+ * ```
+ */
+export function parsePermissionPolicy(source: string | unknown): PermissionPolicy {
+  let policy: unknown = source;
+
+  if (typeof source === 'string') {
+    try {
+      policy = JSON.parse(source);
+    } catch (e) {
+      throw new ValidationError(
+        'Permission policy is not valid JSON',
+        { policy: [(e as Error).message] },
+        { cause: e as Error }
+      );
+    }
+  }
+
+  const { rules, defaultEffect } = (policy || {}) as Record<string, unknown>;
+  const errors: Record<string, string[]> = {};
+
+  if (!Array.isArray(rules)) {
+    errors.rules = ['Expected an array of rules'];
+  }
+
+  if (defaultEffect !== undefined && !EFFECTS.includes(defaultEffect as PolicyEffect)) {
+    errors.defaultEffect = [`Expected one of ${EFFECTS.join(', ')}`];
+  }
+
+  (Array.isArray(rules) ? rules : []).forEach((rule: unknown, index) => {
+    const field = `rules[${index}]`;
+
+    if (!rule || typeof rule !== 'object') {
+      errors[field] = ['Expected an object'];
+      return;
+    }
+
+    const { effect, id, type, access, scope, renew, principal } = rule as Record<string, unknown>;
+
+    if (!EFFECTS.includes(effect as PolicyEffect)) {
+      errors[`${field}.effect`] = [`Expected one of ${EFFECTS.join(', ')}`];
+    }
+    if (id !== undefined && typeof id !== 'string') {
+      errors[`${field}.id`] = ['Expected a string'];
+    }
+    if (renew !== undefined && renew !== 'auto' && renew !== 'prompt') {
+      errors[`${field}.renew`] = ['Expected one of auto, prompt'];
+    }
+    validateStrings(type, `${field}.type`, errors);
+    validateStrings(scope, `${field}.scope`, errors, SCOPES);
+    if (access !== undefined && !Array.isArray(access)) {
+      errors[`${field}.access`] = ['Expected an array of strings'];
+    } else {
+      validateStrings(access, `${field}.access`, errors);
+    }
+
+    if (principal !== undefined) {
+      if (!principal || typeof principal !== 'object') {
+        errors[`${field}.principal`] = ['Expected an object'];
+      } else {
+        const { kind, id: principalId } = principal as Record<string, unknown>;
+        validateStrings(kind, `${field}.principal.kind`, errors, PRINCIPAL_KINDS);
+        validateStrings(principalId, `${field}.principal.id`, errors);
+      }
+    }
+  });
+
+  if (Object.keys(errors).length > 0) {
+    throw new ValidationError('Invalid permission policy', errors);
+  }
+
+  return policy as PermissionPolicy;
+}
+
+/**
+ * Set the policy evaluated before permission requests are prompted
+ * @param policy Policy to use, or null to prompt for every request without a stored grant
+ */
+export function setPermissionPolicy(policy: PermissionPolicy | null): void {
+  permissionPolicy = policy;
+}
+
+/**
+ * Get the policy evaluated before permission requests are prompted
+ */
+export function getPermissionPolicy(): PermissionPolicy | null {
+  return permissionPolicy;
+}
@@ -40,6 +40,43 @@ export interface PermissionRequest {
    * Optional description of why the permission is needed
    */
   purpose?: string;
+
+  /**
+   * Grant for the session only: the grant is kept in memory and removed when
+   * the app unmounts or the conversation ends
+   */
+  session?: boolean;
+}
+
+/**
+ * A permission written in the canonical grammar or one of the forms it is compiled from
+ *
+ * Strings may be canonical (`'memory:read,write:conversation'`), dotted
+ * (`'memory.read'`, `'surfaces.cards.create'`) or `'domain:action:resource'`
+ * (`'files:read:user'`). Requests may leave out their scope.
+ */
+export type PermissionSpec =
+  | string
+  | (Omit<PermissionRequest, 'scope'> & { scope?: PermissionRequest['scope'] });
+
+/**
+ * A permission parsed from a string, where any part may hold `*` wildcards
+ */
+export interface ParsedPermission {
+  /**
+   * Type of permission, with dotted sub-types such as 'surfaces.cards'
+   */
+  type: string;
+
+  /**
+   * Access levels, or ['*'] for any
+   */
+  access: string[];
+
+  /**
+   * Scope, or undefined when the string doesn't name one
+   */
+  scope?: PermissionRequest['scope'] | '*';
 }
 
 /**
@@ -95,6 +132,415 @@ export interface PermissionResult {
    * Timestamp when the permission expires (if applicable)
    */
   expiresAt?: number;
+
+  /**
+   * Access levels granted, which may be fewer than requested
+   */
+  access?: string[];
+
+  /**
+   * App, plugin or agent the permission was granted to
+   */
+  principal?: PermissionPrincipal;
+}
+
+/**
+ * Stored grant, as listed for hosts
+ */
+export interface PermissionGrant extends PermissionResult {
+  /**
+   * Principal the grant is stored under, e.g. `plugin/com.acme.search`, or `host`
+   */
+  principalKey: string;
+
+  /**
+   * Key of the grant within the principal's grants
+   */
+  key: string;
+}
+
+/**
+ * Answer to a consent request
+ * `true` grants all requested access and `false` denies the request.
+ * An object grants the listed access levels only, such as read but not write.
+ */
+export type ConsentResponse =
+  | boolean
+  | {
+      access: string[];
+
+      /**
+       * How long the grant lasts in milliseconds, overriding the requested duration
+       */
+      duration?: number;
+    };
+
+/**
+ * Asks for consent to permission requests that have no stored grant
+ *
+ * Register one with `setConsentProvider`, such as a dialog from
+ * `createModalConsentProvider` or a policy from `createPolicyConsentProvider`;
+ * without one, requests are denied.
+ */
+export interface ConsentProvider {
+  /**
+   * Ask whether to grant a request
+   * @param request Permission requested
+   * @param principal App, plugin or agent asking, or undefined for the host
+   */
+  requestConsent(
+    request: PermissionRequest,
+    principal?: PermissionPrincipal
+  ): Promise<ConsentResponse>;
+}
+
+/**
+ * App, plugin or agent requesting a permission
+ */
+export interface PermissionPrincipal {
+  kind: 'app' | 'plugin' | 'agent';
+  id: string;
+}
+
+/**
+ * What a policy rule does with the requests it matches
+ * `allow` grants without asking, `deny` refuses without asking and
+ * `prompt` asks the consent provider as usual.
+ */
+export type PolicyEffect = 'allow' | 'deny' | 'prompt';
+
+/**
+ * Rule of a permission policy
+ *
+ * Every field the rule sets must match the request; unset fields match anything.
+ * Types and principal ids match glob patterns where `*` stands for any characters.
+ */
+export interface PolicyRule {
+  effect: PolicyEffect;
+
+  /**
+   * Optional name reported by evaluations
+   */
+  id?: string;
+
+  /**
+   * Permission types the rule applies to, e.g. 'memory' or 'memory-share:*'
+   */
+  type?: string | string[];
+
+  /**
+   * Access levels the rule applies to
+   * `allow` and `prompt` rules match requests for these levels only, while
+   * `deny` rules match requests for any of them.
+   */
+  access?: string[];
+
+  /**
+   * Scopes the rule applies to
+   */
+  scope?: Scope | Scope[];
+
+  /**
+   * How `permissions.renew` renews grants the rule matches: `auto` without
+   * asking, or `prompt` by asking the consent provider again
+   * (default: `auto` for `allow` rules, otherwise `prompt`)
+   */
+  renew?: 'auto' | 'prompt';
+
+  /**
+   * Principals the rule applies to
+   * Requests made without a principal never match rules that set one.
+   */
+  principal?: {
+    kind?: PermissionPrincipal['kind'] | PermissionPrincipal['kind'][];
+    id?: string | string[];
+  };
+}
+
+/**
+ * Ordered permission rules, where the first matching rule decides
+ */
+export interface PermissionPolicy {
+  rules: PolicyRule[];
+
+  /**
+   * Effect when no rule matches (default: 'prompt')
+   */
+  defaultEffect?: PolicyEffect;
+}
+
+/**
+ * Outcome of evaluating a permission policy
+ */
+export interface PolicyDecision {
+  effect: PolicyEffect;
+
+  /**
+   * Rule that decided, or undefined when the default effect applied
+   */
+  rule?: PolicyRule;
+
+  /**
+   * Position of the deciding rule in the policy, or -1 for the default effect
+   */
+  ruleIndex: number;
+}
+
+/**
+ * Where a permission decision came from
+ * `stored` is an existing grant (or the lack of one), `policy` a policy rule,
+ * `user` the consent provider, `expired` a grant found past its expiry,
+ * `capability` a capability token passed to check and `session` the end of a
+ * session-only grant's session.
+ */
+export type PermissionDecisionSource =
+  | 'stored'
+  | 'policy'
+  | 'user'
+  | 'expired'
+  | 'capability'
+  | 'session';
+
+/**
+ * Record of a permission request, check, revocation or expiry
+ */
+export interface PermissionAuditRecord {
+  /**
+   * Position of the record in the log, starting at 1
+   */
+  id: number;
+
+  timestamp: number;
+
+  action: 'request' | 'check' | 'revoke' | 'expire';
+
+  /**
+   * App, plugin or agent that made the call, when known
+   */
+  principal?: PermissionPrincipal;
+
+  /**
+   * The request, or the type, access and scope passed to check or revoke
+   */
+  request: Omit<PermissionRequest, 'access' | 'scope'> & { access?: string[]; scope?: string };
+
+  /**
+   * Whether the permission is granted after the call
+   */
+  granted: boolean;
+
+  /**
+   * Where the decision came from, for requests and checks
+   */
+  source?: PermissionDecisionSource;
+
+  /**
+   * Access levels granted, which may be fewer than requested
+   */
+  access?: string[];
+
+  /**
+   * When the grant expires
+   */
+  expiresAt?: number;
+}
+
+/**
+ * Filter for permission audit records
+ */
+export interface PermissionAuditQuery {
+  action?: PermissionAuditRecord['action'];
+
+  /**
+   * Principal fields to match; `{ kind: 'plugin' }` matches every plugin
+   */
+  principal?: Partial<PermissionPrincipal>;
+
+  /**
+   * Permission type
+   */
+  type?: string;
+
+  granted?: boolean;
+  source?: PermissionDecisionSource;
+
+  /**
+   * Earliest timestamp, inclusive
+   */
+  since?: number;
+
+  /**
+   * Latest timestamp, inclusive
+   */
+  until?: number;
+
+  /**
+   * Maximum number of records, counted from the most recent
+   */
+  limit?: number;
+}
+
+/**
+ * Options of a permission audit log
+ */
+export interface PermissionAuditLogOptions {
+  /**
+   * Maximum number of records kept (default: 1000)
+   */
+  limit?: number;
+
+  /**
+   * Called with the oldest records when the limit drops them
+   */
+  onDrop?: (records: PermissionAuditRecord[]) => void;
+}
+
+/**
+ * Append-only log of permission decisions
+ */
+export interface PermissionAuditLog {
+  /**
+   * Add a record, stamped with its id and the current time
+   */
+  append: (record: Omit<PermissionAuditRecord, 'id' | 'timestamp'>) => PermissionAuditRecord;
+
+  /**
+   * Get the records matching a filter, oldest first
+   */
+  query: (filter?: PermissionAuditQuery) => PermissionAuditRecord[];
+
+  /**
+   * Export the records matching a filter as JSON Lines, one record per line
+   */
+  toJSONLines: (filter?: PermissionAuditQuery) => string;
+}
+
+/**
+ * Options of a permission guard
+ */
+export interface PermissionGuardOptions {
+  /**
+   * App, plugin or agent whose context is guarded
+   */
+  principal: PermissionPrincipal;
+
+  /**
+   * Permissions of the principal, usually a `PermissionsManager` constructed for it
+   */
+  permissions: PermissionAPI;
+
+  /**
+   * Permissions the principal declared in its config
+   */
+  declared: PermissionRequest[];
+
+  /**
+   * Request declared permissions on their first use instead of failing (default: false)
+   */
+  promptOnFirstUse?: boolean;
+
+  /**
+   * Event channel patterns that need an `events` permission to publish on,
+   * matched like event bus subscriptions (default: the SDK's own channels)
+   */
+  restrictedChannels?: string[];
+}
+
+/**
+ * Enforces a principal's permissions on the objects in its context
+ * The guarded objects throw a `PermissionError` for calls the principal may not make.
+ */
+export interface PermissionGuard {
+  /**
+   * Resolve when the principal may use an access level of a permission type
+   * in a scope, by default the declared one, prompting first when enabled, or
+   * reject with a `PermissionError`
+   */
+  authorize: (type: string, access: string, scope?: PermissionRequest['scope']) => Promise<void>;
+
+  /**
+   * Guard reads and writes of a memory API in the scopes they reach, and deny its host methods
+   * Calls without a scope reach the memory's `defaultScope`, or `'conversation'` without one.
+   */
+  memory: <T extends object>(memory: T) => T;
+
+  /**
+   * Guard publishing on the restricted channels of an event bus
+   */
+  events: <T extends object>(events: T) => T;
+
+  /**
+   * Guard calls to surfaces, keyed by surface name
+   */
+  surfaces: <T extends object>(surfaces: T) => T;
+}
+
+/**
+ * Permission request waiting for an answer from the consent provider
+ */
+export interface PendingPermissionRequest {
+  id: number;
+  request: PermissionRequest;
+
+  /**
+   * App, plugin or agent making the request, or undefined for the host
+   */
+  principal?: PermissionPrincipal;
+
+  requestedAt: number;
+}
+
+/**
+ * State of a permission
+ * `prompt` means it hasn't been granted or denied yet, and `expired` that its grant ran out.
+ */
+export type PermissionStatus = 'granted' | 'denied' | 'prompt' | 'expired';
+
+/**
+ * Options of `usePermission`
+ */
+export interface UsePermissionOptions {
+  /**
+   * App, plugin or agent the permission belongs to, or undefined for the host
+   */
+  principal?: PermissionPrincipal;
+
+  /**
+   * Why the permission is needed, shown when it is requested
+   */
+  purpose?: string;
+
+  /**
+   * How long a grant lasts in milliseconds
+   */
+  duration?: number;
+}
+
+/**
+ * Live state of a permission, with functions to request and revoke it
+ */
+export interface UsePermissionResult {
+  status: PermissionStatus;
+
+  /**
+   * Whether the status is still being loaded
+   */
+  loading: boolean;
+
+  /**
+   * When the grant expires, while granted
+   */
+  expiresAt?: number;
+
+  /**
+   * Request the permission
+   */
+  request: () => Promise<PermissionResult>;
+
+  /**
+   * Revoke the grants covering the permission
+   */
+  revoke: () => Promise<void>;
 }
 
 /**
@@ -120,8 +566,109 @@ export interface PermissionHook {
    * Revoke a previously granted permission
    */
   revoke: (type: string, access?: string[], scope?: string) => Promise<void>;
+
+  /**
+   * Requests made through the hook that are waiting for an answer
+   */
+  pendingRequests: PermissionRequest[];
+}
+
+/**
+ * Claims of a verified capability token
+ */
+export interface CapabilityClaims {
+  /**
+   * Random identifier of the token
+   */
+  id: string;
+
+  /**
+   * App, plugin or agent holding the token
+   */
+  principal: PermissionPrincipal;
+
+  /**
+   * Principal that delegated the token, or undefined for tokens minted by the host
+   */
+  issuer?: PermissionPrincipal;
+
+  /**
+   * Permissions the token grants
+   */
+  permissions: PermissionRequest[];
+
+  issuedAt: number;
+
+  expiresAt: number;
+
+  /**
+   * Token this one was delegated from, which grants at least the same permissions
+   */
+  parent?: string;
+}
+
+/**
+ * Options for minting a capability token
+ */
+export interface MintCapabilityOptions {
+  /**
+   * App, plugin or agent the token is for
+   */
+  principal: PermissionPrincipal;
+
+  /**
+   * Permissions the token grants, in any form `compilePermissions` reads
+   */
+  permissions: PermissionSpec[];
+
+  /**
+   * Principal delegating the token; set from the parent when there is one
+   */
+  issuer?: PermissionPrincipal;
+
+  /**
+   * Milliseconds until the token expires (default: 1 hour)
+   */
+  expiresIn?: number;
+
+  /**
+   * Time the token expires, overriding expiresIn
+   */
+  expiresAt?: number;
+
+  /**
+   * Token to attenuate; the new token can't grant more or outlive it
+   */
+  parent?: string;
+}
+
+/**
+ * Host's handle on capability tokens, from `claimCapabilityAuthority`
+ */
+export interface CapabilityAuthority {
+  /**
+   * Mint a token, trusted as the host's when it has no parent
+   * @throws PermissionError if the token would grant more than its parent
+   */
+  mint: (options: MintCapabilityOptions) => Promise<string>;
+
+  /**
+   * Set the HMAC key tokens are signed and verified with
+   *
+   * Without one, a random key is generated on first use, so tokens are only
+   * valid in the runtime that minted them. Set the same key wherever tokens
+   * minted elsewhere must verify.
+   *
+   * @param key Secret key material, an HMAC CryptoKey, or null to go back to a random key
+   */
+  setKey: (key: string | CryptoKey | null) => void;
 }
 
+/**
+ * Options for delegating permissions with a capability token
+ */
+export type DelegateOptions = Omit<MintCapabilityOptions, 'permissions' | 'issuer'>;
+
 /**
  * Permission API interface
  */
@@ -132,9 +679,22 @@ export interface PermissionAPI {
   request: (request: PermissionRequest) => Promise<PermissionResult>;
 
   /**
-   * Check if a permission exists
+   * Check if a permission exists, or if a capability token grants it, unless the policy denies it
    */
-  check: (type: string, access: string[], scope?: string) => Promise<boolean>;
+  check: (type: string, access: string[], scope?: string, token?: string) => Promise<boolean>;
+
+  /**
+   * Renew a grant, re-prompting or renewing automatically as the permission policy says
+   * Grants that have already expired aren't renewed; request them again instead.
+   */
+  renew: (type: string, access?: string[], scope?: string) => Promise<PermissionResult>;
+
+  /**
+   * Mint a capability token delegating some of the principal's permissions to another principal
+   * A parent token is only delegated further by its holder; the host, which holds no
+   * grants, mints tokens with its capability authority instead.
+   */
+  delegate: (permissions: PermissionSpec[], options: DelegateOptions) => Promise<string>;
 
   /**
    * Revoke a permission
@@ -146,3 +706,47 @@ export interface PermissionAPI {
    */
   getAll: () => Promise<Record<string, PermissionResult>>;
 }
+
+/**
+ * Options for scheduled permission expiry
+ */
+export interface PermissionExpiryOptions {
+  /**
+   * Milliseconds before a grant expires to publish `permission:expiring`
+   * @default 3600000
+   */
+  warnBefore?: number;
+
+  /**
+   * Renew grants with `permissions.renew` when they are about to expire (default: false)
+   */
+  autoRenew?: boolean;
+}
+
+/**
+ * Payload of the `permission:expiring` event
+ */
+export interface PermissionExpiringEvent {
+  grant: PermissionGrant;
+
+  /**
+   * Milliseconds until the grant expires
+   */
+  expiresIn: number;
+}
+
+/**
+ * Scheduled permission expiry, returned by `startPermissionExpiry`
+ */
+export interface PermissionExpiry {
+  /**
+   * Expire due grants and warn about expiring ones now
+   * @returns Number of grants expired
+   */
+  sweep(): Promise<number>;
+
+  /**
+   * Stop scheduling
+   */
+  stop(): void;
+}
@@ -0,0 +1,38 @@
+import { useState, useEffect } from 'react';
+import { PendingPermissionRequest } from './types';
+import { getPendingPermissionRequests, subscribePendingPermissionRequests } from './consent';
+
+/**
+ * Hook for the permission requests waiting for an answer from the consent provider
+ *
+ * Lists requests from the host and from every app, plugin and agent, so host
+ * UIs can show what is waiting for the user.
+ *
+ * @returns The pending requests, oldest first
+ *
+ * @example
+ * ```tsx
+ * const pending = usePendingPermissionRequests();
+ *
+ * return (
+ *   <ul>
+ *     {pending.map(({ id, request, principal }) => (
+ *       <li key={id}>
+ *         {principal ? principal.id : 'This page'} wants {request.access.join(', ')} access to{' '}
+ *         {request.type}
+ *       </li>
+ *     ))}
+ *   </ul>
+ * );
+ * ```
+ */
+export function usePendingPermissionRequests(): PendingPermissionRequest[] {
+  const [pending, setPending] = useState<PendingPermissionRequest[]>(getPendingPermissionRequests);
+
+  useEffect(() => {
+    setPending(getPendingPermissionRequests());
+    return subscribePendingPermissionRequests(setPending);
+  }, []);
+
+  return pending;
+}
@@ -0,0 +1,182 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import {
+  PermissionAuditRecord,
+  PermissionRequest,
+  PermissionResult,
+  PermissionStatus,
+  UsePermissionOptions,
+  UsePermissionResult,
+} from './types';
+import { PermissionsManager, coversRequest, getPermissionPrincipalKey } from './permissions';
+import { events } from '../events';
+
+/**
+ * Longest delay setTimeout supports, in milliseconds
+ */
+const MAX_TIMEOUT = 2147483647;
+
+/**
+ * Hook for the live state of one permission
+ *
+ * The status follows grants, denials, revocations and expiry made anywhere
+ * through the permissions API, for the host or for the given principal.
+ *
+ * @param type - Permission type, e.g. 'memory'
+ * @param access - Access levels needed
+ * @param scope - Scope of the permission
+ * @param options - Principal the permission belongs to, and the purpose and duration of requests
+ * @returns A UsePermissionResult with the status and functions to request and revoke the permission
+ *
+ * @example
+ * ```tsx
+ * const { status, request, revoke } = usePermission('memory', ['read'], 'conversation', {
+ *   purpose: 'Show your saved notes',
+ * });
+ *
+ * if (status !== 'granted') {
+ *   return <button onClick={request}>Allow access to notes</button>;
+ * }
+ * ```
+ */
+export function usePermission(
+  type: string,
+  access: string[],
+  scope: PermissionRequest['scope'],
+  options: UsePermissionOptions = {}
+): UsePermissionResult {
+  const { principal, purpose, duration } = options;
+  const principalKey = getPermissionPrincipalKey(principal);
+  const accessKey = [...access].sort().join(',');
+  const [state, setState] = useState<{ status: PermissionStatus; expiresAt?: number }>({
+    status: 'prompt',
+  });
+  const [loading, setLoading] = useState<boolean>(true);
+  const isMounted = useRef(true);
+
+  const permissions = useMemo(() => new PermissionsManager(principal), [principalKey]);
+  const levels = useMemo(() => (accessKey ? accessKey.split(',') : []), [accessKey]);
+
+  /**
+   * Check whether an audit record is about this permission
+   */
+  const isAbout = useCallback(
+    (record: PermissionAuditRecord): boolean => {
+      return (
+        getPermissionPrincipalKey(record.principal) === principalKey &&
+        record.request.type === type &&
+        (record.request.scope || '*') === (scope || '*')
+      );
+    },
+    [principalKey, type, scope]
+  );
+
+  const findGrants = useCallback(async (): Promise<PermissionResult[]> => {
+    const grants = await permissions.getAll();
+    return Object.values(grants).filter(grant => coversRequest(grant, type, levels, scope));
+  }, [permissions, type, levels, scope]);
+
+  const refresh = useCallback(async () => {
+    const granted = await permissions.check(type, levels, scope);
+    const [grant] = granted ? await findGrants() : [];
+
+    if (!isMounted.current) {
+      return;
+    }
+
+    setState(prev => {
+      if (granted) {
+        return { status: 'granted', expiresAt: grant?.expiresAt };
+      }
+      if (
+        prev.status === 'granted' &&
+        prev.expiresAt !== undefined &&
+        prev.expiresAt <= Date.now()
+      ) {
+        return { status: 'expired' };
+      }
+      // Denials and expiry stand until the permission is granted again
+      return prev.status === 'granted' ? { status: 'prompt' } : prev;
+    });
+    setLoading(false);
+  }, [permissions, type, levels, scope, findGrants]);
+
+  useEffect(() => {
+    isMounted.current = true;
+    setState({ status: 'prompt' });
+    setLoading(true);
+
+    const unsubscribers = [
+      events.subscribe<PermissionAuditRecord>('permission:granted', record => {
+        if (isAbout(record)) {
+          refresh();
+        }
+      }),
+      events.subscribe<PermissionAuditRecord>('permission:revoked', record => {
+        if (isAbout(record)) {
+          refresh();
+        }
+      }),
+      events.subscribe<PermissionAuditRecord>('permission:denied', record => {
+        if (isAbout(record) && record.request.access?.some(level => levels.includes(level))) {
+          setState(prev => (prev.status === 'granted' ? prev : { status: 'denied' }));
+        }
+      }),
+      events.subscribe<PermissionAuditRecord>('permission:checked', record => {
+        // Expired grants are found and removed by checks
+        if (isAbout(record) && record.source === 'expired') {
+          setState({ status: 'expired' });
+        }
+      }),
+      events.subscribe<PermissionAuditRecord>('permission:expired', record => {
+        // Scheduled expiry and ended sessions
+        if (isAbout(record)) {
+          refresh();
+        }
+      }),
+    ];
+    refresh();
+
+    return () => {
+      isMounted.current = false;
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+    };
+  }, [refresh, isAbout, levels]);
+
+  // Re-check when the grant expires
+  useEffect(() => {
+    if (state.status !== 'granted' || state.expiresAt === undefined) {
+      return;
+    }
+
+    const timer = setTimeout(
+      () => void refresh(),
+      Math.min(Math.max(state.expiresAt - Date.now() + 1, 0), MAX_TIMEOUT)
+    );
+    return () => clearTimeout(timer);
+  }, [state.status, state.expiresAt, refresh]);
+
+  const request = useCallback(async (): Promise<PermissionResult> => {
+    const result = await permissions.request({ type, access: levels, scope, purpose, duration });
+    await refresh();
+    return result;
+  }, [permissions, type, levels, scope, purpose, duration, refresh]);
+
+  const revoke = useCallback(async (): Promise<void> => {
+    for (const grant of await findGrants()) {
+      await permissions.revoke(
+        grant.request.type,
+        grant.access || grant.request.access,
+        grant.request.scope
+      );
+    }
+    await refresh();
+  }, [permissions, findGrants, refresh]);
+
+  return {
+    status: state.status,
+    loading,
+    expiresAt: state.status === 'granted' ? state.expiresAt : undefined,
+    request,
+    revoke,
+  };
+}
@@ -5,7 +5,8 @@ import { permissions } from './permissions';
 /**
  * Hook for managing permissions in Vibing AI apps
  *
- * @returns PermissionHook object with functions to request, check, and manage permissions
+ * @returns PermissionHook object with functions to request, check, and manage permissions,
+ *   and the requests made through it that are still pending
  *
  * @example
  * ```tsx
@@ -31,7 +32,7 @@ import { permissions } from './permissions';
  * ```
  */
 export function usePermissions(): PermissionHook {
-  const [_pendingRequests, setPendingRequests] = useState<PermissionRequest[]>([]);
+  const [pendingRequests, setPendingRequests] = useState<PermissionRequest[]>([]);
 
   /**
    * Request a single permission
@@ -101,5 +102,6 @@ export function usePermissions(): PermissionHook {
     check,
     requestAll,
     revoke,
+    pendingRequests,
   };
 }
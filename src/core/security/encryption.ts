@@ -0,0 +1,213 @@
+/**
+ * AES-GCM encryption and key management shared by secure storage and memory
+ */
+import { ConfigurationError, SDKError } from '../errors';
+
+/**
+ * Encryption key material or a method of obtaining it
+ */
+export type EncryptionKeySource = string | (() => Promise<string>);
+
+/**
+ * Supplies the AES-GCM key used to encrypt and decrypt values
+ *
+ * Implement it to fetch keys from a key management service or a
+ * platform keychain instead of deriving them from key material.
+ */
+export interface EncryptionKeyProvider {
+  /**
+   * Get the key, an AES-GCM CryptoKey usable for encrypt and decrypt
+   */
+  getKey(): Promise<CryptoKey>;
+}
+
+/**
+ * Options for deriving keys from key material
+ */
+export interface KeyProviderOptions {
+  /**
+   * Salt mixed into the derived key
+   * Use a different salt per store so a key can't be reused across stores.
+   * @default 'vibing-ai'
+   */
+  salt?: string;
+
+  /**
+   * PBKDF2 iterations
+   * @default 100000
+   */
+  iterations?: number;
+}
+
+/**
+ * Prefix identifying values produced by encryptString
+ */
+const ENCRYPTED_PREFIX = 'aes-gcm:v1:';
+
+/**
+ * Length in bytes of the random initialization vector of each value
+ */
+const IV_LENGTH = 12;
+
+/**
+ * Get WebCrypto's SubtleCrypto
+ * @throws ConfigurationError if WebCrypto isn't available
+ */
+const getSubtle = (): SubtleCrypto => {
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) {
+    throw new ConfigurationError('Encryption requires the WebCrypto API', {
+      code: 'ENCRYPTION_UNAVAILABLE',
+    });
+  }
+  return subtle;
+};
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+const fromBase64 = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+/**
+ * Creates a key provider that derives an AES-GCM key from key material with PBKDF2
+ * The key is derived once, on first use.
+ * @param source Key material or a function that resolves to it
+ * @param options Salt and iteration count
+ * @example
+ * ```ts
+ * const keyProvider = createKeyProvider(() => fetchUserSecret(), { salt: 'my-app' });
+ * const ciphertext = await encryptString(await keyProvider.getKey(), 'secret');
+ * ```
+ */
+export function createKeyProvider(
+  source: EncryptionKeySource,
+  options: KeyProviderOptions = {}
+): EncryptionKeyProvider {
+  const { salt = 'vibing-ai', iterations = 100000 } = options;
+  let key: Promise<CryptoKey> | null = null;
+
+  const deriveKey = async (): Promise<CryptoKey> => {
+    const subtle = getSubtle();
+    const material = typeof source === 'function' ? await source() : source;
+
+    if (!material) {
+      throw new ConfigurationError('Encryption key material is empty', {
+        code: 'ENCRYPTION_KEY_INVALID',
+      });
+    }
+
+    const encoder = new TextEncoder();
+    const baseKey = await subtle.importKey('raw', encoder.encode(material), 'PBKDF2', false, [
+      'deriveKey',
+    ]);
+
+    return subtle.deriveKey(
+      { name: 'PBKDF2', salt: encoder.encode(salt), iterations, hash: 'SHA-256' },
+      baseKey,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    );
+  };
+
+  return {
+    getKey(): Promise<CryptoKey> {
+      if (!key) {
+        // Retry the derivation on the next call if it fails
+        key = deriveKey().catch(e => {
+          key = null;
+          throw e;
+        });
+      }
+      return key;
+    },
+  };
+}
+
+/**
+ * Check whether a string was produced by encryptString
+ */
+export const isEncryptedString = (value: unknown): value is string => {
+  return typeof value === 'string' && value.startsWith(ENCRYPTED_PREFIX);
+};
+
+/**
+ * Get the AES-GCM parameters of a value
+ */
+const getParams = (iv: Uint8Array, additionalData?: string): AesGcmParams => {
+  return additionalData === undefined
+    ? { name: 'AES-GCM', iv }
+    : { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(additionalData) };
+};
+
+/**
+ * Encrypt a string with AES-GCM under a fresh random IV
+ * @param key AES-GCM key
+ * @param plaintext String to encrypt
+ * @param additionalData Context the ciphertext is bound to, such as its storage key, which
+ *   must be passed again to decrypt it so ciphertexts can't be moved between keys
+ * @returns The IV and ciphertext, base64 encoded behind a format prefix
+ */
+export async function encryptString(
+  key: CryptoKey,
+  plaintext: string,
+  additionalData?: string
+): Promise<string> {
+  const subtle = getSubtle();
+  const iv = globalThis.crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const ciphertext = await subtle.encrypt(
+    getParams(iv, additionalData),
+    key,
+    new TextEncoder().encode(plaintext)
+  );
+
+  return `${ENCRYPTED_PREFIX}${toBase64(iv)}:${toBase64(new Uint8Array(ciphertext))}`;
+}
+
+/**
+ * Decrypt a string produced by encryptString
+ * @param key AES-GCM key
+ * @param payload String produced by encryptString
+ * @param additionalData Context the string was encrypted with
+ * @throws SDKError with code DECRYPTION_FAILED if the key or context is wrong or the data was
+ *   tampered with
+ */
+export async function decryptString(
+  key: CryptoKey,
+  payload: string,
+  additionalData?: string
+): Promise<string> {
+  const subtle = getSubtle();
+
+  try {
+    if (!isEncryptedString(payload)) {
+      throw new Error('Value is not in the encrypted format');
+    }
+
+    const [iv, ciphertext] = payload.substring(ENCRYPTED_PREFIX.length).split(':');
+    const plaintext = await subtle.decrypt(
+      getParams(fromBase64(iv), additionalData),
+      key,
+      fromBase64(ciphertext)
+    );
+
+    return new TextDecoder().decode(plaintext);
+  } catch (e) {
+    throw new SDKError('Failed to decrypt value: the key is wrong or the data was tampered with', {
+      code: 'DECRYPTION_FAILED',
+      cause: e instanceof Error ? e : undefined,
+    });
+  }
+}
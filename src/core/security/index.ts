@@ -5,6 +5,14 @@
 
 export * from './csrf';
 export * from './rate-limit';
+export * from './encryption';
+
+import { EncryptionKeySource, createKeyProvider, decryptString, encryptString } from './encryption';
+
+/**
+ * Prefix of values stored without an encryption key
+ */
+const LEGACY_PREFIX = 'encrypted:';
 
 /**
  * Options for creating a secure store
@@ -12,8 +20,18 @@ export * from './rate-limit';
 export interface SecureStoreOptions {
   /**
    * Encryption key or method of obtaining it
+   * When set, values are encrypted with AES-GCM under a key derived from it, and values
+   * stored before a key was set are only read with `migrateUnencrypted`.
    */
-  encryptionKey?: string | (() => Promise<string>);
+  encryptionKey?: EncryptionKeySource;
+
+  /**
+   * Read values stored before an encryption key was set, encrypting them as they're read
+   * Enable it once to migrate them; otherwise reading them fails, so unencrypted values
+   * written to storage can't stand in for encrypted ones.
+   * @default false
+   */
+  migrateUnencrypted?: boolean;
 
   /**
    * Whether to enable tamper detection
@@ -130,17 +148,19 @@ export interface SecureStore {
  */
 export function createSecureStore(options: SecureStoreOptions = {}): SecureStore {
   const namespace = options.namespace || 'vibing-secure';
+  const keyProvider = options.encryptionKey
+    ? createKeyProvider(options.encryptionKey, { salt: namespace })
+    : null;
 
-  // Default implementation uses localStorage with encryption
-  // In a real implementation, this would use a proper encryption library
   const store: SecureStore = {
     async setItem<T>(key: string, value: T): Promise<SecurityResult> {
       try {
         const fullKey = `${namespace}:${key}`;
         const serialized = JSON.stringify(value);
 
-        // In a real implementation, this would encrypt the data
-        const encrypted = `encrypted:${serialized}`;
+        const encrypted = keyProvider
+          ? await encryptString(await keyProvider.getKey(), serialized, fullKey)
+          : `${LEGACY_PREFIX}${serialized}`;
 
         // Use the provided storage driver or localStorage
         if (options.storageDriver) {
@@ -174,18 +194,37 @@ export function createSecureStore(options: SecureStoreOptions = {}): SecureStore
           return { success: true, data: null };
         }
 
-        // In a real implementation, this would decrypt the data
-        // and verify tampering if enabled
-        if (!encrypted.startsWith('encrypted:')) {
+        // AES-GCM rejects tampered data, and data moved from another key, when decrypting
+        if (keyProvider && !encrypted.startsWith(LEGACY_PREFIX)) {
+          const serialized = await decryptString(await keyProvider.getKey(), encrypted, fullKey);
+          return { success: true, data: JSON.parse(serialized) as T };
+        }
+
+        if (keyProvider && !options.migrateUnencrypted) {
+          return {
+            success: false,
+            error: 'Data is not encrypted',
+          };
+        }
+
+        if (!encrypted.startsWith(LEGACY_PREFIX)) {
           return {
             success: false,
             error: 'Data appears to be tampered with',
           };
         }
 
-        const serialized = encrypted.substring(10); // Remove 'encrypted:'
+        const serialized = encrypted.substring(LEGACY_PREFIX.length);
         const data = JSON.parse(serialized) as T;
 
+        // Data stored before the key was configured is encrypted on its first read
+        if (keyProvider) {
+          const migrated = await store.setItem(key, data);
+          if (!migrated.success) {
+            return { success: false, error: migrated.error };
+          }
+        }
+
         return { success: true, data };
       } catch (e) {
         return {
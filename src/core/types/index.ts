@@ -13,6 +13,10 @@ export interface SDKConfig {
 
 // Event system types
 export type EventHandler<T = any> = (data: T) => void;
+
+/**
+ * Event map with any event name and payload, the default of `createEventBus`
+ */
 export interface EventMap {
   [key: string]: any;
 }
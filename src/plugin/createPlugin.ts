@@ -7,6 +7,11 @@ import {
   ActionHandler,
 } from './types';
 import { logger } from '../core/utils';
+import { PermissionsManager } from '../core/permissions/permissions';
+import { createPermissionGuard } from '../core/permissions/guard';
+import { compilePermissions, parsePermission } from '../core/permissions/grammar';
+import { memory } from '../core/memory/memory';
+import { PluginId } from '../types/utilities';
 
 /**
  * Validates a plugin configuration
@@ -33,6 +38,10 @@ function validatePluginConfig(config: PluginConfig): void {
 
   // Validate permissions format
   for (const permission of config.permissions) {
+    // Strings are checked against the permission grammar when they are compiled
+    if (typeof permission === 'string') {
+      continue;
+    }
     if (!permission.type || typeof permission.type !== 'string') {
       throw new Error('Each permission must have a valid type string');
     }
@@ -83,7 +92,8 @@ function validatePluginConfig(config: PluginConfig): void {
  *   version: '1.0.0',
  *   description: 'A helpful plugin',
  *   permissions: [
- *     { type: 'memory', access: ['read', 'write'] }
+ *     { type: 'memory', access: ['read', 'write'] },
+ *     'surfaces.cards:*'
  *   ],
  *   surfaces: {
  *     cards: {
@@ -121,42 +131,45 @@ export function createPlugin(config: PluginConfig): PluginInstance {
   // Validate the configuration
   validatePluginConfig(config);
 
+  // Grants are bound to the plugin, so they don't apply to other apps, plugins or agents
+  const principal = { kind: 'plugin' as const, id: config.id as PluginId };
+  const permissions = new PermissionsManager(principal);
+
+  // Context calls need the permissions the plugin declared
+  const guard = createPermissionGuard({
+    principal,
+    permissions,
+    declared: compilePermissions(config.permissions),
+    promptOnFirstUse: config.promptOnFirstUse,
+  });
+
   // Initialize context
   const context: PluginContext = {
-    memory: {
-      get: async (key: string) => {
-        logger.log(`Getting memory for key: ${key}`);
-        return null;
-      },
-      set: async (key: string, _value: unknown) => {
-        logger.log(`Setting memory for key: ${key}`);
-      },
-      delete: async (key: string) => {
-        logger.log(`Deleting memory for key: ${key}`);
-      },
-    },
+    // Memory is confined to the plugin's namespace
+    memory: guard.memory(memory.forPrincipal(principal, { permissions })),
     permissions: {
       request: async permission => {
         logger.log(`Requesting permission: ${permission.type}:${permission.access.join(',')}`);
-        return true;
+        return (await permissions.request(permission)).granted;
       },
-      check: async permission => {
-        logger.log(`Checking permission: ${permission}`);
-        return true;
+      check: async (permission, token) => {
+        const { type, access, scope } = parsePermission(permission);
+        return permissions.check(type, access, scope, token);
       },
+      delegate: (specs, options) => permissions.delegate(specs, options),
     },
-    events: {
-      publish: (eventName, _payload) => {
+    events: guard.events({
+      publish: (eventName: string, _payload?: unknown) => {
         logger.log(`Publishing event: ${eventName}`);
       },
-      subscribe: (eventName, _callback) => {
+      subscribe: (eventName: string, _callback: (payload: unknown) => void) => {
         logger.log(`Subscribing to event: ${eventName}`);
         return () => {
           logger.log(`Unsubscribing from event: ${eventName}`);
         };
       },
-    },
-    surfaces: {}, // This would be initialized with actual surface interfaces
+    }),
+    surfaces: guard.surfaces({}), // This would be initialized with actual surface interfaces
   };
 
   // Create plugin instance
@@ -2,7 +2,8 @@
  * Type definitions for plugin creation and management
  */
 import { ReactNode } from 'react';
-import { PermissionRequest } from '../core/permissions/types';
+import { DelegateOptions, PermissionRequest, PermissionSpec } from '../core/permissions/types';
+import { PrincipalMemory } from '../core/memory/types';
 
 /**
  * JSON Schema definition for function parameters
@@ -126,20 +127,26 @@ export interface CommandInterfaceConfig {
  */
 export interface PluginContext {
   /**
-   * Access to memory system
+   * Memory confined to the plugin's namespace
    */
-  memory: {
-    get: (key: string) => Promise<unknown>;
-    set: (key: string, value: unknown) => Promise<void>;
-    delete: (key: string) => Promise<void>;
-  };
+  memory: PrincipalMemory;
 
   /**
    * Access to permissions system
    */
   permissions: {
     request: (permission: PermissionRequest) => Promise<boolean>;
-    check: (permission: string) => Promise<boolean>;
+
+    /**
+     * Check a permission string such as 'memory:read:conversation',
+     * optionally against a capability token delegated to this plugin
+     */
+    check: (permission: string, token?: string) => Promise<boolean>;
+
+    /**
+     * Delegate permissions this plugin holds to another principal with a capability token
+     */
+    delegate: (permissions: PermissionSpec[], options: DelegateOptions) => Promise<string>;
   };
 
   /**
@@ -181,9 +188,16 @@ export interface PluginConfig {
   description?: string;
 
   /**
-   * Required permissions for the plugin to function
+   * Required permissions for the plugin to function,
+   * as permission strings such as 'memory:read' or permission requests
+   */
+  permissions: PermissionSpec[];
+
+  /**
+   * Request declared permissions the first time the context needs them,
+   * instead of throwing a PermissionError (default: false)
    */
-  permissions: PermissionRequest[];
+  promptOnFirstUse?: boolean;
 
   /**
    * Surface configurations used by this plugin
@@ -0,0 +1,70 @@
+import { createAgent } from '../../src/agent/createAgent';
+import { AgentConfig } from '../../src/agent/types';
+import { createPolicyConsentProvider, setConsentProvider } from '../../src/core/permissions';
+import { PermissionError } from '../../src/core/errors';
+
+const createConfig = (overrides: Partial<AgentConfig> = {}): AgentConfig => ({
+  id: 'test-agent',
+  name: 'Test Agent',
+  version: '1.0.0',
+  domain: 'testing',
+  capabilities: ['answer'],
+  permissions: [],
+  processQuery: async () => ({ text: 'ok' }),
+  ...overrides,
+});
+
+describe('createAgent', () => {
+  describe('Vector memory', () => {
+    beforeEach(() => {
+      localStorage.clear();
+      setConsentProvider(createPolicyConsentProvider('grant'));
+    });
+
+    afterEach(() => {
+      setConsentProvider(null);
+    });
+
+    it('should expose vector memory in the query context', async () => {
+      const agent = createAgent(
+        createConfig({
+          permissions: ['memory:read,write'],
+          promptOnFirstUse: true,
+          processQuery: async (query, context) => {
+            const contextItems = await context.memory.vectors.search(query, { topK: 1 });
+            return { text: contextItems[0]?.content ?? 'nothing found' };
+          },
+        })
+      );
+
+      await agent.getContext().memory.vectors.upsert('faq-1', 'Refunds take five days');
+
+      expect((await agent.processQuery('how long do refunds take')).text).toBe(
+        'Refunds take five days'
+      );
+    });
+
+    it('should use the configured embedding function', async () => {
+      const embed = jest.fn(() => [1, 0]);
+      const agent = createAgent(
+        createConfig({
+          permissions: ['memory:write'],
+          promptOnFirstUse: true,
+          vectorMemory: { embed },
+        })
+      );
+
+      await agent.getContext().memory.vectors.upsert('doc', 'text');
+
+      expect(embed).toHaveBeenCalledWith('text');
+    });
+
+    it('should need a memory permission', async () => {
+      const agent = createAgent(createConfig());
+
+      await expect(
+        agent.getContext().memory.vectors.upsert('faq-1', 'Refunds take five days')
+      ).rejects.toBeInstanceOf(PermissionError);
+    });
+  });
+});
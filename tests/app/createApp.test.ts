@@ -47,6 +47,16 @@ describe('App Creation', () => {
     expect(() => createApp(invalidConfig)).toThrow('App name is required');
   });
 
+  it('should refuse to register a plugin without an id', () => {
+    // Arrange
+    const app = createApp({ name: 'Test App' });
+
+    // Act & Assert
+    expect(() => app.registerPlugin?.({ config: { name: 'Nameless' } })).toThrow(
+      expect.objectContaining({ name: 'ConfigurationError', code: 'PLUGIN_ID_REQUIRED' })
+    );
+  });
+
   it('should register lifecycle callbacks', () => {
     // Arrange
     const initCallback = jest.fn();
@@ -0,0 +1,103 @@
+import {
+  SDKError,
+  ValidationError,
+  PermissionError,
+  NetworkError,
+  TimeoutError,
+  NotFoundError,
+  ConfigurationError,
+  QuotaExceededError,
+  isSDKError,
+  createError,
+  formatError,
+  getErrorCode,
+  retry,
+  fallback,
+} from '../../src/core/errors';
+
+describe('Core error handling', () => {
+  describe('createError', () => {
+    it('should create each error type with its default code', () => {
+      expect(createError({ type: 'validation', message: 'bad' })).toBeInstanceOf(ValidationError);
+      expect(
+        createError({ type: 'permission', message: 'no', requiredPermission: 'memory:write' })
+      ).toBeInstanceOf(PermissionError);
+      expect(createError({ type: 'network', message: 'offline' })).toBeInstanceOf(NetworkError);
+      expect(createError({ type: 'timeout', message: 'slow', timeoutMs: 10 })).toBeInstanceOf(
+        TimeoutError
+      );
+      expect(
+        createError({ type: 'notFound', message: 'gone', resource: 'note', identifier: '1' })
+      ).toBeInstanceOf(NotFoundError);
+      expect(createError({ type: 'configuration', message: 'misconfigured' })).toBeInstanceOf(
+        ConfigurationError
+      );
+      expect(createError({ type: 'generic', message: 'oops' }).code).toBe('SDK_ERROR');
+    });
+
+    it('should create quota errors for a storage backend', () => {
+      const error = createError({ type: 'quota', message: 'full', storage: 'indexedDB' });
+
+      expect(error).toBeInstanceOf(QuotaExceededError);
+      expect(error).toBeInstanceOf(SDKError);
+      expect(error.code).toBe('QUOTA_EXCEEDED');
+      expect(error.retryable).toBe(false);
+      expect((error as QuotaExceededError).storage).toBe('indexedDB');
+    });
+
+    it('should require the type-specific fields', () => {
+      expect(() => createError({ type: 'permission', message: 'no' })).toThrow();
+      expect(() => createError({ type: 'timeout', message: 'slow' })).toThrow();
+      expect(() => createError({ type: 'notFound', message: 'gone' })).toThrow();
+      expect(() => createError({ type: 'quota', message: 'full' })).toThrow();
+    });
+  });
+
+  describe('error utilities', () => {
+    it('should identify SDK errors and their codes', () => {
+      const error = new NetworkError('offline');
+
+      expect(isSDKError(error)).toBe(true);
+      expect(isSDKError(new Error('plain'))).toBe(false);
+      expect(getErrorCode(error)).toBe('NETWORK_ERROR');
+      expect(getErrorCode('nope')).toBe('UNKNOWN_ERROR');
+    });
+
+    it('should format errors', () => {
+      const error = new SDKError('broken', { code: 'X', context: { id: 1 } });
+
+      expect(formatError(error)).toBe('[X] broken');
+      expect(formatError(error, { includeContext: true })).toContain('"id": 1');
+      expect(formatError(new Error('plain'))).toBe('plain');
+      expect(formatError(42)).toBe('42');
+    });
+  });
+
+  describe('retry and fallback', () => {
+    it('should retry retryable errors', async () => {
+      const operation = jest
+        .fn()
+        .mockRejectedValueOnce(new NetworkError('offline'))
+        .mockResolvedValue('ok');
+      const onRetry = jest.fn();
+
+      await expect(retry(operation, { retryDelay: 0, onRetry })).resolves.toBe('ok');
+      expect(operation).toHaveBeenCalledTimes(2);
+      expect(onRetry).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry non-retryable errors', async () => {
+      const operation = jest.fn().mockRejectedValue(new ValidationError('bad'));
+
+      await expect(retry(operation, { retryDelay: 0 })).rejects.toBeInstanceOf(ValidationError);
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fall back to a value or a function result', async () => {
+      const failing = () => Promise.reject(new Error('fail'));
+
+      await expect(fallback(failing, 'value')).resolves.toBe('value');
+      await expect(fallback(failing, () => 'computed')).resolves.toBe('computed');
+    });
+  });
+});
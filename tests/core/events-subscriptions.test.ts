@@ -0,0 +1,138 @@
+import { createEventBus, events, matchesEventPattern } from '../../src/core/events';
+import { TimeoutError } from '../../src/core/errors';
+
+interface PipelineEvents {
+  'data:available': { rows: number };
+  'data:requested': { query: string };
+  'data:cache:cleared': { keys: number };
+  'analysis:complete': { summary: string };
+}
+
+describe('Event subscriptions', () => {
+  afterEach(() => {
+    events.clearAll();
+    jest.useRealTimers();
+  });
+
+  it('should match glob patterns by segment', () => {
+    expect(matchesEventPattern('data:*', 'data:available')).toBe(true);
+    expect(matchesEventPattern('data:*', 'data:cache:cleared')).toBe(false);
+    expect(matchesEventPattern('data:**', 'data:cache:cleared')).toBe(true);
+    expect(matchesEventPattern('*:complete', 'analysis:complete')).toBe(true);
+    expect(matchesEventPattern('**', 'analysis:complete')).toBe(true);
+    expect(matchesEventPattern('data.*', 'data:available')).toBe(false);
+    expect(matchesEventPattern('data:available', 'data:available')).toBe(true);
+  });
+
+  it('should deliver events to wildcard and namespace subscribers', () => {
+    const pipeline = createEventBus<PipelineEvents>();
+    const data: string[] = [];
+    const all: string[] = [];
+
+    pipeline.subscribe('data:*', (payload, { name }) => {
+      // Patterns receive the payloads of every event they can match
+      data.push(`${name}=${'rows' in payload ? payload.rows : '?'}`);
+    });
+    pipeline.subscribe('**', (_payload, { name }) => all.push(name));
+
+    pipeline.publish('data:available', { rows: 3 });
+    pipeline.publish('data:cache:cleared', { keys: 1 });
+    pipeline.publish('analysis:complete', { summary: 'ok' });
+
+    expect(data).toEqual(['data:available=3']);
+    expect(all).toEqual(['data:available', 'data:cache:cleared', 'analysis:complete']);
+  });
+
+  it('should return unsubscribe functions from on and once', () => {
+    const listener = jest.fn();
+    const unsubscribe = events.on('test:on', listener);
+    const unsubscribeOnce = events.once('test:once', listener);
+
+    unsubscribe();
+    unsubscribeOnce();
+    events.publish('test:on', 1);
+    events.publish('test:once', 2);
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should call once listeners for the first event only', () => {
+    const listener = jest.fn(() => events.publish('test:event', 'nested'));
+    events.once('test:*', listener);
+
+    events.publish('test:event', 'first');
+    events.publish('test:event', 'second');
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith('first', expect.objectContaining({ name: 'test:event' }));
+  });
+
+  it('should call listeners by priority and stop propagation', () => {
+    const calls: string[] = [];
+
+    events.subscribe('test:event', () => calls.push('default'));
+    events.subscribe('test:*', () => calls.push('high'), { priority: 10 });
+    events.subscribe('test:event', () => calls.push('low'), { priority: -1 });
+    events.subscribe('**', () => calls.push('default, later'));
+
+    events.publish('test:event', null);
+    expect(calls).toEqual(['high', 'default', 'default, later', 'low']);
+
+    calls.length = 0;
+    events.subscribe(
+      'test:event',
+      (_data, event) => {
+        calls.push('guard');
+        event.stopPropagation();
+      },
+      { priority: 5 }
+    );
+
+    events.publish('test:event', null);
+    expect(calls).toEqual(['high', 'guard']);
+  });
+
+  it('should resolve waitFor with the first event passing the filter', async () => {
+    const pipeline = createEventBus<PipelineEvents>();
+    const available = pipeline.waitFor('data:available', { filter: ({ rows }) => rows > 0 });
+
+    pipeline.publish('data:available', { rows: 0 });
+    pipeline.publish('data:available', { rows: 5 });
+    pipeline.publish('data:available', { rows: 7 });
+
+    await expect(available).resolves.toEqual({ rows: 5 });
+  });
+
+  it('should reject waitFor when the timeout passes', async () => {
+    jest.useFakeTimers();
+    const result = events.waitFor('analysis:complete', { timeout: 1000 });
+    const rejected = expect(result).rejects.toBeInstanceOf(TimeoutError);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    await rejected;
+    await expect(result).rejects.toMatchObject({ code: 'EVENT_TIMEOUT', timeoutMs: 1000 });
+  });
+
+  it('should reject waitFor when the filter throws', async () => {
+    const error = new Error('bad filter');
+    const result = events.waitFor('test:event', {
+      filter: () => {
+        throw error;
+      },
+    });
+
+    events.publish('test:event', null);
+
+    await expect(result).rejects.toBe(error);
+  });
+
+  it('should remove listeners of a pattern with off', () => {
+    const listener = jest.fn();
+    events.on('data:*', listener);
+    events.off('data:*', listener);
+
+    events.publish('data:available', {});
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
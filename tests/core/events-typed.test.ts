@@ -0,0 +1,106 @@
+import { renderHook, act } from '@testing-library/react-hooks';
+import { AppErrorEvent, createEventBus, events, useEvent, usePublish } from '../../src/core/events';
+
+interface ChatEvents {
+  'message:sent': { text: string };
+  'message:read': { id: string };
+}
+
+describe('Typed events', () => {
+  afterEach(() => {
+    events.clearAll();
+  });
+
+  it('should check event names and payloads against the event map', () => {
+    const chat = createEventBus<ChatEvents>();
+    const texts: string[] = [];
+
+    chat.subscribe('message:sent', ({ text }) => texts.push(text));
+    chat.publish('message:sent', { text: 'Hello' });
+
+    // @ts-expect-error unknown event names are rejected
+    chat.publish('message:deleted', { id: '1' });
+    // @ts-expect-error payloads must match the map
+    chat.publish('message:read', { text: 'Hello' });
+
+    expect(texts).toEqual(['Hello']);
+  });
+
+  it('should keep event buses separate', () => {
+    const chat = createEventBus<ChatEvents>();
+    const listener = jest.fn();
+
+    events.subscribe('message:sent', listener);
+    chat.publish('message:sent', { text: 'Hello' });
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should type the SDK events on the core bus and leave other names open', () => {
+    const phases: AppErrorEvent['phase'][] = [];
+    const custom = jest.fn();
+
+    events.subscribe('app:error', ({ phase }) => phases.push(phase));
+    events.subscribe<{ value: number }>('custom:event', ({ value }) => custom(value));
+
+    events.publish('app:error', { name: 'notes', phase: 'rendering', error: new Error('x') });
+    // @ts-expect-error payloads of SDK events are checked
+    events.publish('app:error', { name: 'notes', phase: 'mounting', error: null });
+    events.publish('custom:event', { value: 1 });
+
+    expect(phases).toEqual(['rendering', 'mounting']);
+    expect(custom).toHaveBeenCalledWith(1);
+  });
+
+  it('should subscribe components with useEvent until they unmount', () => {
+    const chat = createEventBus<ChatEvents>();
+    const texts: string[] = [];
+
+    const { rerender, unmount } = renderHook(
+      ({ suffix }) => useEvent('message:sent', ({ text }) => texts.push(text + suffix), chat),
+      { initialProps: { suffix: '' } }
+    );
+
+    chat.publish('message:sent', { text: 'one' });
+    rerender({ suffix: '!' });
+    chat.publish('message:sent', { text: 'two' });
+    unmount();
+    chat.publish('message:sent', { text: 'three' });
+
+    expect(texts).toEqual(['one', 'two!']);
+  });
+
+  it('should use the core bus by default', () => {
+    const names: string[] = [];
+    const { result } = renderHook(() => {
+      useEvent('app:initialized', ({ name }) => names.push(name));
+      return usePublish();
+    });
+
+    act(() => {
+      result.current('app:initialized', { name: 'notes' });
+    });
+
+    expect(names).toEqual(['notes']);
+  });
+
+  it('should return a stable publish function from usePublish', () => {
+    const chat = createEventBus<ChatEvents>();
+    const listener = jest.fn();
+    chat.subscribe('message:read', listener);
+
+    const { result, rerender } = renderHook(() => usePublish(chat));
+    const publish = result.current;
+    rerender();
+
+    expect(result.current).toBe(publish);
+    publish('message:read', { id: '1' });
+    // @ts-expect-error payloads must match the map
+    publish('message:read', { text: 'Hello' });
+
+    expect(listener).toHaveBeenCalledWith(
+      { id: '1' },
+      expect.objectContaining({ name: 'message:read' })
+    );
+  });
+});
@@ -16,7 +16,7 @@ describe('Core Event System', () => {
       // Test publishing
       const testData = { value: 42 };
       events.publish(eventName, testData);
-      expect(callback).toHaveBeenCalledWith(testData);
+      expect(callback).toHaveBeenCalledWith(testData, expect.objectContaining({ name: eventName }));
       
       // Test unsubscribe
       unsubscribe();
@@ -35,8 +35,8 @@ describe('Core Event System', () => {
       const testData = { test: true };
       events.publish(eventName, testData);
       
-      expect(callback1).toHaveBeenCalledWith(testData);
-      expect(callback2).toHaveBeenCalledWith(testData);
+      expect(callback1).toHaveBeenCalledWith(testData, expect.objectContaining({ name: eventName }));
+      expect(callback2).toHaveBeenCalledWith(testData, expect.objectContaining({ name: eventName }));
     });
     
     it('should handle errors in event listeners without breaking other listeners', () => {
@@ -76,7 +76,7 @@ describe('Core Event System', () => {
       events.on(eventName, callback);
       events.emit(eventName, 'test-data');
       
-      expect(callback).toHaveBeenCalledWith('test-data');
+      expect(callback).toHaveBeenCalledWith('test-data', expect.objectContaining({ name: eventName }));
       
       events.off(eventName, callback);
       events.emit(eventName, 'more-data');
@@ -199,7 +199,7 @@ describe('Core Event System', () => {
       
       publish(eventName, 'test-data');
       
-      expect(callback).toHaveBeenCalledWith('test-data');
+      expect(callback).toHaveBeenCalledWith('test-data', expect.objectContaining({ name: eventName }));
     });
     
     it('should handle undefined data', () => {
@@ -209,7 +209,7 @@ describe('Core Event System', () => {
       events.subscribe(eventName, callback);
       publish(eventName);
       
-      expect(callback).toHaveBeenCalledWith(undefined);
+      expect(callback).toHaveBeenCalledWith(undefined, expect.objectContaining({ name: eventName }));
     });
   });
 }); 
\ No newline at end of file
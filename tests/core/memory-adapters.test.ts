@@ -0,0 +1,207 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  MemoryManager,
+  createInMemoryAdapter,
+  createLocalStorageAdapter,
+  createSessionStorageAdapter,
+  createFileSystemAdapter,
+} from '../../src/core/memory';
+import { memoryStorageAdapter, useMemory } from '../../src/common/memory';
+
+describe('Memory storage adapters', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    sessionStorage.clear();
+  });
+
+  describe('MemoryManager with an adapter', () => {
+    it('should store, read and delete values through the adapter', async () => {
+      const adapter = createInMemoryAdapter();
+      const memory = new MemoryManager({ adapter });
+
+      await memory.set('greeting', { text: 'hello' });
+      expect(await memory.get('greeting')).toEqual({ text: 'hello' });
+      expect(await adapter.keys()).toEqual(['conversation_greeting']);
+
+      await memory.delete('greeting');
+      expect(await memory.get('greeting')).toBeUndefined();
+    });
+
+    it('should keep scopes separate', async () => {
+      const memory = new MemoryManager({ adapter: createInMemoryAdapter() });
+
+      await memory.set('theme', 'dark', { scope: 'global' });
+      await memory.set('theme', 'light', { scope: 'project' });
+
+      expect(await memory.get('theme', { scope: 'global' })).toBe('dark');
+      expect(await memory.get('theme', { scope: 'project' })).toBe('light');
+      expect(await memory.get('theme', { scope: 'conversation', fallback: 'none' })).toBe('none');
+    });
+
+    it('should drop expired items on read and query', async () => {
+      const adapter = createInMemoryAdapter();
+      const memory = new MemoryManager({ adapter });
+
+      await memory.set('draft', 'text', { scope: 'conversation', expiration: 1000 });
+      await memory.set('note', 'kept');
+
+      const now = Date.now();
+      const dateSpy = jest.spyOn(Date, 'now').mockReturnValue(now + 2000);
+
+      expect(await memory.query('')).toEqual({ note: 'kept' });
+      expect(await memory.get('draft')).toBeUndefined();
+      expect(await adapter.keys()).toEqual(['conversation_note']);
+
+      dateSpy.mockRestore();
+    });
+
+    it('should query keys by substring and RegExp', async () => {
+      const memory = new MemoryManager({ adapter: createInMemoryAdapter() });
+
+      await memory.set('task:1', 'a');
+      await memory.set('task:2', 'b');
+      await memory.set('note:1', 'c');
+
+      expect(await memory.query('task:')).toEqual({ 'task:1': 'a', 'task:2': 'b' });
+      expect(await memory.query(/:1$/)).toEqual({ 'task:1': 'a', 'note:1': 'c' });
+    });
+
+    it('should notify subscribers of writes and deletes', async () => {
+      const memory = new MemoryManager({ adapter: createInMemoryAdapter() });
+      const callback = jest.fn();
+      const unsubscribe = memory.subscribe('counter', callback);
+
+      await memory.set('counter', 1);
+      await memory.delete('counter');
+      unsubscribe();
+      await memory.set('counter', 2);
+
+      expect(callback.mock.calls.map(([value]) => value)).toEqual([1, undefined]);
+    });
+
+    it('should not share values with the in-memory adapter or its snapshots', async () => {
+      const memory = new MemoryManager({ adapter: createInMemoryAdapter() });
+      const settings = { theme: 'dark' };
+
+      await memory.set('settings', settings);
+      settings.theme = 'light';
+      const snapshot = await memory.snapshot();
+      const read = await memory.get<{ theme: string }>('settings');
+      if (read) {
+        read.theme = 'blue';
+      }
+
+      expect(await memory.get('settings')).toEqual({ theme: 'dark' });
+      expect(snapshot.entries.get('conversation_settings')?.value).toEqual({ theme: 'dark' });
+    });
+
+    it('should reject when the adapter fails to write', async () => {
+      const adapter = createInMemoryAdapter();
+      adapter.setItem = jest.fn().mockRejectedValue(new Error('disk full'));
+      const memory = new MemoryManager({ adapter });
+
+      await expect(memory.set('key', 'value')).rejects.toThrow('Failed to store memory');
+    });
+  });
+
+  describe('Web Storage adapters', () => {
+    it('should keep the vibing_memory_ key format in localStorage', async () => {
+      const memory = new MemoryManager({ adapter: createLocalStorageAdapter() });
+
+      await memory.set('user', { name: 'Ada' }, { scope: 'project' });
+
+      expect(JSON.parse(localStorage.getItem('vibing_memory_project_user')!)).toEqual({
+        value: { name: 'Ada' },
+        version: 1,
+      });
+      expect(await memory.get('user', { scope: 'project' })).toEqual({ name: 'Ada' });
+    });
+
+    it('should read raw values written by earlier versions', async () => {
+      localStorage.setItem('vibing_memory_project_user', '{"name":"Ada","version":2}');
+      const memory = new MemoryManager({ adapter: createLocalStorageAdapter() });
+
+      expect(await memory.get('user', { scope: 'project' })).toEqual({ name: 'Ada', version: 2 });
+    });
+
+    it('should read items written with expiration metadata', async () => {
+      localStorage.setItem(
+        'vibing_memory_conversation_token',
+        JSON.stringify({ value: 'abc', expiresAt: Date.now() + 60000 })
+      );
+      const memory = new MemoryManager({ adapter: createLocalStorageAdapter() });
+
+      expect(await memory.get('token')).toBe('abc');
+    });
+
+    it('should only list and clear keys with its prefix', async () => {
+      localStorage.setItem('unrelated', 'value');
+      const adapter = createLocalStorageAdapter({ prefix: 'test_' });
+
+      await adapter.setItem('a', { value: 1 });
+
+      expect(await adapter.keys()).toEqual(['a']);
+      await adapter.clear();
+      expect(await adapter.keys()).toEqual([]);
+      expect(localStorage.getItem('unrelated')).toBe('value');
+    });
+
+    it('should store sessionStorage items separately', async () => {
+      const memory = new MemoryManager({ adapter: createSessionStorageAdapter() });
+
+      await memory.set('step', 3);
+
+      expect(sessionStorage.getItem('vibing_memory_conversation_step')).toBe(
+        '{"value":3,"version":1}'
+      );
+      expect(localStorage.getItem('vibing_memory_conversation_step')).toBeNull();
+    });
+  });
+
+  describe('File system adapter', () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = mkdtempSync(join(tmpdir(), 'vibing-memory-'));
+    });
+
+    afterEach(() => {
+      rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should persist entries across manager instances', async () => {
+      const first = new MemoryManager({ adapter: createFileSystemAdapter({ directory }) });
+      await first.set('path/with:chars', [1, 2, 3], { scope: 'global' });
+
+      const second = new MemoryManager({ adapter: createFileSystemAdapter({ directory }) });
+      expect(await second.get('path/with:chars', { scope: 'global' })).toEqual([1, 2, 3]);
+      expect(await second.query('path')).toEqual({ 'path/with:chars': [1, 2, 3] });
+    });
+
+    it('should remove and clear entries', async () => {
+      const adapter = createFileSystemAdapter({ directory });
+
+      await adapter.setItem('a', { value: 1 });
+      await adapter.setItem('b', { value: 2 });
+      await adapter.removeItem('a');
+      await adapter.removeItem('missing');
+
+      expect(await adapter.getItem('a')).toBeNull();
+      expect(await adapter.keys()).toEqual(['b']);
+
+      await adapter.clear();
+      expect(await adapter.keys()).toEqual([]);
+    });
+  });
+
+  describe('common memory storage', () => {
+    it('should share storage keys with a memory manager on the same adapter', async () => {
+      const memory = new MemoryManager({ adapter: memoryStorageAdapter });
+      await memory.set('key', 'shared', { scope: 'project' });
+
+      expect(useMemory().getItem('key', { scope: 'project' })).toBe('shared');
+    });
+  });
+});
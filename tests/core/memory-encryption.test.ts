@@ -0,0 +1,157 @@
+import { webcrypto } from 'crypto';
+import { TextDecoder, TextEncoder } from 'util';
+import { renderHook, act } from '@testing-library/react-hooks';
+import {
+  MemoryManager,
+  createInMemoryAdapter,
+  InMemoryStorageAdapter,
+  memory,
+  useMemory,
+} from '../../src/core/memory';
+import { createKeyProvider } from '../../src/core/security/encryption';
+
+// jsdom implements neither SubtleCrypto nor the encoding API
+if (!globalThis.crypto?.subtle) {
+  Object.defineProperty(globalThis, 'crypto', { value: webcrypto, configurable: true });
+}
+Object.assign(globalThis, { TextEncoder, TextDecoder });
+
+describe('Memory encryption', () => {
+  let adapter: InMemoryStorageAdapter;
+
+  beforeEach(() => {
+    adapter = createInMemoryAdapter();
+  });
+
+  it('should store values of encrypted scopes as ciphertext', async () => {
+    const manager = new MemoryManager({
+      adapter,
+      encryption: { encryptionKey: 'correct horse', scopes: ['global'] },
+    });
+
+    await manager.set('token', { secret: 'abc123' }, { scope: 'global' });
+    await manager.set('theme', 'dark', { scope: 'project' });
+
+    const stored = adapter.getItemSync('global_token');
+    expect(stored?.value).toEqual({ $encrypted: expect.stringMatching(/^aes-gcm:v1:/) });
+    expect(JSON.stringify(stored)).not.toContain('abc123');
+    expect(adapter.getItemSync('project_theme')?.value).toBe('dark');
+
+    expect(await manager.get('token', { scope: 'global' })).toEqual({ secret: 'abc123' });
+    expect(await manager.query('token')).toEqual({ token: { secret: 'abc123' } });
+  });
+
+  it('should encrypt keys under a prefix in any scope', async () => {
+    const manager = new MemoryManager({
+      adapter,
+      encryption: { encryptionKey: 'correct horse', prefixes: ['credentials:'] },
+    });
+
+    await manager.set('credentials:github', 'ghp_secret');
+    await manager.set('notes', 'plain');
+
+    expect(adapter.getItemSync('conversation_credentials:github')?.value).toHaveProperty(
+      '$encrypted'
+    );
+    expect(adapter.getItemSync('conversation_notes')?.value).toBe('plain');
+    expect(await manager.get('credentials:github')).toBe('ghp_secret');
+  });
+
+  it('should fail to read values encrypted with another key', async () => {
+    const writer = new MemoryManager({
+      adapter,
+      encryption: { encryptionKey: 'correct horse', prefixes: [''] },
+    });
+    const reader = new MemoryManager({
+      adapter,
+      encryption: { encryptionKey: async () => 'battery staple', prefixes: [''] },
+    });
+
+    await writer.set('secret', 42);
+
+    await expect(reader.get('secret')).rejects.toMatchObject({ code: 'MEMORY_DECRYPTION_FAILED' });
+  });
+
+  it('should bind encrypted values to their storage key', async () => {
+    const manager = new MemoryManager({
+      adapter,
+      encryption: { encryptionKey: 'correct horse', scopes: ['global'] },
+    });
+    await manager.set('token', 'abc123', { scope: 'global' });
+
+    // A ciphertext copied to another key doesn't decrypt there
+    await adapter.setItem('global_other', adapter.getItemSync('global_token')!);
+
+    await expect(manager.get('other', { scope: 'global' })).rejects.toMatchObject({
+      code: 'MEMORY_DECRYPTION_FAILED',
+    });
+  });
+
+  it('should only decrypt keys covered by the encryption options', async () => {
+    const value = { $encrypted: 'aes-gcm:v1:not:ciphertext' };
+    await new MemoryManager({ adapter }).set('note', value, { scope: 'project' });
+
+    const manager = new MemoryManager({
+      adapter,
+      encryption: { encryptionKey: 'correct horse', scopes: ['global'] },
+    });
+
+    expect(await manager.get('note', { scope: 'project' })).toEqual(value);
+  });
+
+  it('should reject unencrypted values of encrypted keys', async () => {
+    const manager = new MemoryManager({
+      adapter,
+      encryption: { encryptionKey: 'correct horse', scopes: ['conversation'] },
+    });
+    await manager.set('secret', 'stored');
+
+    adapter.setItemSync('conversation_secret', { value: 'swapped in' });
+
+    await expect(manager.get('secret')).rejects.toMatchObject({
+      code: 'MEMORY_VALUE_UNENCRYPTED',
+    });
+  });
+
+  it('should encrypt unencrypted values as they are read when migrating', async () => {
+    const manager = new MemoryManager({ adapter });
+    await manager.set('secret', 'legacy');
+
+    manager.setEncryption({
+      encryptionKey: createKeyProvider('correct horse', { salt: 'tests' }),
+      scopes: ['conversation'],
+      migrateUnencrypted: true,
+    });
+
+    expect(await manager.get('secret')).toBe('legacy');
+    expect(adapter.getItemSync('conversation_secret')?.value).toHaveProperty('$encrypted');
+    expect(await manager.get('secret')).toBe('legacy');
+  });
+
+  it('should reject values that are not JSON serializable', async () => {
+    const manager = new MemoryManager({
+      adapter: { ...createInMemoryAdapter(), structuredClone: true },
+      encryption: { encryptionKey: 'correct horse', scopes: ['conversation'] },
+    });
+
+    await expect(manager.set('tags', new Set(['a']))).rejects.toMatchObject({
+      name: 'ValidationError',
+    });
+  });
+
+  it('should work transparently with useMemory', async () => {
+    localStorage.clear();
+    memory.setEncryption({ encryptionKey: 'correct horse', prefixes: ['private:'] });
+
+    const { result, waitForNextUpdate } = renderHook(() => useMemory<string>('private:draft'));
+    await waitForNextUpdate();
+
+    await act(async () => {
+      await result.current.set('hello');
+    });
+
+    expect(result.current.data).toBe('hello');
+    expect(localStorage.getItem('vibing_memory_conversation_private:draft')).not.toContain('hello');
+    expect(await memory.get('private:draft')).toBe('hello');
+  });
+});
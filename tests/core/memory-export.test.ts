@@ -0,0 +1,150 @@
+import { MemoryManager, createInMemoryAdapter } from '../../src/core/memory';
+import { ValidationError } from '../../src/core/errors';
+
+describe('Memory export and import', () => {
+  let memory: MemoryManager;
+
+  beforeEach(() => {
+    memory = new MemoryManager({ adapter: createInMemoryAdapter() });
+  });
+
+  describe('export', () => {
+    it('should produce a versioned document with expirations', async () => {
+      jest.spyOn(Date, 'now').mockReturnValue(1000);
+      await memory.set('draft', 'text', { scope: 'project', expiration: 500 });
+      await memory.set('theme', 'dark', { scope: 'global' });
+      jest.restoreAllMocks();
+
+      const doc = await memory.export({ scopes: ['project'] });
+
+      expect(doc).toMatchObject({ format: 'vibing-memory', version: 1, scopes: ['project'] });
+      expect(typeof doc.exportedAt).toBe('string');
+      expect(doc.entries).toEqual([]);
+
+      jest.spyOn(Date, 'now').mockReturnValue(1200);
+      const live = await memory.export({ scopes: ['project'] });
+      jest.restoreAllMocks();
+
+      expect(live.entries).toEqual([
+        {
+          key: 'draft',
+          scope: 'project',
+          value: 'text',
+          expiresAt: 1500,
+          schemaVersion: undefined,
+        },
+      ]);
+    });
+
+    it('should limit the export to a key prefix', async () => {
+      await memory.set('notes:1', 'a');
+      await memory.set('notes:2', 'b');
+      await memory.set('settings', 'c');
+
+      const doc = await memory.export({ prefix: 'notes:' });
+
+      expect(doc.prefix).toBe('notes:');
+      expect(doc.entries.map(entry => entry.key).sort()).toEqual(['notes:1', 'notes:2']);
+    });
+
+    it('should survive a JSON round trip', async () => {
+      await memory.set('user', { name: 'Ada' }, { scope: 'global' });
+      const doc = JSON.parse(JSON.stringify(await memory.export()));
+
+      const target = new MemoryManager({ adapter: createInMemoryAdapter() });
+      await target.import(doc);
+
+      expect(await target.get('user', { scope: 'global' })).toEqual({ name: 'Ada' });
+    });
+  });
+
+  describe('import', () => {
+    it('should merge entries into existing memory by default', async () => {
+      await memory.set('kept', 1);
+      await memory.set('overwritten', 1);
+
+      await memory.import({
+        format: 'vibing-memory',
+        version: 1,
+        exportedAt: new Date().toISOString(),
+        scopes: ['conversation'],
+        entries: [{ key: 'overwritten', scope: 'conversation', value: 2 }],
+      });
+
+      expect(await memory.query('')).toEqual({ kept: 1, overwritten: 2 });
+    });
+
+    it('should replace the scopes and prefix the document covers', async () => {
+      await memory.set('notes:old', 'x');
+      await memory.set('settings', 'y');
+      await memory.set('notes:global', 'z', { scope: 'global' });
+      const callback = jest.fn();
+      const unsubscribe = memory.subscribe('notes:', callback, { prefix: true });
+
+      await memory.import(
+        {
+          format: 'vibing-memory',
+          version: 1,
+          exportedAt: new Date().toISOString(),
+          scopes: ['conversation'],
+          prefix: 'notes:',
+          entries: [{ key: 'notes:new', scope: 'conversation', value: 'n' }],
+        },
+        { mode: 'replace' }
+      );
+      unsubscribe();
+
+      expect(await memory.get('notes:old')).toBeUndefined();
+      expect(await memory.get('notes:new')).toBe('n');
+      expect(await memory.get('settings')).toBe('y');
+      expect(await memory.get('notes:global', { scope: 'global' })).toBe('z');
+      expect(callback).toHaveBeenCalledTimes(2);
+    });
+
+    it('should skip entries that have already expired', async () => {
+      await memory.import({
+        format: 'vibing-memory',
+        version: 1,
+        exportedAt: new Date().toISOString(),
+        scopes: ['conversation'],
+        entries: [{ key: 'stale', scope: 'conversation', value: 1, expiresAt: Date.now() - 1 }],
+      });
+
+      expect(await memory.query('')).toEqual({});
+    });
+
+    it('should reject documents it does not understand', async () => {
+      await expect(memory.import({ format: 'other' } as never)).rejects.toBeInstanceOf(
+        ValidationError
+      );
+      await expect(
+        memory.import({
+          format: 'vibing-memory',
+          version: 1,
+          exportedAt: '',
+          scopes: ['conversation'],
+          entries: [{ key: 'a', scope: 'session' as never, value: 1 }],
+        })
+      ).rejects.toBeInstanceOf(ValidationError);
+    });
+  });
+
+  describe('snapshot and restore', () => {
+    it('should restore memory to the state of the snapshot', async () => {
+      await memory.set('count', 1);
+      await memory.set('theme', 'dark', { scope: 'global' });
+      const snapshot = await memory.snapshot();
+
+      await memory.set('count', 2);
+      await memory.set('extra', true, { scope: 'project' });
+      await memory.delete('theme');
+
+      await memory.restore(snapshot);
+
+      expect(await memory.get('count')).toBe(1);
+      expect(await memory.get('theme', { scope: 'global' })).toBe('dark');
+      expect(await memory.get('extra', { scope: 'project' })).toBeUndefined();
+      expect(snapshot.entries.size).toBe(2);
+    });
+  });
+});
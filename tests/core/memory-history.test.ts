@@ -0,0 +1,164 @@
+import { renderHook, act } from '@testing-library/react-hooks';
+import {
+  MemoryManager,
+  MemoryPrincipal,
+  createInMemoryAdapter,
+  memory,
+  useMemoryHistory,
+} from '../../src/core/memory';
+import { MemoryJournal } from '../../src/core/memory/history';
+import { PermissionError, ValidationError } from '../../src/core/errors';
+import { AppId } from '../../src/types/utilities';
+
+describe('Memory history', () => {
+  let manager: MemoryManager;
+
+  beforeEach(() => {
+    manager = new MemoryManager({ adapter: createInMemoryAdapter(), history: {} });
+  });
+
+  it('should record sets and deletes with their actor and previous value', async () => {
+    await manager.set('note', 'first', { scope: 'conversation', actor: 'user' });
+    await manager.set('note', 'second', { scope: 'conversation', actor: 'agent/writer' });
+    await manager.delete('note', { actor: 'user' });
+
+    const history = await manager.history('note');
+
+    expect(history).toMatchObject([
+      { operation: 'set', value: 'first', previousValue: undefined, actor: 'user' },
+      { operation: 'set', value: 'second', previousValue: 'first', actor: 'agent/writer' },
+      { operation: 'delete', value: undefined, previousValue: 'second', actor: 'user' },
+    ]);
+    expect(history[0].version).toBeLessThan(history[1].version);
+    expect(history[0].timestamp).toEqual(expect.any(Number));
+    expect(await manager.history('note', { scope: 'global' })).toEqual([]);
+  });
+
+  it('should record transactions and the principal of handle writes', async () => {
+    const notes: MemoryPrincipal = { kind: 'app', id: 'notes' as AppId };
+    await manager.forPrincipal(notes).set('draft', 'Hello');
+    await manager.transaction(async tx => {
+      tx.set('title', 'Plan', { scope: 'conversation', actor: 'editor' });
+    });
+
+    // Only handles reach namespaced keys, so read their history from the journal
+    const { journal } = manager as unknown as { journal: MemoryJournal };
+    expect(journal.list('app/notes:draft', 'conversation')).toMatchObject([{ actor: 'app/notes' }]);
+    await expect(manager.history('app/notes:draft')).rejects.toBeInstanceOf(PermissionError);
+    expect(await manager.history('title')).toMatchObject([{ value: 'Plan', actor: 'editor' }]);
+  });
+
+  it('should revert a key to its value before a change', async () => {
+    await manager.set('note', 'first');
+    await manager.set('note', 'second');
+    await manager.set('note', 'third');
+    const [, second] = await manager.history('note');
+
+    await manager.revert('note', second.version, { actor: 'user' });
+
+    expect(await manager.get('note')).toBe('first');
+    const history = await manager.history('note');
+    expect(history[history.length - 1]).toMatchObject({
+      value: 'first',
+      previousValue: 'third',
+      revertOf: second.version,
+      actor: 'user',
+    });
+
+    // Reverting the creation of the key deletes it
+    await manager.revert('note', history[0].version);
+    expect(await manager.get('note')).toBeUndefined();
+  });
+
+  it('should reject versions that are not in the history', async () => {
+    await manager.set('note', 'first');
+
+    await expect(manager.revert('note', 999)).rejects.toBeInstanceOf(ValidationError);
+    await expect(manager.revert('other', 1)).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it('should keep a bounded number of changes per scope', async () => {
+    manager.setHistory({ limit: 2, scopes: { global: 0 } });
+
+    await manager.set('a', 1);
+    await manager.set('b', 2);
+    await manager.set('a', 3);
+    await manager.set('a', 4, { scope: 'global' });
+
+    expect((await manager.history('a')).map(entry => entry.value)).toEqual([3]);
+    expect((await manager.history('b')).map(entry => entry.value)).toEqual([2]);
+    expect(await manager.history('a', { scope: 'global' })).toEqual([]);
+
+    manager.setHistory(null);
+    await manager.set('a', 5);
+    expect(await manager.history('a')).toEqual([]);
+  });
+});
+
+describe('useMemoryHistory', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    memory.setHistory(null);
+    memory.setHistory({ limit: 20 });
+  });
+
+  it('should undo and redo changes', async () => {
+    await memory.set('canvas', 'empty');
+    await memory.set('canvas', 'circle', { scope: 'conversation', actor: 'agent' });
+    await memory.set('canvas', 'circle and square', { scope: 'conversation', actor: 'agent' });
+
+    const { result, waitForNextUpdate } = renderHook(() =>
+      useMemoryHistory<string>('canvas', { actor: 'user' })
+    );
+    await waitForNextUpdate();
+    expect(result.current.data).toHaveLength(3);
+    expect(result.current.canUndo).toBe(true);
+    expect(result.current.canRedo).toBe(false);
+
+    await act(async () => {
+      await result.current.undo();
+    });
+    expect(await memory.get('canvas')).toBe('circle');
+
+    await act(async () => {
+      await result.current.undo();
+    });
+    expect(await memory.get('canvas')).toBe('empty');
+    expect(result.current.canRedo).toBe(true);
+
+    await act(async () => {
+      await result.current.redo();
+    });
+    expect(await memory.get('canvas')).toBe('circle');
+    expect(result.current.data[result.current.data.length - 1].actor).toBe('user');
+
+    // A new change clears the redo stack
+    await act(async () => {
+      await memory.set('canvas', 'triangle');
+    });
+    await act(async () => {
+      await result.current.undo();
+    });
+    expect(await memory.get('canvas')).toBe('circle');
+    expect(result.current.canRedo).toBe(true);
+
+    await act(async () => {
+      await result.current.redo();
+    });
+    expect(await memory.get('canvas')).toBe('triangle');
+    expect(result.current.canRedo).toBe(false);
+  });
+
+  it('should expose revert errors', async () => {
+    const { result, waitForNextUpdate } = renderHook(() => useMemoryHistory('missing'));
+    await waitForNextUpdate();
+    expect(result.current.canUndo).toBe(false);
+
+    await act(async () => {
+      await result.current.revert(42);
+    });
+
+    expect(result.current.error).toBeInstanceOf(ValidationError);
+    expect(result.current.loading).toBe(false);
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * @jest-environment node
+ */
+import 'fake-indexeddb/auto';
+import {
+  MemoryManager,
+  createIndexedDBAdapter,
+  createInMemoryAdapter,
+  createLocalStorageAdapter,
+} from '../../src/core/memory';
+import { QuotaExceededError, SDKError, ValidationError } from '../../src/core/errors';
+
+describe('IndexedDB memory adapter', () => {
+  let databaseCount = 0;
+  const createAdapter = () =>
+    createIndexedDBAdapter({ databaseName: `test-db-${databaseCount++}` });
+
+  it('should round-trip structured clone values', async () => {
+    const memory = new MemoryManager({ adapter: createAdapter() });
+    const bytes = new Uint8Array([1, 2, 3]);
+    const value = {
+      createdAt: new Date(0),
+      tags: new Set(['a', 'b']),
+      index: new Map([['page', 1]]),
+      buffer: bytes.buffer,
+      bytes,
+    };
+
+    await memory.set('document', value);
+    const stored = await memory.get<typeof value>('document');
+
+    expect(stored?.createdAt).toEqual(new Date(0));
+    expect(Array.from(stored?.tags as Set<string>)).toEqual(['a', 'b']);
+    expect(stored?.index.get('page')).toBe(1);
+    expect(Array.from(new Uint8Array(stored?.buffer as ArrayBuffer))).toEqual([1, 2, 3]);
+    expect(Array.from(stored?.bytes as Uint8Array)).toEqual([1, 2, 3]);
+  });
+
+  it('should hold multi-megabyte values', async () => {
+    const memory = new MemoryManager({ adapter: createAdapter() });
+    const text = 'x'.repeat(6 * 1024 * 1024);
+
+    await memory.set('large', text);
+
+    expect((await memory.get<string>('large'))?.length).toBe(text.length);
+  });
+
+  it('should list, query, delete and clear entries', async () => {
+    const adapter = createAdapter();
+    const memory = new MemoryManager({ adapter });
+
+    await memory.set('doc:1', 'one');
+    await memory.set('doc:2', 'two');
+    await memory.delete('doc:1');
+
+    expect(await memory.query('doc:')).toEqual({ 'doc:2': 'two' });
+    expect(await adapter.keys()).toEqual(['conversation_doc:2']);
+
+    await adapter.clear();
+    expect(await adapter.keys()).toEqual([]);
+  });
+
+  it('should share data between adapters for the same database', async () => {
+    const databaseName = `shared-db-${databaseCount++}`;
+    await createIndexedDBAdapter({ databaseName }).setItem('key', { value: 42 });
+
+    expect(await createIndexedDBAdapter({ databaseName }).getItem('key')).toEqual({ value: 42 });
+  });
+
+  it('should report quota errors as QuotaExceededError', async () => {
+    const adapter = createAdapter();
+    const quotaError = new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+    const putSpy = jest.spyOn(IDBObjectStore.prototype, 'put').mockImplementation(() => {
+      throw quotaError;
+    });
+
+    await expect(adapter.setItem('big', { value: 'data' })).rejects.toBeInstanceOf(
+      QuotaExceededError
+    );
+
+    putSpy.mockRestore();
+  });
+});
+
+describe('Memory write errors', () => {
+  it('should reject binary values for JSON adapters', async () => {
+    const memory = new MemoryManager({ adapter: createInMemoryAdapter() });
+
+    await expect(memory.set('file', { data: new ArrayBuffer(8) })).rejects.toBeInstanceOf(
+      ValidationError
+    );
+    await expect(memory.set('ids', new Set([1]))).rejects.toThrow(
+      "can't be stored by the memory adapter"
+    );
+  });
+
+  it('should surface localStorage quota errors instead of warning', async () => {
+    const memory = new MemoryManager({ adapter: createLocalStorageAdapter() });
+    const setItemSpy = jest.spyOn(localStorage, 'setItem').mockImplementation(() => {
+      throw new DOMException('Quota exceeded', 'QuotaExceededError');
+    });
+
+    const error = await memory.set('key', 'value').catch(e => e);
+
+    expect(error).toBeInstanceOf(QuotaExceededError);
+    expect(error.storage).toBe('localStorage');
+    expect(error.code).toBe('QUOTA_EXCEEDED');
+
+    setItemSpy.mockRestore();
+  });
+
+  it('should wrap other adapter failures in an SDKError', async () => {
+    const memory = new MemoryManager({ adapter: createLocalStorageAdapter() });
+    const circular: Record<string, unknown> = {};
+    circular.self = circular;
+
+    const error = await memory.set('circular', circular).catch(e => e);
+
+    expect(error).toBeInstanceOf(SDKError);
+    expect(error.code).toBe('MEMORY_WRITE_FAILED');
+  });
+});
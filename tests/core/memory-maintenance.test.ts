@@ -0,0 +1,200 @@
+import { MemoryManager, createInMemoryAdapter } from '../../src/core/memory';
+import { events } from '../../src/core/events';
+import { QuotaExceededError } from '../../src/core/errors';
+import { logger } from '../../src/core/utils/logger';
+
+describe('Memory maintenance', () => {
+  let adapter: ReturnType<typeof createInMemoryAdapter>;
+  let memory: MemoryManager;
+  let evicted: jest.Mock;
+  let quotaExceeded: jest.Mock;
+  let unsubscribers: Array<() => void>;
+
+  beforeEach(() => {
+    adapter = createInMemoryAdapter();
+    memory = new MemoryManager({ adapter });
+    evicted = jest.fn();
+    quotaExceeded = jest.fn();
+    unsubscribers = [
+      events.subscribe('memory:evicted', evicted),
+      events.subscribe('memory:quota-exceeded', quotaExceeded),
+    ];
+  });
+
+  afterEach(() => {
+    unsubscribers.forEach(unsubscribe => unsubscribe());
+  });
+
+  it('should sweep expired entries periodically', async () => {
+    const maintenance = memory.startMaintenance({ sweepInterval: 20 });
+    const changes = jest.fn();
+    const unsubscribe = memory.subscribe('session', changes);
+
+    await memory.set('session', 'token', { scope: 'conversation', expiration: 5 });
+    await memory.set('kept', 'value');
+
+    await new Promise(resolve => setTimeout(resolve, 60));
+    maintenance.stop();
+    unsubscribe();
+
+    expect(await adapter.keys()).toEqual(['conversation_kept']);
+    expect(evicted).toHaveBeenCalledWith(
+      expect.objectContaining({ key: 'session', scope: 'conversation', reason: 'expired' }),
+      expect.objectContaining({ name: 'memory:evicted' })
+    );
+    expect(changes).toHaveBeenLastCalledWith(
+      undefined,
+      expect.objectContaining({ oldValue: undefined, newValue: undefined })
+    );
+  });
+
+  it('should sweep on demand and report the number removed', async () => {
+    const maintenance = memory.startMaintenance({ sweepInterval: 0 });
+    const now = Date.now();
+    await memory.set('a', 1, { scope: 'conversation', expiration: 10 });
+    await memory.set('b', 2, { scope: 'conversation', expiration: 10 });
+    await memory.set('c', 3);
+
+    const dateSpy = jest.spyOn(Date, 'now').mockReturnValue(now + 100);
+    expect(await maintenance.sweep()).toBe(2);
+    dateSpy.mockRestore();
+    maintenance.stop();
+  });
+
+  it('should account usage per scope and namespace', async () => {
+    const maintenance = memory.startMaintenance({ sweepInterval: 0 });
+    await memory.set('notes:1', 'ab', { scope: 'project' });
+    await memory.set('notes:2', 'cd', { scope: 'global' });
+    await memory.set('theme', 'dark');
+
+    const usage = await maintenance.getUsage();
+    maintenance.stop();
+
+    // Keys and JSON values are counted as UTF-16: 'notes:1' + '"ab"' = (7 + 4) * 2
+    expect(usage.scopes).toEqual({ global: 22, project: 22, conversation: 22 });
+    expect(usage.namespaces).toEqual({ notes: 44, '': 22 });
+    expect(usage.total).toBe(66);
+    expect(usage.entries).toBe(3);
+  });
+
+  it('should evict least recently used entries to stay within a scope quota', async () => {
+    // Each entry is ('k:N' + '"xx"') * 2 = 14 bytes
+    const maintenance = memory.startMaintenance({
+      sweepInterval: 0,
+      quotas: { scopes: { conversation: 30 } },
+    });
+
+    await memory.set('k:1', 'xx');
+    await memory.set('k:2', 'xx');
+    await memory.get('k:1');
+    await memory.set('k:3', 'xx');
+    maintenance.stop();
+
+    expect((await adapter.keys()).sort()).toEqual(['conversation_k:1', 'conversation_k:3']);
+    expect(evicted).toHaveBeenCalledWith(
+      {
+        key: 'k:2',
+        scope: 'conversation',
+        namespace: 'k',
+        size: 14,
+        reason: 'quota',
+      },
+      expect.objectContaining({ name: 'memory:evicted' })
+    );
+  });
+
+  it('should enforce namespace quotas independently of other namespaces', async () => {
+    const maintenance = memory.startMaintenance({
+      sweepInterval: 0,
+      // Each cache entry is ('cache:N' + '"x"') * 2 = 20 bytes
+      quotas: { namespaces: { cache: 40 } },
+    });
+
+    await memory.set('other', 'value');
+    await memory.set('cache:1', 'x');
+    await memory.set('cache:2', 'x');
+    await memory.set('cache:3', 'x');
+    maintenance.stop();
+
+    expect((await adapter.keys()).sort()).toEqual([
+      'conversation_cache:2',
+      'conversation_cache:3',
+      'conversation_other',
+    ]);
+  });
+
+  it('should keep running totals instead of listing the store on every write', async () => {
+    const maintenance = memory.startMaintenance({
+      sweepInterval: 0,
+      quotas: { scopes: { conversation: 30 } },
+    });
+    const keys = jest.spyOn(adapter, 'keys');
+
+    await memory.set('k:1', 'xx');
+    await memory.set('k:2', 'xx');
+    await memory.delete('k:1');
+    await memory.set('k:3', 'xx');
+    await memory.set('k:3', 'yy');
+    maintenance.stop();
+
+    expect(keys).toHaveBeenCalledTimes(1);
+    expect(evicted).not.toHaveBeenCalled();
+    expect((await adapter.keys()).sort()).toEqual(['conversation_k:2', 'conversation_k:3']);
+  });
+
+  it('should log sweeps that fail in the background', async () => {
+    const error = jest.spyOn(logger, 'error').mockImplementation(() => undefined);
+    adapter.keys = jest.fn().mockRejectedValue(new Error('Storage is unavailable'));
+
+    const maintenance = memory.startMaintenance({ sweepInterval: 10 });
+    await new Promise(resolve => setTimeout(resolve, 30));
+    maintenance.stop();
+
+    expect(error).toHaveBeenCalledWith(
+      'Failed to sweep the memory adapter:',
+      expect.objectContaining({ message: 'Storage is unavailable' })
+    );
+    error.mockRestore();
+  });
+
+  it('should reject values larger than their quota', async () => {
+    const maintenance = memory.startMaintenance({
+      sweepInterval: 0,
+      quotas: { namespaces: { small: 20 } },
+    });
+
+    await expect(memory.set('small:1', 'a long value')).rejects.toBeInstanceOf(QuotaExceededError);
+    maintenance.stop();
+
+    expect(quotaExceeded).toHaveBeenCalledWith(
+      expect.objectContaining({ key: 'small:1', namespace: 'small', limit: 20 }),
+      expect.objectContaining({ name: 'memory:quota-exceeded' })
+    );
+    expect(await adapter.keys()).toEqual([]);
+  });
+
+  it('should publish storage quota errors', async () => {
+    adapter.setItem = jest
+      .fn()
+      .mockRejectedValue(new QuotaExceededError('Storage is full', 'memory'));
+
+    await expect(memory.set('big', 'value')).rejects.toBeInstanceOf(QuotaExceededError);
+
+    expect(quotaExceeded).toHaveBeenCalledWith(
+      expect.objectContaining({ key: 'big', scope: 'conversation', storage: 'memory' }),
+      expect.objectContaining({ name: 'memory:quota-exceeded' })
+    );
+  });
+
+  it('should stop enforcing quotas once stopped', async () => {
+    const maintenance = memory.startMaintenance({
+      sweepInterval: 0,
+      quotas: { scopes: { conversation: 1 } },
+    });
+    maintenance.stop();
+
+    await memory.set('a', 'value');
+
+    expect(await adapter.keys()).toEqual(['conversation_a']);
+  });
+});
@@ -0,0 +1,152 @@
+import { MemoryManager, MemoryPrincipal, createInMemoryAdapter } from '../../src/core/memory';
+import { PermissionsManager } from '../../src/core/permissions/permissions';
+import { createPolicyConsentProvider, setConsentProvider } from '../../src/core/permissions';
+import { PermissionError } from '../../src/core/errors';
+import { AgentId, AppId, PluginId } from '../../src/types/utilities';
+
+const notesApp: MemoryPrincipal = { kind: 'app', id: 'notes' as AppId };
+const summarizer: MemoryPrincipal = { kind: 'plugin', id: 'summarizer' as PluginId };
+const researcher: MemoryPrincipal = { kind: 'agent', id: 'researcher' as AgentId };
+
+describe('Principal memory', () => {
+  let memory: MemoryManager;
+
+  /**
+   * Principal memory with the principal's own permissions, as apps, plugins and agents get it
+   */
+  const forPrincipal = (principal: MemoryPrincipal) =>
+    memory.forPrincipal(principal, { permissions: new PermissionsManager(principal) });
+
+  beforeEach(() => {
+    localStorage.clear();
+    memory = new MemoryManager({ adapter: createInMemoryAdapter() });
+    setConsentProvider(createPolicyConsentProvider('grant'));
+  });
+
+  afterEach(() => {
+    setConsentProvider(null);
+  });
+
+  it('should keep each principal in its own namespace', async () => {
+    const app = forPrincipal(notesApp);
+    const plugin = forPrincipal(summarizer);
+
+    await app.set('draft', 'app draft');
+    await plugin.set('draft', 'plugin draft');
+
+    expect(await app.get('draft')).toBe('app draft');
+    expect(await plugin.get('draft')).toBe('plugin draft');
+    expect(await app.query('')).toEqual({ draft: 'app draft' });
+  });
+
+  it('should keep namespaces out of reach of the memory manager', async () => {
+    const app = forPrincipal(notesApp);
+    const changes = jest.fn();
+    const unsubscribe = memory.subscribe(/draft/, changes);
+    await app.set('draft', 'app draft');
+    await memory.set('draft', 'host draft');
+    unsubscribe();
+
+    await expect(memory.get('app/notes:draft')).rejects.toBeInstanceOf(PermissionError);
+    await expect(memory.set('plugin/summarizer:draft', 'forged')).rejects.toBeInstanceOf(
+      PermissionError
+    );
+    expect(() => memory.subscribe('app/notes:draft', changes)).toThrow(PermissionError);
+    await expect(memory.transaction(async tx => tx.get('app/notes:draft'))).rejects.toBeInstanceOf(
+      PermissionError
+    );
+    expect(await memory.query('draft')).toEqual({ draft: 'host draft' });
+    expect(changes).toHaveBeenCalledTimes(1);
+    expect(changes).toHaveBeenCalledWith('host draft', expect.objectContaining({ key: 'draft' }));
+  });
+
+  it('should deliver changes with keys relative to the namespace', async () => {
+    const app = forPrincipal(notesApp);
+    const callback = jest.fn();
+    const unsubscribe = app.subscribe('draft', callback);
+
+    await memory.set('draft', 'outside the namespace');
+    await app.set('draft', 'inside');
+    await new Promise(resolve => setTimeout(resolve, 0));
+    unsubscribe();
+
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(callback).toHaveBeenCalledWith('inside', expect.objectContaining({ key: 'draft' }));
+  });
+
+  it('should reject access to another namespace without a grant', async () => {
+    const app = forPrincipal(notesApp);
+    const plugin = forPrincipal(summarizer);
+    await app.set('draft', 'secret');
+
+    const read = plugin.shared(notesApp).get('draft');
+
+    await expect(read).rejects.toBeInstanceOf(PermissionError);
+    await expect(read).rejects.toMatchObject({
+      requiredPermission: 'memory-share:app/notes:plugin/summarizer:read:conversation',
+    });
+  });
+
+  it('should allow the granted access only', async () => {
+    const app = forPrincipal(notesApp);
+    const plugin = forPrincipal(summarizer);
+    await app.set('draft', 'shared text');
+
+    expect(await app.share(summarizer, { access: ['read'] })).toBe(true);
+    const shared = plugin.shared(notesApp);
+
+    expect(await shared.get('draft')).toBe('shared text');
+    expect(await shared.query('dra')).toEqual({ draft: 'shared text' });
+    await expect(shared.set('draft', 'changed')).rejects.toBeInstanceOf(PermissionError);
+    await expect(shared.get('draft', { scope: 'global' })).rejects.toBeInstanceOf(PermissionError);
+
+    // Grants are per grantee
+    const agent = forPrincipal(researcher);
+    await expect(agent.shared(notesApp).get('draft')).rejects.toBeInstanceOf(PermissionError);
+  });
+
+  it('should allow writes with a read and write grant until it is revoked', async () => {
+    const app = forPrincipal(notesApp);
+    const plugin = forPrincipal(summarizer);
+
+    await app.share(summarizer, { access: ['write', 'read'], scope: 'project' });
+    await plugin.shared(notesApp).set('summary', 'short', { scope: 'project' });
+    expect(await app.get('summary', { scope: 'project' })).toBe('short');
+
+    await app.unshare(summarizer);
+    await expect(
+      plugin.shared(notesApp).get('summary', { scope: 'project' })
+    ).rejects.toBeInstanceOf(PermissionError);
+  });
+
+  it('should be available from the memory manager', async () => {
+    const consent = createPolicyConsentProvider('grant');
+    setConsentProvider(consent);
+    const app = memory.forPrincipal(notesApp);
+    await app.set('title', 'Groceries');
+
+    await app.share(summarizer);
+    expect(await memory.forPrincipal(summarizer).shared(notesApp).get('title')).toBe('Groceries');
+
+    expect(consent.requests).toHaveLength(1);
+    await app.unshare(summarizer);
+  });
+
+  it("should check sharing grants in the owner's permissions", async () => {
+    const app = forPrincipal(notesApp);
+    const plugin = forPrincipal(summarizer);
+    await app.set('draft', 'hello');
+
+    // A grantee can't grant itself access to another namespace
+    const self = new PermissionsManager(summarizer);
+    await self.request({
+      type: 'memory-share:app/notes:plugin/summarizer',
+      access: ['read'],
+      scope: 'conversation',
+    });
+    await expect(plugin.shared(notesApp).get('draft')).rejects.toBeInstanceOf(PermissionError);
+
+    await app.share(summarizer, { access: ['read'] });
+    expect(await plugin.shared(notesApp).get('draft')).toBe('hello');
+  });
+});
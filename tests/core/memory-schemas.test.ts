@@ -0,0 +1,126 @@
+import { renderHook } from '@testing-library/react-hooks';
+import {
+  MemoryManager,
+  createInMemoryAdapter,
+  memory as sharedMemory,
+  useMemory,
+} from '../../src/core/memory';
+import { ValidationError } from '../../src/core/errors';
+
+interface Note {
+  title: string;
+  body: string;
+  tags: string[];
+}
+
+const noteSchema = {
+  version: 2,
+  validate: (value: unknown) => {
+    const note = value as Note;
+    const errors: Record<string, string[]> = {};
+    if (typeof note?.title !== 'string') {
+      errors.title = ['Title must be a string'];
+    }
+    if (!Array.isArray(note?.tags)) {
+      errors.tags = ['Tags must be an array'];
+    }
+    return errors;
+  },
+  migrations: {
+    // Version 1 notes stored the body as `text`
+    1: (value: { text: string }) => ({ title: 'Untitled', body: value.text }),
+    2: (value: Omit<Note, 'tags'>) => ({ ...value, tags: [] }),
+  },
+};
+
+describe('Memory schemas', () => {
+  let adapter: ReturnType<typeof createInMemoryAdapter>;
+  let memory: MemoryManager;
+
+  beforeEach(() => {
+    adapter = createInMemoryAdapter();
+    memory = new MemoryManager({ adapter, schemas: { 'note:': noteSchema } });
+  });
+
+  it('should tag written values with the schema version', async () => {
+    await memory.set('note:1', { title: 'Hello', body: '', tags: [] });
+
+    expect(adapter.getItemSync('conversation_note:1')?.schemaVersion).toBe(2);
+  });
+
+  it('should migrate untagged values on read', async () => {
+    adapter.setItemSync('conversation_note:1', { value: { text: 'Old note' } });
+
+    expect(await memory.get('note:1')).toEqual({ title: 'Untitled', body: 'Old note', tags: [] });
+  });
+
+  it('should only run migrations newer than the stored version', async () => {
+    adapter.setItemSync('conversation_note:1', {
+      value: { title: 'Kept', body: 'text' },
+      schemaVersion: 1,
+    });
+
+    expect(await memory.get('note:1')).toEqual({ title: 'Kept', body: 'text', tags: [] });
+    expect(await memory.query('note:')).toEqual({
+      'note:1': { title: 'Kept', body: 'text', tags: [] },
+    });
+  });
+
+  it('should reject invalid values on write', async () => {
+    const error = await memory.set('note:1', { title: 42 }).catch(e => e);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.validationErrors).toEqual({
+      title: ['Title must be a string'],
+      tags: ['Tags must be an array'],
+    });
+    expect(adapter.getItemSync('conversation_note:1')).toBeNull();
+  });
+
+  it('should reject stored values that stay invalid after migrating', async () => {
+    adapter.setItemSync('conversation_note:1', { value: ['not', 'a', 'note'], schemaVersion: 2 });
+
+    await expect(memory.get('note:1')).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it('should report failing migrations as validation errors', async () => {
+    adapter.setItemSync('conversation_note:1', { value: null });
+
+    await expect(memory.get('note:1')).rejects.toMatchObject({
+      message: expect.stringContaining('schema version 1'),
+    });
+  });
+
+  it('should leave keys outside the prefix alone and prefer the longest prefix', async () => {
+    const unregister = memory.registerSchema('note:draft:', {
+      version: 1,
+      validate: value => typeof value === 'string',
+    });
+
+    await memory.set('notebook', 123);
+    await memory.set('note:draft:1', 'plain text');
+    await expect(memory.set('note:draft:2', {})).rejects.toBeInstanceOf(ValidationError);
+
+    unregister();
+    await expect(memory.set('note:draft:3', 'plain text')).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it('should reject schemas without a positive integer version', () => {
+    expect(() => memory.registerSchema('bad:', { version: 0 })).toThrow(ValidationError);
+  });
+
+  it('should surface invalid values through useMemory', async () => {
+    const unregister = sharedMemory.registerSchema('profile', {
+      version: 1,
+      validate: value => typeof value === 'object',
+    });
+    localStorage.setItem('vibing_memory_conversation_profile', '"not an object"');
+
+    const { result, waitForNextUpdate } = renderHook(() => useMemory('profile'));
+    await waitForNextUpdate();
+    unregister();
+    localStorage.clear();
+
+    expect(result.current.error).toBeInstanceOf(ValidationError);
+  });
+});
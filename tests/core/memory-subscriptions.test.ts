@@ -0,0 +1,103 @@
+import { MemoryManager, createInMemoryAdapter } from '../../src/core/memory';
+
+describe('Memory subscriptions', () => {
+  let memory: MemoryManager;
+
+  beforeEach(() => {
+    memory = new MemoryManager({ adapter: createInMemoryAdapter() });
+  });
+
+  it('should report old and new values in change records', async () => {
+    const callback = jest.fn();
+    const unsubscribe = memory.subscribe('theme', callback);
+
+    await memory.set('theme', 'dark', { scope: 'project' });
+    await memory.set('theme', 'light', { scope: 'project' });
+    unsubscribe();
+
+    expect(callback.mock.calls.map(([, change]) => change)).toEqual([
+      { key: 'theme', scope: 'project', oldValue: undefined, newValue: 'dark', source: 'local' },
+      { key: 'theme', scope: 'project', oldValue: 'dark', newValue: 'light', source: 'local' },
+    ]);
+  });
+
+  it('should only notify subscribers of the requested scope', async () => {
+    const projectCallback = jest.fn();
+    const unsubscribe = memory.subscribe('panel', projectCallback, { scope: 'project' });
+
+    await memory.set('panel', 'chat', { scope: 'conversation' });
+    await memory.set('panel', 'files', { scope: 'project' });
+    unsubscribe();
+
+    expect(projectCallback).toHaveBeenCalledTimes(1);
+    expect(projectCallback).toHaveBeenCalledWith(
+      'files',
+      expect.objectContaining({ scope: 'project' })
+    );
+  });
+
+  it('should delete a key from a single scope', async () => {
+    const callback = jest.fn();
+    const unsubscribe = memory.subscribe('panel', callback);
+
+    await memory.set('panel', 'chat', { scope: 'conversation' });
+    await memory.set('panel', 'files', { scope: 'project' });
+    callback.mockClear();
+
+    await memory.delete('panel', { scope: 'conversation' });
+    unsubscribe();
+
+    expect(await memory.get('panel', { scope: 'conversation' })).toBeUndefined();
+    expect(await memory.get('panel', { scope: 'project' })).toBe('files');
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(callback.mock.calls[0][1]).toMatchObject({
+      scope: 'conversation',
+      oldValue: 'chat',
+      newValue: undefined,
+    });
+  });
+
+  it('should delete a key from every scope when no scope is given', async () => {
+    await memory.set('panel', 'chat', { scope: 'conversation' });
+    await memory.set('panel', 'files', { scope: 'global' });
+
+    await memory.delete('panel');
+
+    expect(await memory.get('panel', { scope: 'conversation' })).toBeUndefined();
+    expect(await memory.get('panel', { scope: 'global' })).toBeUndefined();
+  });
+
+  it('should support prefix subscriptions', async () => {
+    const callback = jest.fn();
+    const unsubscribe = memory.subscribe('ui.', callback, { prefix: true });
+
+    await memory.set('ui.sidebar', 'open');
+    await memory.set('settings', 'x');
+    await memory.set('ui.theme', 'dark');
+    unsubscribe();
+
+    expect(callback.mock.calls.map(([, change]) => change.key)).toEqual(['ui.sidebar', 'ui.theme']);
+  });
+
+  it('should support RegExp subscriptions', async () => {
+    const callback = jest.fn();
+    const unsubscribe = memory.subscribe(/^draft-\d+$/g, callback);
+
+    await memory.set('draft-1', 'a');
+    await memory.set('draft-2', 'b');
+    await memory.set('draft-x', 'c');
+    unsubscribe();
+
+    expect(callback.mock.calls.map(([value]) => value)).toEqual(['a', 'b']);
+  });
+
+  it('should stop notifying after unsubscribe', async () => {
+    const callback = jest.fn();
+    const unsubscribe = memory.subscribe('theme', callback);
+    unsubscribe();
+
+    await memory.set('theme', 'dark');
+
+    expect(callback).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,203 @@
+import { webcrypto } from 'crypto';
+import { TextDecoder, TextEncoder } from 'util';
+import {
+  MemoryManager,
+  MemorySyncMessage,
+  MemorySyncTransport,
+  createInMemoryAdapter,
+  createPostMessageTransport,
+  createStorageEventTransport,
+  startMemorySync,
+} from '../../src/core/memory';
+import { logger } from '../../src/core/utils/logger';
+
+// jsdom implements neither SubtleCrypto nor the encoding API
+if (!globalThis.crypto?.subtle) {
+  Object.defineProperty(globalThis, 'crypto', { value: webcrypto, configurable: true });
+}
+Object.assign(globalThis, { TextEncoder, TextDecoder });
+
+/**
+ * Transport that records posted messages and lets tests deliver remote ones
+ */
+const createTestTransport = () => {
+  const posted: MemorySyncMessage[] = [];
+  let handler: ((message: MemorySyncMessage) => void) | null = null;
+
+  const transport: MemorySyncTransport = {
+    post: message => posted.push(message),
+    listen: h => {
+      handler = h;
+      return () => {
+        handler = null;
+      };
+    },
+    close: jest.fn(),
+  };
+
+  return {
+    transport,
+    posted,
+    deliver: (message: MemorySyncMessage) => handler?.(message),
+  };
+};
+
+const remoteMessage = (key: string, newValue: unknown): MemorySyncMessage => ({
+  type: 'vibing:memory-change',
+  senderId: 'other-tab',
+  change: { key, scope: 'project', oldValue: undefined, newValue },
+});
+
+describe('Memory synchronization', () => {
+  it('should relay local writes and deletes to other windows', async () => {
+    const { transport, posted } = createTestTransport();
+    const sync = startMemorySync({ transports: [transport] });
+    const memory = new MemoryManager({ adapter: createInMemoryAdapter() });
+
+    await memory.set('draft', 'hello', { scope: 'project' });
+    await memory.delete('draft');
+    sync.stop();
+
+    expect(posted.map(message => message.change)).toEqual([
+      { key: 'draft', scope: 'project', oldValue: undefined, newValue: 'hello' },
+      { key: 'draft', scope: 'project', oldValue: 'hello', newValue: undefined },
+    ]);
+    expect(transport.close).toHaveBeenCalled();
+  });
+
+  it('should deliver remote changes to subscribers with their scope', () => {
+    const { transport, posted, deliver } = createTestTransport();
+    const sync = startMemorySync({ transports: [transport] });
+    const memory = new MemoryManager({ adapter: createInMemoryAdapter() });
+    const callback = jest.fn();
+    memory.subscribe('draft', callback);
+
+    deliver(remoteMessage('draft', 'from another tab'));
+    deliver(remoteMessage('draft', undefined));
+    sync.stop();
+    deliver(remoteMessage('draft', 'ignored'));
+
+    expect(callback).toHaveBeenCalledTimes(2);
+    expect(callback).toHaveBeenNthCalledWith(1, 'from another tab', {
+      key: 'draft',
+      scope: 'project',
+      newValue: 'from another tab',
+      source: 'remote',
+    });
+    expect(callback.mock.calls[1][1]).toMatchObject({ newValue: undefined, source: 'remote' });
+    // Remote changes are not relayed back out
+    expect(posted).toHaveLength(0);
+  });
+
+  it('should ignore its own messages', async () => {
+    const { transport, posted, deliver } = createTestTransport();
+    const sync = startMemorySync({ transports: [transport] });
+    const memory = new MemoryManager({ adapter: createInMemoryAdapter() });
+    await memory.set('echo', 1);
+    const callback = jest.fn();
+    memory.subscribe('echo', callback);
+
+    deliver(posted[0]);
+    sync.stop();
+
+    expect(callback).not.toHaveBeenCalled();
+  });
+
+  it('should not send values of encrypted keys', async () => {
+    const { transport, posted, deliver } = createTestTransport();
+    const memory = new MemoryManager({
+      adapter: createInMemoryAdapter(),
+      encryption: { encryptionKey: 'correct horse', prefixes: ['secret.'] },
+    });
+    const sync = startMemorySync({ transports: [transport], memory });
+
+    await memory.set('secret.pin', '1234', { scope: 'project' });
+    expect(posted.map(message => message.change)).toEqual([
+      {
+        key: 'secret.pin',
+        scope: 'project',
+        oldValue: undefined,
+        newValue: undefined,
+        encrypted: true,
+      },
+    ]);
+
+    // Receivers read encrypted values from storage, whatever the message says
+    const received = new Promise(resolve => memory.subscribe('secret.pin', resolve));
+    deliver(remoteMessage('secret.pin', 'forged'));
+    expect(await received).toBe('1234');
+    sync.stop();
+  });
+
+  it('should ignore malformed messages', () => {
+    const { transport, deliver } = createTestTransport();
+    const sync = startMemorySync({ transports: [transport] });
+    const memory = new MemoryManager({ adapter: createInMemoryAdapter() });
+    const callback = jest.fn();
+    const warn = jest.spyOn(logger, 'warn');
+    memory.subscribe('draft', callback);
+
+    deliver({ ...remoteMessage('draft', 'x'), change: { key: 'draft' } } as never);
+    deliver({ ...remoteMessage('draft', 'x'), senderId: 42 } as never);
+    sync.stop();
+
+    expect(callback).not.toHaveBeenCalled();
+    expect(warn).toHaveBeenCalledTimes(2);
+    warn.mockRestore();
+  });
+
+  it('should exchange messages through storage events', () => {
+    const transport = createStorageEventTransport('test-channel');
+    const handler = jest.fn();
+    const stop = transport.listen(handler);
+    const message = remoteMessage('note', 'value');
+
+    window.dispatchEvent(
+      new StorageEvent('storage', { key: 'test-channel:sync', newValue: JSON.stringify(message) })
+    );
+    window.dispatchEvent(new StorageEvent('storage', { key: 'test-channel:sync', newValue: null }));
+    window.dispatchEvent(new StorageEvent('storage', { key: 'other', newValue: '{}' }));
+    stop();
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledWith(message);
+
+    transport.post(message);
+    expect(localStorage.getItem('test-channel:sync')).toBeNull();
+  });
+
+  it('should only accept postMessage messages from the configured frame and origin', () => {
+    const frame = { postMessage: jest.fn() } as unknown as Window;
+    const transport = createPostMessageTransport(frame, 'https://host.example.com');
+    const handler = jest.fn();
+    const stop = transport.listen(handler);
+    const message = remoteMessage('note', 'value');
+
+    const dispatch = (source: unknown, origin: string) => {
+      const event = new MessageEvent('message', { data: message, origin });
+      Object.defineProperty(event, 'source', { value: source });
+      window.dispatchEvent(event);
+    };
+
+    dispatch(frame, 'https://host.example.com');
+    dispatch(frame, 'https://evil.example.com');
+    dispatch(window, 'https://host.example.com');
+    stop();
+
+    expect(handler).toHaveBeenCalledTimes(1);
+
+    transport.post(message);
+    expect(frame.postMessage).toHaveBeenCalledWith(message, 'https://host.example.com');
+  });
+
+  it('should add postMessage transports for configured frames', () => {
+    const frame = { postMessage: jest.fn() } as unknown as Window;
+    const sync = startMemorySync({
+      transports: [],
+      frames: [{ target: frame, origin: 'https://host.example.com' }],
+    });
+
+    expect(sync.transports).toHaveLength(1);
+    sync.stop();
+  });
+});
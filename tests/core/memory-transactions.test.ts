@@ -0,0 +1,142 @@
+import { MemoryManager, createInMemoryAdapter } from '../../src/core/memory';
+
+describe('Memory transactions', () => {
+  let adapter: ReturnType<typeof createInMemoryAdapter>;
+  let memory: MemoryManager;
+
+  beforeEach(() => {
+    adapter = createInMemoryAdapter();
+    memory = new MemoryManager({ adapter });
+  });
+
+  describe('compareAndSet', () => {
+    it('should write only when the current value matches', async () => {
+      expect(await memory.compareAndSet('count', undefined, 1)).toBe(true);
+      expect(await memory.compareAndSet('count', 5, 6)).toBe(false);
+      expect(await memory.compareAndSet('count', 1, 2)).toBe(true);
+
+      expect(await memory.get('count')).toBe(2);
+    });
+
+    it('should compare structured values', async () => {
+      await memory.set('filters', { tags: ['a', 'b'], since: new Date(0) });
+
+      expect(
+        await memory.compareAndSet(
+          'filters',
+          { tags: ['a', 'b'], since: new Date(0) },
+          { tags: ['a'], since: new Date(0) }
+        )
+      ).toBe(true);
+      expect(await memory.compareAndSet('filters', { tags: ['a', 'b'] }, {})).toBe(false);
+    });
+
+    it('should bump the version on every write', async () => {
+      await memory.set('count', 1);
+      await memory.compareAndSet('count', 1, 2);
+
+      expect((await adapter.getItem('conversation_count'))?.version).toBe(2);
+    });
+
+    it('should let only one of two concurrent writers win', async () => {
+      await memory.set('owner', 'nobody');
+
+      const results = await Promise.all([
+        memory.compareAndSet('owner', 'nobody', 'plugin-a'),
+        new MemoryManager({ adapter }).compareAndSet('owner', 'nobody', 'plugin-b'),
+      ]);
+
+      expect(results).toEqual([true, false]);
+      expect(await memory.get('owner')).toBe('plugin-a');
+    });
+  });
+
+  describe('transaction', () => {
+    it('should read its own writes and commit every key together', async () => {
+      const callback = jest.fn();
+      const unsubscribe = memory.subscribe('', callback, { prefix: true });
+
+      const result = await memory.transaction(async tx => {
+        tx.set('a', 1);
+        tx.set('b', 2, { scope: 'project' });
+        expect(await tx.get('a')).toBe(1);
+        expect(callback).not.toHaveBeenCalled();
+
+        tx.delete('a');
+        expect(await tx.get('a', { scope: 'conversation', fallback: 0 })).toBe(0);
+        return 'done';
+      });
+      unsubscribe();
+
+      expect(result).toBe('done');
+      expect(await memory.get('a')).toBeUndefined();
+      expect(await memory.get('b', { scope: 'project' })).toBe(2);
+      expect(callback.mock.calls.map(([, change]) => change.key)).toEqual(['b']);
+    });
+
+    it('should write nothing when the transaction function throws', async () => {
+      await expect(
+        memory.transaction(async tx => {
+          tx.set('a', 1);
+          throw new Error('aborted');
+        })
+      ).rejects.toThrow('aborted');
+
+      expect(await adapter.keys()).toEqual([]);
+    });
+
+    it('should re-run when a key it read changes before commit', async () => {
+      await memory.set('count', 0);
+      const fn = jest.fn(async tx => {
+        const count = await tx.get('count');
+        if (fn.mock.calls.length === 1) {
+          await memory.set('count', 10);
+        }
+        tx.set('count', count + 1);
+      });
+
+      await memory.transaction(fn);
+
+      expect(fn).toHaveBeenCalledTimes(2);
+      expect(await memory.get('count')).toBe(11);
+    });
+
+    it('should reject after running out of retries', async () => {
+      await memory.set('count', 0);
+
+      await expect(
+        memory.transaction(
+          async tx => {
+            const count = await tx.get<number>('count');
+            await memory.set('count', (count ?? 0) + 100);
+            tx.set('count', -1);
+          },
+          { retries: 1 }
+        )
+      ).rejects.toMatchObject({ code: 'MEMORY_TRANSACTION_CONFLICT' });
+
+      expect(await memory.get('count')).toBe(200);
+    });
+
+    it('should roll back earlier writes when a later write fails', async () => {
+      await memory.set('a', 'original');
+      const setItem = adapter.setItem;
+      adapter.setItem = jest.fn(async (key, entry) => {
+        if (key === 'conversation_b') {
+          throw new Error('disk full');
+        }
+        return setItem(key, entry);
+      });
+
+      await expect(
+        memory.transaction(async tx => {
+          tx.set('a', 'changed');
+          tx.set('b', 'new');
+        })
+      ).rejects.toThrow('Failed to store memory');
+
+      expect(await memory.get('a')).toBe('original');
+      expect(await memory.get('b')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import {
+  createHashingEmbedding,
+  createInMemoryVectorIndex,
+  createVectorMemory,
+} from '../../src/core/memory';
+import { ValidationError } from '../../src/core/errors';
+
+describe('Vector memory', () => {
+  it('should return the most relevant texts as context items', async () => {
+    const vectors = createVectorMemory();
+
+    await vectors.upsert('billing', 'Invoices are due within thirty days', {
+      title: 'Billing policy',
+    });
+    await vectors.upsert('shipping', 'Orders ship within two business days', {
+      source: 'https://example.com/shipping',
+    });
+
+    const results = await vectors.search('when are invoices due', { topK: 1 });
+
+    expect(results).toHaveLength(1);
+    expect(results[0]).toMatchObject({
+      content: 'Invoices are due within thirty days',
+      title: 'Billing policy',
+      source: 'billing',
+    });
+    expect(results[0].relevance).toBeGreaterThan(0);
+    expect(results[0].relevance).toBeLessThanOrEqual(1);
+
+    const [shipping] = await vectors.search('orders ship');
+    expect(shipping.source).toBe('https://example.com/shipping');
+  });
+
+  it('should replace and delete records by id', async () => {
+    const vectors = createVectorMemory();
+
+    await vectors.upsert('note', 'first draft');
+    await vectors.upsert('note', 'final version');
+    expect((await vectors.search('draft version')).map(item => item.content)).toEqual([
+      'final version',
+    ]);
+
+    await vectors.delete('note');
+    expect(await vectors.search('final version')).toEqual([]);
+  });
+
+  it('should filter by metadata fields or a predicate', async () => {
+    const vectors = createVectorMemory();
+    await vectors.upsert('a', 'project roadmap', { project: 'alpha', year: 2024 });
+    await vectors.upsert('b', 'project roadmap', { project: 'beta', year: 2025 });
+
+    const byField = await vectors.search('roadmap', { filter: { project: 'beta' } });
+    const byPredicate = await vectors.search('roadmap', {
+      filter: metadata => (metadata.year as number) < 2025,
+    });
+
+    expect(byField.map(item => item.source)).toEqual(['b']);
+    expect(byPredicate.map(item => item.source)).toEqual(['a']);
+  });
+
+  it('should drop results below the minimum relevance', async () => {
+    const vectors = createVectorMemory();
+    await vectors.upsert('a', 'apples and pears');
+    await vectors.upsert('b', 'quarterly tax filing');
+
+    const results = await vectors.search('apples', { minRelevance: 0.1 });
+
+    expect(results.map(item => item.source)).toEqual(['a']);
+  });
+
+  it('should use a pluggable embedding function and index', async () => {
+    const embed = jest.fn((text: string) => (text.includes('cat') ? [1, 0] : [0, 1]));
+    const index = createInMemoryVectorIndex();
+    const upsert = jest.spyOn(index, 'upsert');
+    const vectors = createVectorMemory({ embed, index });
+
+    await vectors.upsert('pet', 'a cat on the sofa', { kind: 'animal' });
+    await vectors.upsert('car', 'a red car');
+
+    expect(upsert).toHaveBeenCalledWith({
+      id: 'pet',
+      text: 'a cat on the sofa',
+      metadata: { kind: 'animal' },
+      vector: [1, 0],
+    });
+    expect((await vectors.search('my cat'))[0]).toEqual({
+      content: 'a cat on the sofa',
+      title: undefined,
+      source: 'pet',
+      relevance: 1,
+    });
+
+    await vectors.clear();
+    expect(await vectors.search('my cat')).toEqual([]);
+  });
+
+  it('should reject queries with different dimensions', async () => {
+    const index = createInMemoryVectorIndex();
+    await index.upsert({ id: 'a', text: 'a', metadata: {}, vector: [1, 0, 0] });
+
+    await expect(index.search([1, 0], { topK: 1 })).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it('should produce fixed size hashing embeddings', () => {
+    const embed = createHashingEmbedding(16);
+
+    expect(embed('Hello, hello world')).toHaveLength(16);
+    expect(embed('')).toEqual(new Array(16).fill(0));
+  });
+});
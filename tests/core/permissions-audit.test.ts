@@ -0,0 +1,154 @@
+import {
+  createPermissionAuditLog,
+  createPolicyConsentProvider,
+  permissionAudit,
+  setConsentProvider,
+  setPermissionCheckAuditing,
+  setPermissionPolicy,
+} from '../../src/core/permissions';
+import { PermissionsManager, permissions } from '../../src/core/permissions/permissions';
+import { PermissionAuditRecord, PermissionRequest } from '../../src/core/permissions/types';
+import { events } from '../../src/core/events';
+import { logger } from '../../src/core/utils/logger';
+
+const memoryRequest: PermissionRequest = { type: 'memory', access: ['read'], scope: 'global' };
+
+describe('Permission audit log', () => {
+  it('should keep frozen records and answer queries', () => {
+    const dropped: PermissionAuditRecord[] = [];
+    const log = createPermissionAuditLog({ limit: 3, onDrop: records => dropped.push(...records) });
+    const plugin = { kind: 'plugin' as const, id: 'weather' };
+
+    log.append({
+      action: 'request',
+      principal: plugin,
+      request: memoryRequest,
+      granted: true,
+      source: 'user',
+    });
+    log.append({
+      action: 'check',
+      request: { type: 'memory', access: ['read'] },
+      granted: true,
+      source: 'stored',
+    });
+    log.append({
+      action: 'request',
+      principal: plugin,
+      request: { ...memoryRequest, type: 'network' },
+      granted: false,
+      source: 'policy',
+    });
+    const last = log.append({ action: 'revoke', request: { type: 'memory' }, granted: false });
+
+    expect(() => {
+      (last as { granted: boolean }).granted = true;
+    }).toThrow();
+    expect(log.query().map(record => record.id)).toEqual([2, 3, 4]);
+    expect(dropped).toMatchObject([{ id: 1, action: 'request' }]);
+    expect(log.query({ principal: { kind: 'plugin' } })).toMatchObject([
+      { request: { type: 'network' } },
+    ]);
+    expect(log.query({ type: 'memory', limit: 1 })).toEqual([last]);
+    expect(log.query({ granted: true, source: 'stored' })).toHaveLength(1);
+    expect(log.query({ since: last.timestamp + 1 })).toEqual([]);
+
+    const lines = log.toJSONLines({ action: 'revoke' }).split('\n');
+    expect(lines.map(line => JSON.parse(line))).toEqual([{ ...last }]);
+  });
+
+  it('should warn the first time records are dropped without onDrop', () => {
+    const warn = jest.spyOn(logger, 'warn').mockImplementation(() => undefined);
+    const log = createPermissionAuditLog({ limit: 1 });
+
+    log.append({ action: 'revoke', request: { type: 'memory' }, granted: false });
+    log.append({ action: 'revoke', request: { type: 'memory' }, granted: false });
+    log.append({ action: 'revoke', request: { type: 'memory' }, granted: false });
+
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0][0]).toContain('limit of 1 records');
+    warn.mockRestore();
+  });
+
+  describe('permissions API', () => {
+    let records: Array<[string, PermissionAuditRecord]>;
+    let unsubscribers: Array<() => void>;
+
+    beforeEach(() => {
+      localStorage.clear();
+      records = [];
+      unsubscribers = ['granted', 'denied', 'checked', 'revoked'].map(name =>
+        events.subscribe<PermissionAuditRecord>(`permission:${name}`, record =>
+          records.push([name, record])
+        )
+      );
+    });
+
+    afterEach(() => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      setPermissionCheckAuditing(false);
+      setConsentProvider(null);
+      setPermissionPolicy(null);
+    });
+
+    it('should record requests, checks and revocations with their source', async () => {
+      const principal = { kind: 'app' as const, id: 'notes' };
+      const app = new PermissionsManager(principal);
+      setConsentProvider(createPolicyConsentProvider('grant'));
+      setPermissionCheckAuditing(true);
+
+      await app.request(memoryRequest);
+      await app.request(memoryRequest);
+      await app.check('memory', ['read'], 'global');
+      await app.revoke('memory', ['read'], 'global');
+      await app.check('memory', ['read'], 'global');
+
+      expect(records.map(([name, record]) => [name, record.source])).toEqual([
+        ['granted', 'user'],
+        ['granted', 'stored'],
+        ['checked', 'stored'],
+        ['revoked', undefined],
+        ['checked', 'stored'],
+      ]);
+      expect(records[0][1]).toMatchObject({
+        action: 'request',
+        principal,
+        request: memoryRequest,
+        granted: true,
+        access: ['read'],
+        expiresAt: expect.any(Number),
+      });
+      expect(records[4][1]).toMatchObject({ principal, granted: false });
+      expect(permissionAudit.query({ limit: 5 })).toEqual(records.map(([, record]) => record));
+    });
+
+    it('should leave routine checks out unless check auditing is enabled', async () => {
+      setConsentProvider(createPolicyConsentProvider('grant'));
+
+      await permissions.request(memoryRequest);
+      const last = permissionAudit.query({ limit: 1 })[0];
+      await permissions.check('memory', ['read'], 'global');
+      await permissions.check('network', ['read'], 'global');
+
+      expect(records.map(([name]) => name)).toEqual(['granted']);
+      expect(permissionAudit.query({ limit: 1 })).toEqual([last]);
+    });
+
+    it('should record policy decisions and expired grants', async () => {
+      setPermissionPolicy({ rules: [{ effect: 'deny', type: 'network' }] });
+      setConsentProvider(createPolicyConsentProvider(() => ({ access: ['read'], duration: 1 })));
+
+      await permissions.request({ ...memoryRequest, type: 'network' });
+      await permissions.request(memoryRequest);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      await permissions.check('memory', ['read'], 'global');
+
+      expect(records.map(([name, record]) => [name, record.source])).toEqual([
+        ['denied', 'policy'],
+        ['granted', 'user'],
+        ['checked', 'expired'],
+      ]);
+      expect(records[2][1].granted).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,204 @@
+import { webcrypto } from 'crypto';
+import { TextDecoder, TextEncoder } from 'util';
+import {
+  claimCapabilityAuthority,
+  createPolicyConsentProvider,
+  permissionAudit,
+  setConsentProvider,
+  setPermissionCheckAuditing,
+  verifyCapability,
+} from '../../src/core/permissions';
+import { PermissionsManager } from '../../src/core/permissions/permissions';
+import { ConfigurationError, PermissionError, SDKError } from '../../src/core/errors';
+import { createAgent } from '../../src/agent/createAgent';
+import { createPlugin } from '../../src/plugin/createPlugin';
+
+// jsdom implements neither SubtleCrypto nor the encoding API
+if (!globalThis.crypto?.subtle) {
+  Object.defineProperty(globalThis, 'crypto', { value: webcrypto, configurable: true });
+}
+Object.assign(globalThis, { TextEncoder, TextDecoder });
+
+const orchestrator = { kind: 'agent' as const, id: 'orchestrator' };
+const search = { kind: 'plugin' as const, id: 'com.acme.search' };
+const summarizer = { kind: 'plugin' as const, id: 'com.acme.summarizer' };
+
+// The host claims the authority before any other code runs
+const authority = claimCapabilityAuthority();
+
+describe('Capability tokens', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    authority.setKey('test secret');
+  });
+
+  afterEach(() => {
+    authority.setKey(null);
+    setConsentProvider(null);
+    setPermissionCheckAuditing(false);
+  });
+
+  it('should mint tokens that verify offline', async () => {
+    const token = await authority.mint({
+      principal: search,
+      permissions: ['memory:read,write:conversation'],
+      expiresIn: 60000,
+    });
+    const claims = await verifyCapability(token);
+
+    expect(claims).toMatchObject({
+      principal: search,
+      permissions: [{ type: 'memory', access: ['read', 'write'], scope: 'conversation' }],
+    });
+    expect(claims.expiresAt - claims.issuedAt).toBe(60000);
+
+    await expect(verifyCapability(token, { now: claims.expiresAt })).rejects.toMatchObject({
+      code: 'CAPABILITY_INVALID',
+    });
+  });
+
+  it('should reject tampered tokens and tokens signed with another key', async () => {
+    const token = await authority.mint({ principal: search, permissions: ['memory:read'] });
+    const [, payload, signature] = token.split('.');
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    const forged = Buffer.from(
+      JSON.stringify({ ...claims, permissions: [{ type: '*', access: ['*'], scope: 'global' }] })
+    ).toString('base64url');
+
+    await expect(verifyCapability(`cap1.${forged}.${signature}`)).rejects.toBeInstanceOf(SDKError);
+
+    authority.setKey('another secret');
+    await expect(verifyCapability(token)).rejects.toThrow('the signature does not match');
+  });
+
+  it('should only attenuate parent tokens', async () => {
+    const parent = await authority.mint({
+      principal: search,
+      permissions: ['memory:read,write:conversation', 'network:fetch:global'],
+      expiresIn: 60000,
+    });
+
+    const holder = new PermissionsManager(search);
+
+    const child = await holder.delegate(['memory:read:conversation'], {
+      principal: summarizer,
+      expiresIn: 120000,
+      parent,
+    });
+    const claims = await verifyCapability(child);
+
+    expect(claims.issuer).toEqual(search);
+    expect(claims.expiresAt).toBe((await verifyCapability(parent)).expiresAt);
+    await expect(
+      holder.delegate(['memory:read:global'], { principal: summarizer, parent })
+    ).rejects.toBeInstanceOf(PermissionError);
+  });
+
+  it('should keep minting root tokens to the host authority', async () => {
+    const parent = await authority.mint({
+      principal: search,
+      permissions: ['memory:read:conversation'],
+    });
+    const host = new PermissionsManager();
+
+    expect(() => claimCapabilityAuthority()).toThrow(ConfigurationError);
+    await expect(
+      host.delegate(['memory:read:conversation'], { principal: search })
+    ).rejects.toBeInstanceOf(PermissionError);
+    // Seeing a token doesn't let the host delegate it on its holder's behalf
+    await expect(
+      host.delegate(['memory:read:conversation'], { principal: summarizer, parent })
+    ).rejects.toBeInstanceOf(PermissionError);
+  });
+
+  it('should let principals delegate only what they hold', async () => {
+    const permissions = new PermissionsManager(orchestrator);
+
+    await expect(
+      permissions.delegate(['memory:read:conversation'], { principal: search })
+    ).rejects.toBeInstanceOf(PermissionError);
+
+    setConsentProvider(createPolicyConsentProvider('grant'));
+    const grant = await permissions.request({
+      type: 'memory',
+      access: ['read', 'write'],
+      scope: 'conversation',
+      duration: 30000,
+    });
+    const token = await permissions.delegate(['memory:read:conversation'], {
+      principal: search,
+      expiresIn: 60000,
+    });
+
+    // Tokens can't outlive the grants they delegate
+    expect((await verifyCapability(token)).expiresAt).toBe(grant.expiresAt);
+
+    // Only the holder can delegate a token further
+    await expect(
+      permissions.delegate(['memory:read:conversation'], { principal: summarizer, parent: token })
+    ).rejects.toBeInstanceOf(PermissionError);
+    const child = await new PermissionsManager(search).delegate(['memory:read:conversation'], {
+      principal: summarizer,
+      parent: token,
+    });
+    expect((await verifyCapability(child)).issuer).toEqual(search);
+  });
+
+  it('should check permissions against tokens held by the principal', async () => {
+    const token = await authority.mint({
+      principal: search,
+      permissions: ['memory:read:conversation'],
+    });
+    const searchPermissions = new PermissionsManager(search);
+    setPermissionCheckAuditing(true);
+
+    expect(await searchPermissions.check('memory', ['read'], 'conversation', token)).toBe(true);
+    expect(await searchPermissions.check('memory', ['write'], 'conversation', token)).toBe(false);
+    expect(await searchPermissions.check('memory', ['read'], 'conversation')).toBe(false);
+    expect(
+      await new PermissionsManager(summarizer).check('memory', ['read'], 'conversation', token)
+    ).toBe(false);
+    expect(await searchPermissions.check('memory', ['read'], 'conversation', 'cap1.bogus.x')).toBe(
+      false
+    );
+
+    const [record] = permissionAudit.query({ principal: search, source: 'capability', limit: 1 });
+    expect(record).toMatchObject({ action: 'check', granted: false });
+  });
+
+  it('should let an agent delegate a slice of its permissions to a plugin function', async () => {
+    setConsentProvider(createPolicyConsentProvider('grant'));
+    const agent = createAgent({
+      id: 'orchestrator',
+      name: 'Orchestrator',
+      version: '1.0.0',
+      domain: 'planning',
+      capabilities: ['plan'],
+      permissions: ['memory:read,write:conversation'],
+      processQuery: async () => ({ text: 'ok' }),
+    });
+    const plugin = createPlugin({
+      id: 'com.acme.search',
+      name: 'Search',
+      version: '1.0.0',
+      permissions: [],
+      surfaces: {},
+    });
+
+    await new PermissionsManager(orchestrator).request({
+      type: 'memory',
+      access: ['read', 'write'],
+      scope: 'conversation',
+    });
+    const token = await agent.getContext().permissions.delegate(['memory:read:conversation'], {
+      principal: search,
+    });
+
+    expect(await plugin.getContext().permissions.check('memory:read:conversation', token)).toBe(
+      true
+    );
+    expect(await plugin.getContext().permissions.check('memory:write:conversation', token)).toBe(
+      false
+    );
+  });
+});
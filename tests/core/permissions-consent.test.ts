@@ -0,0 +1,137 @@
+import { render, fireEvent, screen } from '@testing-library/react';
+import {
+  createModalConsentProvider,
+  createPolicyConsentProvider,
+  setConsentProvider,
+} from '../../src/core/permissions';
+import { PermissionsManager, permissions } from '../../src/core/permissions/permissions';
+import { PermissionRequest } from '../../src/core/permissions/types';
+import { createModals } from '../../src/surfaces/modals';
+import { logger } from '../../src/core/utils/logger';
+
+const memoryRequest: PermissionRequest = {
+  type: 'memory',
+  access: ['read', 'write'],
+  scope: 'conversation',
+  purpose: 'Remember your notes',
+};
+
+describe('Permission consent', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    setConsentProvider(null);
+  });
+
+  it('should grant and deny by policy without prompting', async () => {
+    const confirm = jest.spyOn(window, 'confirm');
+    const provider = createPolicyConsentProvider('grant');
+    setConsentProvider(provider);
+
+    const result = await permissions.request(memoryRequest);
+
+    expect(result).toMatchObject({ granted: true, access: ['read', 'write'] });
+    expect(provider.requests).toEqual([memoryRequest]);
+    expect(await permissions.check('memory', ['read', 'write'], 'conversation')).toBe(true);
+
+    setConsentProvider(createPolicyConsentProvider('deny'));
+    expect(
+      await permissions.request({ type: 'network', access: ['read'], scope: 'global' })
+    ).toEqual({ granted: false, request: expect.anything() });
+
+    expect(confirm).not.toHaveBeenCalled();
+    confirm.mockRestore();
+  });
+
+  it('should store partial grants', async () => {
+    setConsentProvider(
+      createPolicyConsentProvider(request =>
+        request.type === 'memory' ? { access: ['read', 'delete'], duration: 1000 } : false
+      )
+    );
+
+    const result = await permissions.request(memoryRequest);
+
+    // Access that wasn't requested is never granted
+    expect(result.access).toEqual(['read']);
+    expect(result.expiresAt).toBeLessThanOrEqual(Date.now() + 1000);
+    expect(await permissions.check('memory', ['read'], 'conversation')).toBe(true);
+    expect(await permissions.check('memory', ['write'], 'conversation')).toBe(false);
+    expect(await permissions.check('memory', ['read', 'write'], 'conversation')).toBe(false);
+    expect(await permissions.check('memory', ['read'], 'global')).toBe(false);
+  });
+
+  it('should tell policies which principal is asking', async () => {
+    const search = { kind: 'plugin' as const, id: 'com.acme.search' };
+    const policy = jest.fn(() => true);
+    setConsentProvider(createPolicyConsentProvider(policy));
+
+    await new PermissionsManager(search).request(memoryRequest);
+    await permissions.request(memoryRequest);
+
+    expect(policy).toHaveBeenNthCalledWith(1, memoryRequest, search);
+    expect(policy).toHaveBeenNthCalledWith(2, memoryRequest, undefined);
+  });
+
+  it('should deny without prompting when no provider is registered', async () => {
+    const confirm = jest.spyOn(window, 'confirm');
+    const warn = jest.spyOn(logger, 'warn');
+
+    const result = await permissions.request(memoryRequest);
+
+    expect(result.granted).toBe(false);
+    expect(confirm).not.toHaveBeenCalled();
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('no consent provider is registered'));
+    confirm.mockRestore();
+    warn.mockRestore();
+  });
+
+  describe('modal consent provider', () => {
+    it('should ask with a dialog and allow partial grants', async () => {
+      const modals = createModals();
+      setConsentProvider(createModalConsentProvider(modals));
+
+      const pending = permissions.request(memoryRequest);
+      await new Promise(resolve => setTimeout(resolve, 0));
+      expect(modals.modals).toHaveLength(1);
+
+      render(modals.modals[0].config.content as React.ReactElement);
+      expect(screen.getByText('Remember your notes')).toBeInTheDocument();
+      fireEvent.click(screen.getByLabelText('write'));
+      fireEvent.click(screen.getByText('Allow'));
+
+      expect(await pending).toMatchObject({ granted: true, access: ['read'] });
+      expect(await permissions.check('memory', ['write'], 'conversation')).toBe(false);
+    });
+
+    it('should name the principal asking in the dialog', async () => {
+      const modals = createModals();
+      setConsentProvider(createModalConsentProvider(modals));
+
+      const pending = new PermissionsManager({ kind: 'agent', id: 'researcher' }).request(
+        memoryRequest
+      );
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      render(modals.modals[0].config.content as React.ReactElement);
+      expect(
+        screen.getByText('Allow the agent "researcher" to access memory in the conversation scope?')
+      ).toBeInTheDocument();
+      fireEvent.click(screen.getByText('Deny'));
+
+      expect(await pending).toMatchObject({ granted: false });
+    });
+
+    it('should deny when the dialog is closed without an answer', async () => {
+      const modals = createModals();
+      const provider = createModalConsentProvider(modals);
+
+      const pending = provider.requestConsent(memoryRequest);
+      modals.hideModal(modals.modals[0].id);
+
+      expect(await pending).toBe(false);
+    });
+  });
+});
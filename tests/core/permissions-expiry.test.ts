@@ -0,0 +1,184 @@
+import {
+  PermissionAuditRecord,
+  PermissionExpiringEvent,
+  PermissionExpiry,
+  compilePermissions,
+  createPolicyConsentProvider,
+  endPermissionSession,
+  listPermissionGrants,
+  parsePermissionPolicy,
+  setConsentProvider,
+  setPermissionPolicy,
+  startPermissionExpiry,
+} from '../../src/core/permissions';
+import { PermissionsManager } from '../../src/core/permissions/permissions';
+import { PermissionRequest } from '../../src/core/permissions/types';
+import { events } from '../../src/core/events';
+import { createApp } from '../../src/app/createApp';
+
+const notes = { kind: 'app' as const, id: 'notes' };
+
+const memoryRequest: PermissionRequest = {
+  type: 'memory',
+  access: ['read', 'write'],
+  scope: 'conversation',
+  duration: 10000,
+};
+
+describe('Permission expiry and renewal', () => {
+  let expiry: PermissionExpiry | undefined;
+  let unsubscribers: Array<() => void>;
+
+  const collect = <T>(event: string): T[] => {
+    const payloads: T[] = [];
+    unsubscribers.push(events.subscribe(event, payload => payloads.push(payload as T)));
+    return payloads;
+  };
+
+  beforeEach(() => {
+    localStorage.clear();
+    unsubscribers = [];
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    expiry?.stop();
+    expiry = undefined;
+    unsubscribers.forEach(unsubscribe => unsubscribe());
+    endPermissionSession();
+    setConsentProvider(null);
+    setPermissionPolicy(null);
+    jest.useRealTimers();
+  });
+
+  it('should warn before grants expire and expire them on schedule', async () => {
+    setConsentProvider(createPolicyConsentProvider('grant'));
+    const expiring = collect<PermissionExpiringEvent>('permission:expiring');
+    const expired = collect<PermissionAuditRecord>('permission:expired');
+    await new PermissionsManager(notes).request(memoryRequest);
+
+    expiry = startPermissionExpiry({ warnBefore: 4000 });
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(expiring).toHaveLength(0);
+
+    await jest.advanceTimersByTimeAsync(1500);
+    expect(expiring).toEqual([
+      expect.objectContaining({
+        grant: expect.objectContaining({ principalKey: 'app/notes' }),
+        expiresIn: expect.any(Number),
+      }),
+    ]);
+    expect(expiring[0].expiresIn).toBeLessThanOrEqual(4000);
+
+    await jest.advanceTimersByTimeAsync(4000);
+    expect(expiring).toHaveLength(1);
+    expect(expired).toEqual([
+      expect.objectContaining({ action: 'expire', principal: notes, source: 'expired' }),
+    ]);
+    expect(await listPermissionGrants(notes)).toEqual([]);
+  });
+
+  it('should auto-renew grants when the policy says so', async () => {
+    const provider = createPolicyConsentProvider('grant');
+    setConsentProvider(provider);
+    setPermissionPolicy({ rules: [{ effect: 'prompt', type: 'memory', renew: 'auto' }] });
+    const permissions = new PermissionsManager(notes);
+    const { expiresAt } = await permissions.request(memoryRequest);
+
+    expiry = startPermissionExpiry({ warnBefore: 4000, autoRenew: true });
+    await jest.advanceTimersByTimeAsync(6500);
+
+    const [grant] = await listPermissionGrants(notes);
+    expect(provider.requests).toHaveLength(1);
+    expect(grant.expiresAt).toBeGreaterThan(expiresAt as number);
+
+    await jest.advanceTimersByTimeAsync(6000);
+    expect(await permissions.check('memory', ['write'], 'conversation')).toBe(true);
+  });
+
+  it('should re-prompt on renewal unless the policy allows it', async () => {
+    const provider = createPolicyConsentProvider('grant');
+    setConsentProvider(provider);
+    const permissions = new PermissionsManager(notes);
+    await permissions.request(memoryRequest);
+
+    const renewed = await permissions.renew('memory', ['read', 'write'], 'conversation');
+    expect(renewed.granted).toBe(true);
+    expect(provider.requests).toHaveLength(2);
+
+    // Declining a renewal leaves the grant until it expires
+    setConsentProvider(createPolicyConsentProvider('deny'));
+    expect((await permissions.renew('memory', ['read'], 'conversation')).granted).toBe(false);
+    expect(await permissions.check('memory', ['read'], 'conversation')).toBe(true);
+
+    setPermissionPolicy({ rules: [{ effect: 'deny', type: 'memory' }] });
+    expect((await permissions.renew('memory', ['read'], 'conversation')).granted).toBe(false);
+    expect(await permissions.check('memory', ['read'], 'conversation')).toBe(false);
+  });
+
+  it('should not renew grants that have expired', async () => {
+    const provider = createPolicyConsentProvider('grant');
+    setConsentProvider(provider);
+    setPermissionPolicy({ rules: [{ effect: 'prompt', type: 'memory', renew: 'auto' }] });
+    const expired = collect<PermissionAuditRecord>('permission:expired');
+    const permissions = new PermissionsManager(notes);
+    await permissions.request(memoryRequest);
+
+    await jest.advanceTimersByTimeAsync(10001);
+
+    expect((await permissions.renew('memory', ['read', 'write'], 'conversation')).granted).toBe(
+      false
+    );
+    expect(await permissions.check('memory', ['read'], 'conversation')).toBe(false);
+    expect(provider.requests).toHaveLength(1);
+    expect(expired).toEqual([expect.objectContaining({ principal: notes, source: 'expired' })]);
+  });
+
+  it('should validate renew in policies', () => {
+    expect(() => parsePermissionPolicy({ rules: [{ effect: 'allow', renew: 'never' }] })).toThrow(
+      'Invalid permission policy'
+    );
+  });
+
+  it('should end session-only grants when the app unmounts', async () => {
+    setConsentProvider(createPolicyConsentProvider('grant'));
+    const expired = collect<PermissionAuditRecord>('permission:expired');
+    const app = createApp({ name: 'notes' });
+    const permissions = new PermissionsManager(notes);
+
+    await permissions.request({ ...memoryRequest, session: true });
+    await permissions.request({ type: 'network', access: ['fetch'], scope: 'global' });
+
+    expect(localStorage.getItem('vibing_permissions')).not.toContain('memory');
+    expect(await permissions.check('memory', ['read'], 'conversation')).toBe(true);
+
+    await app.unmount?.();
+
+    expect(await permissions.check('memory', ['read'], 'conversation')).toBe(false);
+    expect(await permissions.check('network', ['fetch'], 'global')).toBe(true);
+    expect(expired).toEqual([expect.objectContaining({ principal: notes, source: 'session' })]);
+  });
+
+  it('should keep compiled session-only permissions session-only', async () => {
+    setConsentProvider(createPolicyConsentProvider('grant'));
+    const permissions = new PermissionsManager(notes);
+    const [request] = compilePermissions([{ ...memoryRequest, session: true }, 'memory:delete']);
+
+    expect(request).toMatchObject({ access: ['read', 'write', 'delete'], session: true });
+    await permissions.request(request);
+
+    expect(localStorage.getItem('vibing_permissions')).not.toContain('memory');
+    expect(endPermissionSession([notes])).toHaveLength(1);
+    expect(await permissions.check('memory', ['read'], 'conversation')).toBe(false);
+  });
+
+  it('should end every session-only grant when the conversation ends', async () => {
+    setConsentProvider(createPolicyConsentProvider('grant'));
+    const plugin = new PermissionsManager({ kind: 'plugin', id: 'com.acme.search' });
+    await plugin.request({ ...memoryRequest, session: true });
+    await new PermissionsManager(notes).request({ ...memoryRequest, session: true });
+
+    expect(endPermissionSession()).toHaveLength(2);
+    expect(await listPermissionGrants()).toEqual([]);
+  });
+});
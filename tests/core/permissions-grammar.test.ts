@@ -0,0 +1,185 @@
+import {
+  compilePermissions,
+  createPolicyConsentProvider,
+  formatPermission,
+  matchesPermission,
+  parsePermission,
+  setConsentProvider,
+} from '../../src/core/permissions';
+import { ValidationError } from '../../src/core/errors';
+import { createPlugin } from '../../src/plugin/createPlugin';
+import { createApp } from '../../src/app/createApp';
+import { getApp, registerApp, unregisterApp } from '../../src/common/app/appManager';
+
+describe('Permission grammar', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    setConsentProvider(null);
+  });
+
+  describe('parsePermission', () => {
+    it('should parse every supported form', () => {
+      expect(parsePermission('memory:read')).toEqual({ type: 'memory', access: ['read'] });
+      expect(parsePermission('memory:read,write:project')).toEqual({
+        type: 'memory',
+        access: ['read', 'write'],
+        scope: 'project',
+      });
+      expect(parsePermission('memory.read')).toEqual({ type: 'memory', access: ['read'] });
+      expect(parsePermission('surfaces.cards.create')).toEqual({
+        type: 'surfaces.cards',
+        access: ['create'],
+      });
+      expect(parsePermission('files:read:user')).toEqual({ type: 'files.user', access: ['read'] });
+      expect(parsePermission('network:*:*')).toEqual({
+        type: 'network',
+        access: ['*'],
+        scope: '*',
+      });
+    });
+
+    it('should reject strings that are not permissions', () => {
+      for (const permission of ['memory', 'memory:', 'a:b:c:d', 'memory:read write', '.read']) {
+        expect(() => parsePermission(permission)).toThrow(ValidationError);
+      }
+    });
+
+    it('should round-trip through the canonical form', () => {
+      expect(formatPermission('surfaces.cards.create')).toBe('surfaces.cards:create');
+      expect(
+        formatPermission({ type: 'memory', access: ['read', 'write'], scope: 'conversation' })
+      ).toBe('memory:read,write:conversation');
+      expect(parsePermission(formatPermission('files:read:user'))).toEqual(
+        parsePermission('files:read:user')
+      );
+    });
+  });
+
+  describe('matchesPermission', () => {
+    it('should match wildcards in types, access and scopes', () => {
+      expect(matchesPermission('surfaces.*:create', 'surfaces.cards.create')).toBe(true);
+      expect(matchesPermission('surfaces.cards:*', 'surfaces.cards:create,delete')).toBe(true);
+      expect(matchesPermission('memory:read', 'memory:read,write')).toBe(false);
+      expect(matchesPermission('memory:read:project', 'memory:read:global')).toBe(false);
+      expect(matchesPermission('memory:read:*', 'memory:read:global')).toBe(true);
+      expect(matchesPermission({ type: 'memory', access: ['read'] }, 'memory:read:global')).toBe(
+        true
+      );
+    });
+  });
+
+  describe('compilePermissions', () => {
+    it('should compile and merge any form to requests', () => {
+      expect(
+        compilePermissions(
+          [
+            'memory.read',
+            'memory:write',
+            'surfaces.cards.create',
+            { type: 'network', access: ['fetch'], scope: 'global', purpose: 'Sync notes' },
+          ],
+          { purpose: 'Notes' }
+        )
+      ).toEqual([
+        { type: 'memory', access: ['read', 'write'], scope: 'conversation', purpose: 'Notes' },
+        { type: 'surfaces.cards', access: ['create'], scope: 'conversation', purpose: 'Notes' },
+        { type: 'network', access: ['fetch'], scope: 'global', purpose: 'Sync notes' },
+      ]);
+    });
+
+    it('should list every invalid permission', () => {
+      let error: ValidationError | undefined;
+      try {
+        compilePermissions([
+          'memory:read',
+          'memory',
+          'memory:read:*',
+          { type: 'memory', access: 'read' } as never,
+        ]);
+      } catch (e) {
+        error = e as ValidationError;
+      }
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(Object.keys(error?.validationErrors || {})).toEqual([
+        'permissions[1]',
+        'permissions[2]',
+        'permissions[3]',
+      ]);
+    });
+  });
+
+  describe('compiled permissions', () => {
+    it('should guard plugins declaring permission strings', async () => {
+      setConsentProvider(createPolicyConsentProvider('grant'));
+      const plugin = createPlugin({
+        id: 'com.acme.notes',
+        name: 'Notes',
+        version: '1.0.0',
+        permissions: ['memory.read', 'network:fetch:global'],
+        promptOnFirstUse: true,
+        surfaces: {},
+      });
+
+      const context = plugin.getContext();
+
+      expect(await context.memory.get('draft')).toBeUndefined();
+      await expect(context.memory.set('draft', 'Hello')).rejects.toMatchObject({
+        name: 'PermissionError',
+      });
+      expect(await context.permissions.check('memory.read')).toBe(false);
+      expect(await context.permissions.check('memory:read:conversation')).toBe(true);
+      expect(await context.permissions.check('network:fetch:global')).toBe(false);
+    });
+
+    it('should reject plugins declaring invalid permission strings', () => {
+      expect(() =>
+        createPlugin({
+          id: 'com.acme.notes',
+          name: 'Notes',
+          version: '1.0.0',
+          permissions: ['memory'],
+          surfaces: {},
+        })
+      ).toThrow(ValidationError);
+    });
+
+    it('should request the permissions an app declares in any form', async () => {
+      const provider = createPolicyConsentProvider('grant');
+      setConsentProvider(provider);
+      const app = createApp({ name: 'notes', permissions: ['memory:read', 'memory.write'] });
+
+      await (app as { _requestPermissions?: () => Promise<void> })._requestPermissions?.();
+
+      expect(provider.requests).toEqual([
+        {
+          type: 'memory',
+          access: ['read', 'write'],
+          scope: 'conversation',
+          purpose: 'Required for notes to function',
+        },
+      ]);
+    });
+
+    it('should compile manifest permissions on registration', () => {
+      registerApp({
+        id: 'com.vibing.template-app',
+        name: 'Template',
+        version: '1.0.0',
+        permissions: ['memory.read', 'memory.write', 'surfaces.cards.create'],
+      });
+
+      expect(getApp('com.vibing.template-app')?.permissions).toEqual([
+        { type: 'memory', access: ['read', 'write'], scope: 'conversation' },
+        { type: 'surfaces.cards', access: ['create'], scope: 'conversation' },
+      ]);
+      unregisterApp('com.vibing.template-app');
+
+      registerApp({ id: 'broken', name: 'Broken', version: '1.0.0', permissions: ['memory'] });
+      expect(getApp('broken')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,256 @@
+import {
+  PermissionsManager,
+  createPermissionGuard,
+  createPolicyConsentProvider,
+  setConsentProvider,
+} from '../../src/core/permissions';
+import { PermissionRequest } from '../../src/core/permissions/types';
+import { MemoryTransaction } from '../../src/core/memory/types';
+import { Scope } from '../../src/core/types';
+import { PermissionError } from '../../src/core/errors';
+import { createPlugin } from '../../src/plugin/createPlugin';
+import { MemoryManager, createInMemoryAdapter, memory } from '../../src/core/memory';
+import { AppId, PluginId } from '../../src/types/utilities';
+
+const principal = { kind: 'plugin' as const, id: 'com.acme.notes' };
+
+const declared: PermissionRequest[] = [
+  { type: 'memory', access: ['read', 'write'], scope: 'project' },
+  { type: 'surfaces.cards', access: ['*'], scope: 'conversation' },
+];
+
+const createMemory = () => ({
+  get: jest.fn(async (key: string, _options?: { scope: Scope }) => `value of ${key}`),
+  set: jest.fn(async (_key: string, _value: unknown, _options?: { scope: Scope }) => undefined),
+  subscribe: jest.fn((_key: string, _callback: () => void, _options?: { scope: Scope }) =>
+    jest.fn()
+  ),
+  transaction: jest.fn(async (fn: (tx: MemoryTransaction) => Promise<unknown>) =>
+    fn({ get: async () => undefined, set: jest.fn(), delete: jest.fn() })
+  ),
+  setEncryption: jest.fn(),
+});
+
+describe('Permission guard', () => {
+  let permissions: PermissionsManager;
+
+  beforeEach(() => {
+    localStorage.clear();
+    permissions = new PermissionsManager(principal);
+  });
+
+  afterEach(() => {
+    setConsentProvider(null);
+  });
+
+  it('should reject memory calls without a granted, declared permission', async () => {
+    const memory = createMemory();
+    const guarded = createPermissionGuard({ principal, permissions, declared }).memory(memory);
+
+    await expect(guarded.set('draft', 'Hello', { scope: 'project' })).rejects.toMatchObject({
+      name: 'PermissionError',
+      requiredPermission: 'memory:write:project',
+    });
+    expect(memory.set).not.toHaveBeenCalled();
+
+    setConsentProvider(createPolicyConsentProvider(() => ({ access: ['read'] })));
+    await permissions.request(declared[0]);
+
+    expect(await guarded.get('draft', { scope: 'project' })).toBe('value of draft');
+    await expect(guarded.set('draft', 'Hello', { scope: 'project' })).rejects.toBeInstanceOf(
+      PermissionError
+    );
+  });
+
+  it('should check memory calls in the scope they use', async () => {
+    setConsentProvider(createPolicyConsentProvider('grant'));
+    const memory = createMemory();
+    const guard = createPermissionGuard({
+      principal,
+      permissions,
+      declared: [
+        { type: 'memory', access: ['read', 'write'], scope: 'conversation' },
+        { type: 'memory', access: ['read', 'write'], scope: 'global' },
+      ],
+    });
+    const guarded = guard.memory(memory);
+    await permissions.request({ type: 'memory', access: ['read', 'write'], scope: 'conversation' });
+
+    await guarded.set('draft', 'Hello');
+    await expect(guarded.set('draft', 'Hello', { scope: 'global' })).rejects.toMatchObject({
+      requiredPermission: 'memory:write:global',
+    });
+    expect(memory.set).toHaveBeenCalledTimes(1);
+
+    // Transactions are checked for the scopes they write to before they commit
+    await guarded.transaction(async tx => tx.set('draft', 'Hello'));
+    await expect(
+      guarded.transaction(async tx => tx.set('draft', 'Hello', { scope: 'global' }))
+    ).rejects.toBeInstanceOf(PermissionError);
+  });
+
+  it("should check memory calls without a scope in the manager's default scope", async () => {
+    setConsentProvider(createPolicyConsentProvider('grant'));
+    const manager = new MemoryManager({ scope: 'project', adapter: createInMemoryAdapter() });
+    const guarded = createPermissionGuard({
+      principal,
+      permissions,
+      declared: [
+        { type: 'memory', access: ['read', 'write'], scope: 'project' },
+        { type: 'memory', access: ['read', 'write'], scope: 'conversation' },
+      ],
+    }).memory(
+      manager.forPrincipal({ ...principal, id: principal.id as PluginId }, { permissions })
+    );
+    await permissions.request({ type: 'memory', access: ['read', 'write'], scope: 'project' });
+
+    await guarded.set('draft', 'Hello');
+    expect(await guarded.get('draft')).toBe('Hello');
+    await expect(guarded.set('draft', 'Hello', { scope: 'conversation' })).rejects.toMatchObject({
+      requiredPermission: 'memory:write:conversation',
+    });
+  });
+
+  it('should deny memory methods for hosts', () => {
+    const memory = createMemory();
+    const guarded = createPermissionGuard({ principal, permissions, declared }).memory(memory);
+
+    expect(() => guarded.setEncryption()).toThrow(
+      'plugin/com.acme.notes may not call memory.setEncryption'
+    );
+    expect(memory.setEncryption).not.toHaveBeenCalled();
+  });
+
+  it('should start memory subscriptions once reading is granted', async () => {
+    const memory = createMemory();
+    const guarded = createPermissionGuard({ principal, permissions, declared }).memory(memory);
+    const callback = jest.fn();
+
+    expect(() => guarded.subscribe('draft', callback)).toThrow(PermissionError);
+
+    const pending = guarded.subscribe('draft', callback, { scope: 'project' });
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(memory.subscribe).not.toHaveBeenCalled();
+    pending();
+
+    setConsentProvider(createPolicyConsentProvider('grant'));
+    await permissions.request(declared[0]);
+    const unsubscribe = guarded.subscribe('draft', callback, { scope: 'project' });
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(memory.subscribe).toHaveBeenCalledWith('draft', callback, { scope: 'project' });
+
+    unsubscribe();
+    expect(memory.subscribe.mock.results[0].value).toHaveBeenCalled();
+  });
+
+  it('should reject undeclared permissions even when granted', async () => {
+    setConsentProvider(createPolicyConsentProvider('grant'));
+    await permissions.request({ type: 'surfaces.panels', access: ['show'], scope: 'conversation' });
+    const show = jest.fn();
+    const guarded = createPermissionGuard({ principal, permissions, declared }).surfaces({
+      panels: { show },
+    });
+
+    await expect(guarded.panels.show()).rejects.toMatchObject({
+      message: 'plugin/com.acme.notes did not declare show access to surfaces.panels',
+    });
+    expect(show).not.toHaveBeenCalled();
+  });
+
+  it('should prompt on first use', async () => {
+    const provider = createPolicyConsentProvider('grant');
+    setConsentProvider(provider);
+    const create = jest.fn(() => 'card-1');
+    const guard = createPermissionGuard({
+      principal,
+      permissions,
+      declared,
+      promptOnFirstUse: true,
+    });
+    const surfaces = guard.surfaces({ cards: { create } });
+
+    const results = await Promise.all([surfaces.cards.create(), surfaces.cards.create()]);
+
+    expect(results).toEqual(['card-1', 'card-1']);
+    expect(provider.requests).toEqual([declared[1]]);
+    await surfaces.cards.create();
+    expect(provider.requests).toHaveLength(1);
+
+    setConsentProvider(createPolicyConsentProvider('deny'));
+    await expect(
+      guard.memory(createMemory()).get('draft', { scope: 'project' })
+    ).rejects.toBeInstanceOf(PermissionError);
+  });
+
+  it('should restrict publishing on SDK channels', async () => {
+    const bus = { publish: jest.fn(), subscribe: jest.fn() };
+    const guarded = createPermissionGuard({ principal, permissions, declared }).events(bus);
+
+    expect(() => guarded.publish('app:initialized', {})).toThrow(PermissionError);
+    expect(() => guarded.publish('permission:granted:again', {})).toThrow(PermissionError);
+    guarded.publish('notes:saved', { id: 1 });
+    expect(bus.publish).toHaveBeenCalledWith('notes:saved', { id: 1 });
+
+    const allowed = createPermissionGuard({
+      principal,
+      permissions,
+      declared: [{ type: 'events', access: ['publish'], scope: 'conversation' }],
+      restrictedChannels: ['notes:*'],
+    }).events(bus);
+
+    // Declaring the permission isn't enough without a grant
+    await expect(allowed.publish('notes:saved', { id: 2 })).rejects.toBeInstanceOf(PermissionError);
+    expect(bus.publish).toHaveBeenCalledTimes(1);
+
+    setConsentProvider(createPolicyConsentProvider('grant'));
+    await permissions.request({ type: 'events', access: ['publish'], scope: 'conversation' });
+    await allowed.publish('notes:saved', { id: 3 });
+    expect(bus.publish).toHaveBeenLastCalledWith('notes:saved', { id: 3 });
+
+    // Patterns follow the event bus, so `*` stays within a segment
+    allowed.publish('notes:saved:draft', { id: 4 });
+    expect(bus.publish).toHaveBeenLastCalledWith('notes:saved:draft', { id: 4 });
+  });
+
+  it('should guard plugin contexts', async () => {
+    const plugin = createPlugin({
+      id: principal.id,
+      name: 'Notes',
+      version: '1.0.0',
+      permissions: [],
+      surfaces: {},
+    });
+    const context = plugin.getContext();
+
+    await expect(context.memory.set('draft', 'Hello')).rejects.toBeInstanceOf(PermissionError);
+    expect(() => context.events.publish('permission:granted')).toThrow(PermissionError);
+  });
+
+  it('should bind plugin contexts to the memory namespace of the plugin', async () => {
+    setConsentProvider(createPolicyConsentProvider('grant'));
+    const notes = { kind: 'app' as const, id: 'notes' as AppId };
+    const context = createPlugin({
+      id: principal.id,
+      name: 'Notes',
+      version: '1.0.0',
+      permissions: ['memory:read:conversation'],
+      promptOnFirstUse: true,
+      surfaces: {},
+    }).getContext();
+
+    await memory.set('draft', 'host draft');
+    expect(await context.memory.get('draft')).toBeUndefined();
+
+    await memory.forPrincipal({ kind: 'plugin', id: principal.id as PluginId }).set('draft', 'Hi');
+    expect(await context.memory.get('draft')).toBe('Hi');
+
+    // Sharing needs the access shared, and shared namespaces the plugin's own permissions
+    await expect(context.memory.share(notes, { access: ['write'] })).rejects.toBeInstanceOf(
+      PermissionError
+    );
+    await memory.forPrincipal(notes).share(context.memory.principal, { access: ['write'] });
+    await expect(context.memory.shared(notes).set('draft', 'Hi')).rejects.toMatchObject({
+      requiredPermission: 'memory:write:conversation',
+    });
+  });
+});
@@ -0,0 +1,172 @@
+import {
+  createPolicyConsentProvider,
+  evaluatePermissionPolicy,
+  parsePermissionPolicy,
+  setConsentProvider,
+  setPermissionPolicy,
+} from '../../src/core/permissions';
+import { PermissionsManager, permissions } from '../../src/core/permissions/permissions';
+import { PermissionPolicy, PermissionRequest } from '../../src/core/permissions/types';
+import { ValidationError } from '../../src/core/errors';
+
+const acmePolicy: PermissionPolicy = {
+  rules: [
+    {
+      id: 'read-conversation',
+      effect: 'allow',
+      type: 'memory',
+      access: ['read'],
+      scope: 'conversation',
+    },
+    { id: 'no-memory-delete', effect: 'deny', type: 'memory', access: ['delete'] },
+    { effect: 'prompt', type: 'network', principal: { kind: 'plugin', id: 'com.acme.*' } },
+    { id: 'no-plugin-network', effect: 'deny', type: 'network', principal: { kind: 'plugin' } },
+  ],
+};
+
+const networkRequest: PermissionRequest = { type: 'network', access: ['read'], scope: 'global' };
+
+describe('Permission policies', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    setPermissionPolicy(null);
+    setConsentProvider(null);
+  });
+
+  describe('evaluatePermissionPolicy', () => {
+    it('should let the first matching rule decide', () => {
+      const acme = { kind: 'plugin' as const, id: 'com.acme.search' };
+      const other = { kind: 'plugin' as const, id: 'com.example.search' };
+
+      expect(evaluatePermissionPolicy(acmePolicy, networkRequest, acme)).toMatchObject({
+        effect: 'prompt',
+        ruleIndex: 2,
+      });
+      expect(evaluatePermissionPolicy(acmePolicy, networkRequest, other)).toMatchObject({
+        effect: 'deny',
+        rule: { id: 'no-plugin-network' },
+      });
+      // Rules naming a principal never match requests without one
+      expect(evaluatePermissionPolicy(acmePolicy, networkRequest)).toEqual({
+        effect: 'prompt',
+        ruleIndex: -1,
+      });
+    });
+
+    it('should allow only listed access and deny any listed access', () => {
+      const memoryRequest = (access: string[]): PermissionRequest => ({
+        type: 'memory',
+        access,
+        scope: 'conversation',
+      });
+
+      expect(evaluatePermissionPolicy(acmePolicy, memoryRequest(['read'])).effect).toBe('allow');
+      expect(evaluatePermissionPolicy(acmePolicy, memoryRequest(['read', 'write'])).effect).toBe(
+        'prompt'
+      );
+      expect(evaluatePermissionPolicy(acmePolicy, memoryRequest(['read', 'delete'])).effect).toBe(
+        'deny'
+      );
+      expect(
+        evaluatePermissionPolicy(
+          { rules: [], defaultEffect: 'deny' },
+          { ...memoryRequest(['read']), scope: 'global' }
+        ).effect
+      ).toBe('deny');
+    });
+  });
+
+  describe('parsePermissionPolicy', () => {
+    it('should load policies from JSON', () => {
+      expect(parsePermissionPolicy(JSON.stringify(acmePolicy))).toEqual(acmePolicy);
+    });
+
+    it('should reject invalid policies', () => {
+      expect(() => parsePermissionPolicy('{ rules: ')).toThrow(ValidationError);
+
+      try {
+        parsePermissionPolicy({
+          defaultEffect: 'maybe',
+          rules: [
+            { effect: 'allow', scope: 'session', access: 'read' },
+            { effect: 'deny', principal: { kind: 'user', id: ['ok', 7] } },
+            'deny',
+          ],
+        });
+        fail('Expected a ValidationError');
+      } catch (e) {
+        expect(e).toBeInstanceOf(ValidationError);
+        expect(Object.keys((e as ValidationError).validationErrors).sort()).toEqual([
+          'defaultEffect',
+          'rules[0].access',
+          'rules[0].scope',
+          'rules[1].principal.id',
+          'rules[1].principal.kind',
+          'rules[2]',
+        ]);
+      }
+    });
+  });
+
+  describe('permissions.request', () => {
+    it('should grant and deny by policy before prompting', async () => {
+      const provider = createPolicyConsentProvider('grant');
+      setConsentProvider(provider);
+      setPermissionPolicy(acmePolicy);
+
+      const allowed = await permissions.request({
+        type: 'memory',
+        access: ['read'],
+        scope: 'conversation',
+      });
+      expect(allowed.granted).toBe(true);
+      expect(await permissions.check('memory', ['read'], 'conversation')).toBe(true);
+
+      const denied = await new PermissionsManager({
+        kind: 'plugin',
+        id: 'com.example.search',
+      }).request(networkRequest);
+      expect(denied.granted).toBe(false);
+      expect(provider.requests).toEqual([]);
+
+      const prompted = await new PermissionsManager({
+        kind: 'plugin',
+        id: 'com.acme.search',
+      }).request(networkRequest);
+      expect(prompted.granted).toBe(true);
+      expect(provider.requests).toEqual([networkRequest]);
+    });
+
+    it('should deny by policy even with a stored grant', async () => {
+      const plugin = new PermissionsManager({ kind: 'plugin', id: 'other' });
+      setConsentProvider(createPolicyConsentProvider('grant'));
+      await plugin.request(networkRequest);
+
+      setPermissionPolicy(acmePolicy);
+      const result = await plugin.request(networkRequest);
+
+      expect(result.granted).toBe(false);
+    });
+  });
+
+  describe('permissions.check', () => {
+    it('should fail checks of stored grants once a deny rule is added', async () => {
+      const plugin = new PermissionsManager({ kind: 'plugin', id: 'other' });
+      setConsentProvider(createPolicyConsentProvider('grant'));
+      await plugin.request(networkRequest);
+      await plugin.request({ type: 'memory', access: ['read', 'delete'], scope: 'global' });
+
+      setPermissionPolicy(acmePolicy);
+
+      expect(await plugin.check('network', ['read'], 'global')).toBe(false);
+      expect(await plugin.check('memory', ['delete'], 'global')).toBe(false);
+      expect(await plugin.check('memory', ['read'], 'global')).toBe(true);
+
+      setPermissionPolicy(null);
+      expect(await plugin.check('network', ['read'], 'global')).toBe(true);
+    });
+  });
+});
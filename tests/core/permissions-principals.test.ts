@@ -0,0 +1,102 @@
+import {
+  PermissionsManager,
+  createPolicyConsentProvider,
+  listPermissionGrants,
+  revokePermissionGrants,
+  setConsentProvider,
+} from '../../src/core/permissions';
+import { permissions } from '../../src/core/permissions/permissions';
+import { PermissionRequest } from '../../src/core/permissions/types';
+import { createPlugin } from '../../src/plugin/createPlugin';
+
+const weather = { kind: 'plugin' as const, id: 'com.acme.weather' };
+const search = { kind: 'plugin' as const, id: 'com.acme.search' };
+
+const networkRequest: PermissionRequest = { type: 'network', access: ['read'], scope: 'global' };
+const memoryRequest: PermissionRequest = {
+  type: 'memory',
+  access: ['read', 'write'],
+  scope: 'conversation',
+};
+
+describe('Per-principal permissions', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    setConsentProvider(createPolicyConsentProvider('grant'));
+  });
+
+  afterEach(() => {
+    setConsentProvider(null);
+  });
+
+  it('should bind grants to the principal that requested them', async () => {
+    const weatherPermissions = new PermissionsManager(weather);
+    await weatherPermissions.request(networkRequest);
+
+    expect(weatherPermissions.principal).toEqual(weather);
+    expect(await weatherPermissions.check('network', ['read'], 'global')).toBe(true);
+    expect(await new PermissionsManager(search).check('network', ['read'], 'global')).toBe(false);
+    expect(await permissions.check('network', ['read'], 'global')).toBe(false);
+    expect(Object.values(await weatherPermissions.getAll())).toMatchObject([
+      { principal: weather },
+    ]);
+  });
+
+  it('should list and revoke grants per principal', async () => {
+    await new PermissionsManager(weather).request(networkRequest);
+    await new PermissionsManager(weather).request(memoryRequest);
+    await new PermissionsManager(search).request(networkRequest);
+    await permissions.request(memoryRequest);
+
+    expect(await listPermissionGrants(weather)).toMatchObject([
+      { principalKey: 'plugin/com.acme.weather', key: 'network:read:global' },
+      { principalKey: 'plugin/com.acme.weather', key: 'memory:read,write:conversation' },
+    ]);
+    expect((await listPermissionGrants()).map(grant => grant.principalKey)).toEqual([
+      'plugin/com.acme.weather',
+      'plugin/com.acme.weather',
+      'plugin/com.acme.search',
+      'host',
+    ]);
+
+    expect(await revokePermissionGrants(weather, { type: 'memory' })).toBe(1);
+    expect(await listPermissionGrants(weather)).toMatchObject([{ key: 'network:read:global' }]);
+    expect(await revokePermissionGrants(weather)).toBe(1);
+    expect(await listPermissionGrants(weather)).toEqual([]);
+    expect(await new PermissionsManager(search).check('network', ['read'], 'global')).toBe(true);
+  });
+
+  it('should treat grants stored without principals as host grants', async () => {
+    localStorage.setItem(
+      'vibing_permissions',
+      JSON.stringify({
+        'network:read:global': { granted: true, request: networkRequest, grantedAt: Date.now() },
+      })
+    );
+
+    expect(await permissions.check('network', ['read'], 'global')).toBe(true);
+    expect(await new PermissionsManager(weather).check('network', ['read'], 'global')).toBe(false);
+
+    await new PermissionsManager(weather).request(memoryRequest);
+    expect(Object.keys(JSON.parse(localStorage.getItem('vibing_permissions') || '{}'))).toEqual([
+      'host',
+      'plugin/com.acme.weather',
+    ]);
+  });
+
+  it('should bind plugin context permissions to the plugin id', async () => {
+    const plugin = createPlugin({
+      id: weather.id,
+      name: 'Weather',
+      version: '1.0.0',
+      permissions: [networkRequest],
+      surfaces: {},
+    });
+    const { permissions: context } = plugin.getContext();
+
+    expect(await context.request(networkRequest)).toBe(true);
+    expect(await context.check('network:read:global')).toBe(true);
+    expect(await context.check('memory:read')).toBe(false);
+    expect(await listPermissionGrants(weather)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,47 @@
+import { webcrypto } from 'crypto';
+import { TextDecoder, TextEncoder } from 'util';
+import { createSecureStore } from '../../src/core/security';
+
+// jsdom implements neither SubtleCrypto nor the encoding API
+if (!globalThis.crypto?.subtle) {
+  Object.defineProperty(globalThis, 'crypto', { value: webcrypto, configurable: true });
+}
+Object.assign(globalThis, { TextEncoder, TextDecoder });
+
+describe('Secure store', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should reject unencrypted values once an encryption key is set', async () => {
+    await createSecureStore({ namespace: 'tests' }).setItem('token', { secret: 'abc123' });
+    const store = createSecureStore({ namespace: 'tests', encryptionKey: 'correct horse' });
+
+    expect(await store.getItem('token')).toEqual({
+      success: false,
+      error: 'Data is not encrypted',
+    });
+  });
+
+  it('should encrypt values stored before an encryption key was set when migrating', async () => {
+    await createSecureStore({ namespace: 'tests' }).setItem('token', { secret: 'abc123' });
+    const store = createSecureStore({
+      namespace: 'tests',
+      encryptionKey: 'correct horse',
+      migrateUnencrypted: true,
+    });
+
+    expect(await store.getItem('token')).toEqual({ success: true, data: { secret: 'abc123' } });
+    expect(localStorage.getItem('tests:token')).toMatch(/^aes-gcm:v1:/);
+    expect(await store.getItem('token')).toEqual({ success: true, data: { secret: 'abc123' } });
+  });
+
+  it('should not decrypt values moved to another key', async () => {
+    const store = createSecureStore({ namespace: 'tests', encryptionKey: 'correct horse' });
+    await store.setItem('token', 'abc123');
+
+    localStorage.setItem('tests:other', localStorage.getItem('tests:token')!);
+
+    expect(await store.getItem('other')).toMatchObject({ success: false });
+  });
+});
@@ -0,0 +1,100 @@
+import { renderHook, act } from '@testing-library/react-hooks';
+import { memory, useMemoryCollection } from '../../src/core/memory';
+
+interface Task {
+  title: string;
+  done: boolean;
+}
+
+describe('useMemoryCollection', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should add items in order and store them under the prefix', async () => {
+    const { result, waitForNextUpdate } = renderHook(() => useMemoryCollection<Task>('tasks.'));
+    await waitForNextUpdate();
+    expect(result.current.data).toEqual([]);
+
+    let id: string | undefined;
+    await act(async () => {
+      await result.current.add({ title: 'Write docs', done: false }, 'docs');
+      id = await result.current.add({ title: 'Ship it', done: false });
+    });
+
+    expect(result.current.data.map(item => item.value.title)).toEqual(['Write docs', 'Ship it']);
+    expect(result.current.data[1].id).toBe(id);
+    expect(await memory.get('tasks.docs')).toEqual({ title: 'Write docs', done: false });
+    // The order is kept outside the prefix
+    expect(await memory.get('tasks.')).toBeUndefined();
+    expect(await memory.get('collection-order:tasks.')).toEqual(['docs', id]);
+  });
+
+  it('should update, reorder and remove items', async () => {
+    const { result, waitForNextUpdate } = renderHook(() => useMemoryCollection<Task>('tasks.'));
+    await waitForNextUpdate();
+
+    await act(async () => {
+      await result.current.add({ title: 'One', done: false }, 'one');
+      await result.current.add({ title: 'Two', done: false }, 'two');
+      await result.current.add({ title: 'Three', done: false }, 'three');
+    });
+
+    await act(async () => {
+      await result.current.update('two', task => ({ ...(task as Task), done: true }));
+      await result.current.update('one', { title: 'First', done: false });
+    });
+    expect(result.current.data.map(item => item.value)).toEqual([
+      { title: 'First', done: false },
+      { title: 'Two', done: true },
+      { title: 'Three', done: false },
+    ]);
+
+    await act(async () => {
+      await result.current.reorder(['three', 'one']);
+    });
+    expect(result.current.data.map(item => item.id)).toEqual(['three', 'one', 'two']);
+
+    await act(async () => {
+      await result.current.remove('one');
+    });
+    expect(result.current.data.map(item => item.id)).toEqual(['three', 'two']);
+    expect(await memory.get('tasks.one')).toBeUndefined();
+  });
+
+  it('should pick up items written elsewhere', async () => {
+    await memory.set('tasks.b', { title: 'B', done: false }, { scope: 'project' });
+    await memory.set('tasks.a', { title: 'A', done: false }, { scope: 'project' });
+
+    const { result, waitForNextUpdate } = renderHook(() =>
+      useMemoryCollection<Task>('tasks.', { scope: 'project' })
+    );
+    await waitForNextUpdate();
+    expect(result.current.data.map(item => item.id)).toEqual(['a', 'b']);
+
+    await act(async () => {
+      await memory.set('tasks.c', { title: 'C', done: false }, { scope: 'project' });
+      await waitForNextUpdate();
+    });
+    expect(result.current.data.map(item => item.id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should set the error when a write fails', async () => {
+    const { result, waitForNextUpdate } = renderHook(() => useMemoryCollection<Task>('tasks.'));
+    await waitForNextUpdate();
+
+    const transaction = jest
+      .spyOn(memory, 'transaction')
+      .mockRejectedValueOnce(new Error('Storage offline'));
+
+    let id: string | undefined = 'unset';
+    await act(async () => {
+      id = await result.current.add({ title: 'Lost', done: false });
+    });
+
+    expect(id).toBeUndefined();
+    expect(result.current.error?.message).toBe('Storage offline');
+    expect(result.current.data).toEqual([]);
+    transaction.mockRestore();
+  });
+});
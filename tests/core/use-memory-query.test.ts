@@ -0,0 +1,90 @@
+import { renderHook, act } from '@testing-library/react-hooks';
+import { memory, useMemoryQuery } from '../../src/core/memory';
+
+interface Note {
+  title: string;
+  createdAt: number;
+}
+
+describe('useMemoryQuery', () => {
+  beforeEach(async () => {
+    localStorage.clear();
+    await memory.set('notes.b', { title: 'Second', createdAt: 2 });
+    await memory.set('notes.a', { title: 'Third', createdAt: 3 });
+    await memory.set('notes.c', { title: 'First', createdAt: 1 });
+    await memory.set('settings.theme', 'dark');
+  });
+
+  it('should list matching items ordered by key', async () => {
+    const { result, waitForNextUpdate } = renderHook(() => useMemoryQuery<Note>('notes.'));
+    expect(result.current.loading).toBe(true);
+
+    await waitForNextUpdate();
+
+    expect(result.current.loading).toBe(false);
+    expect(result.current.error).toBeNull();
+    expect(result.current.total).toBe(3);
+    expect(result.current.data.map(item => item.key)).toEqual(['notes.a', 'notes.b', 'notes.c']);
+  });
+
+  it('should sort and page the results', async () => {
+    const { result, waitForNextUpdate } = renderHook(() =>
+      useMemoryQuery<Note>(/^notes\./, {
+        sort: (a, b) => a.value.createdAt - b.value.createdAt,
+        offset: 1,
+        limit: 1,
+      })
+    );
+    await waitForNextUpdate();
+
+    expect(result.current.total).toBe(3);
+    expect(result.current.data).toEqual([
+      { key: 'notes.b', value: { title: 'Second', createdAt: 2 } },
+    ]);
+  });
+
+  it('should only read the requested scope', async () => {
+    await memory.set('notes.d', { title: 'Shared', createdAt: 4 }, { scope: 'project' });
+
+    const { result, waitForNextUpdate } = renderHook(() =>
+      useMemoryQuery<Note>('notes.', { scope: 'project' })
+    );
+    await waitForNextUpdate();
+
+    expect(result.current.data.map(item => item.key)).toEqual(['notes.d']);
+  });
+
+  it('should stay live as matching keys change', async () => {
+    const { result, waitForNextUpdate } = renderHook(() => useMemoryQuery<Note>('notes.'));
+    await waitForNextUpdate();
+
+    await act(async () => {
+      await memory.set('notes.e', { title: 'New', createdAt: 5 });
+      await waitForNextUpdate();
+    });
+    expect(result.current.total).toBe(4);
+
+    await act(async () => {
+      await memory.delete('notes.a');
+      await waitForNextUpdate();
+    });
+    expect(result.current.data.map(item => item.key)).toEqual(['notes.b', 'notes.c', 'notes.e']);
+  });
+
+  it('should report query errors', async () => {
+    const query = jest.spyOn(memory, 'query').mockRejectedValueOnce(new Error('Storage offline'));
+
+    const { result, waitForNextUpdate } = renderHook(() => useMemoryQuery('notes.'));
+    await waitForNextUpdate();
+
+    expect(result.current.loading).toBe(false);
+    expect(result.current.error?.message).toBe('Storage offline');
+
+    await act(async () => {
+      await result.current.refresh();
+    });
+    expect(result.current.error).toBeNull();
+    expect(result.current.total).toBe(3);
+    query.mockRestore();
+  });
+});
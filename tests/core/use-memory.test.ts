@@ -0,0 +1,246 @@
+import { renderHook, act } from '@testing-library/react-hooks';
+import {
+  createInMemoryAdapter,
+  createLocalStorageAdapter,
+  memory,
+  useMemory,
+} from '../../src/core/memory';
+
+describe('useMemory', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should load the stored value', async () => {
+    await memory.set('greeting', 'hello');
+
+    const { result, waitForNextUpdate } = renderHook(() => useMemory<string>('greeting'));
+    expect(result.current.loading).toBe(true);
+
+    await waitForNextUpdate();
+
+    expect(result.current.loading).toBe(false);
+    expect(result.current.data).toBe('hello');
+    expect(result.current.error).toBeNull();
+  });
+
+  it('should fall back when the key is missing', async () => {
+    const options = { scope: 'conversation' as const, fallback: 'default' };
+    const { result, waitForNextUpdate } = renderHook(() => useMemory<string>('missing', options));
+
+    await waitForNextUpdate();
+
+    expect(result.current.data).toBe('default');
+  });
+
+  it('should set, update and delete the value', async () => {
+    const { result, waitForNextUpdate } = renderHook(() => useMemory<number>('counter'));
+    await waitForNextUpdate();
+
+    await act(async () => {
+      await result.current.set(1);
+    });
+    expect(result.current.data).toBe(1);
+    expect(await memory.get('counter')).toBe(1);
+
+    await act(async () => {
+      await result.current.update(current => (current || 0) + 1);
+    });
+    expect(result.current.data).toBe(2);
+
+    await act(async () => {
+      await result.current.delete();
+    });
+    expect(result.current.data).toBeUndefined();
+    expect(await memory.get('counter')).toBeUndefined();
+  });
+
+  it('should follow writes made elsewhere', async () => {
+    const { result, waitForNextUpdate } = renderHook(() => useMemory<string>('status'));
+    await waitForNextUpdate();
+
+    await act(async () => {
+      await memory.set('status', 'ready');
+    });
+
+    expect(result.current.data).toBe('ready');
+  });
+
+  it('should ignore writes to the same key in other scopes', async () => {
+    const options = { scope: 'project' as const };
+    const { result, waitForNextUpdate } = renderHook(() => useMemory<string>('layout', options));
+    await waitForNextUpdate();
+
+    await act(async () => {
+      await memory.set('layout', 'split', { scope: 'project' });
+      await memory.set('layout', 'focus', { scope: 'conversation' });
+      await memory.delete('layout', { scope: 'conversation' });
+    });
+
+    expect(result.current.data).toBe('split');
+  });
+
+  it('should use the conversation scope when options leave it out', async () => {
+    await memory.set('theme', 'dark', { scope: 'project' });
+    const options = { fallback: 'light' };
+    const { result, waitForNextUpdate } = renderHook(() => useMemory<string>('theme', options));
+    await waitForNextUpdate();
+    expect(result.current.data).toBe('light');
+
+    await act(async () => {
+      await memory.set('theme', 'sepia', { scope: 'global' });
+      await result.current.set('blue');
+    });
+    expect(result.current.data).toBe('blue');
+
+    await act(async () => {
+      await result.current.delete();
+    });
+    expect(await memory.get('theme', { scope: 'project' })).toBe('dark');
+    expect(await memory.get('theme', { scope: 'global' })).toBe('sepia');
+  });
+
+  it('should not lose concurrent updates from two hooks', async () => {
+    const first = renderHook(() => useMemory<number>('clicks'));
+    const second = renderHook(() => useMemory<number>('clicks'));
+    await first.waitFor(() => !first.result.current.loading);
+    await second.waitFor(() => !second.result.current.loading);
+
+    await act(async () => {
+      await Promise.all([
+        first.result.current.update(count => (count ?? 0) + 1),
+        second.result.current.update(count => (count ?? 0) + 1),
+      ]);
+    });
+
+    expect(await memory.get('clicks')).toBe(2);
+    expect(first.result.current.data).toBe(2);
+  });
+
+  it('should expose write errors', async () => {
+    const { result, waitForNextUpdate } = renderHook(() => useMemory<unknown>('broken'));
+    await waitForNextUpdate();
+
+    const circular: Record<string, unknown> = {};
+    circular.self = circular;
+
+    await act(async () => {
+      await result.current.set(circular);
+    });
+
+    expect(result.current.error).toBeInstanceOf(Error);
+    expect(result.current.loading).toBe(false);
+  });
+
+  describe('optimistic', () => {
+    const options = { scope: 'conversation' as const, optimistic: true };
+
+    /**
+     * Make memory.set wait until released
+     */
+    const holdWrites = () => {
+      let release: () => void = () => undefined;
+      const released = new Promise<void>(resolve => {
+        release = resolve;
+      });
+      const originalSet = memory.set.bind(memory);
+      const spy = jest
+        .spyOn(memory, 'set')
+        .mockImplementation((...args: Parameters<typeof memory.set>) =>
+          released.then(() => originalSet(...args))
+        );
+      return { spy, release };
+    };
+
+    it('should show the value before the write completes', async () => {
+      const { result, waitForNextUpdate } = renderHook(() => useMemory<string>('title', options));
+      await waitForNextUpdate();
+      const { spy, release } = holdWrites();
+
+      let write: Promise<void> = Promise.resolve();
+      act(() => {
+        write = result.current.set('Draft');
+      });
+
+      expect(result.current.data).toBe('Draft');
+      expect(result.current.loading).toBe(false);
+      expect(await memory.get('title')).toBeUndefined();
+
+      await act(async () => {
+        release();
+        await write;
+      });
+      expect(await memory.get('title')).toBe('Draft');
+      spy.mockRestore();
+    });
+
+    it('should roll back and expose the error when the write fails', async () => {
+      await memory.set('title', 'Saved');
+      const { result, waitForNextUpdate } = renderHook(() => useMemory<string>('title', options));
+      await waitForNextUpdate();
+
+      const spy = jest.spyOn(memory, 'set').mockRejectedValueOnce(new Error('Backend offline'));
+      await act(async () => {
+        await result.current.set('Unsaved');
+      });
+
+      expect(result.current.data).toBe('Saved');
+      expect(result.current.error?.message).toBe('Backend offline');
+
+      const compareAndSet = jest
+        .spyOn(memory, 'compareAndSet')
+        .mockRejectedValueOnce(new Error('Backend offline'));
+      await act(async () => {
+        await result.current.update(title => `${title}!`);
+      });
+      expect(result.current.data).toBe('Saved');
+      spy.mockRestore();
+      compareAndSet.mockRestore();
+    });
+
+    it('should coalesce in-flight writes across hook instances', async () => {
+      const first = renderHook(() => useMemory<number>('volume', options));
+      const second = renderHook(() => useMemory<number>('volume', options));
+      await first.waitFor(() => !first.result.current.loading);
+      await second.waitFor(() => !second.result.current.loading);
+      const { spy, release } = holdWrites();
+
+      let writes: Promise<void>[] = [];
+      act(() => {
+        writes = [
+          first.result.current.set(1),
+          second.result.current.set(2),
+          first.result.current.set(3),
+        ];
+      });
+
+      await act(async () => {
+        release();
+        await Promise.all(writes);
+      });
+
+      // The second write was replaced by the third before it started
+      expect(spy.mock.calls.map(call => call[1])).toEqual([1, 3]);
+      expect(await memory.get('volume')).toBe(3);
+      expect(second.result.current.data).toBe(3);
+      spy.mockRestore();
+    });
+  });
+
+  it('should read from the adapter the host gives the shared memory', async () => {
+    const adapter = createInMemoryAdapter();
+    memory.setAdapter(adapter);
+
+    try {
+      await memory.set('greeting', 'hello');
+      const { result, waitForNextUpdate } = renderHook(() => useMemory<string>('greeting'));
+      await waitForNextUpdate();
+
+      expect(result.current.data).toBe('hello');
+      expect(await adapter.keys()).toEqual(['conversation_greeting']);
+      expect(localStorage.length).toBe(0);
+    } finally {
+      memory.setAdapter(createLocalStorageAdapter());
+    }
+  });
+});
@@ -0,0 +1,175 @@
+import React from 'react';
+import { renderHook, act } from '@testing-library/react-hooks';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import {
+  PermissionGate,
+  PermissionsManager,
+  createPolicyConsentProvider,
+  setConsentProvider,
+  usePendingPermissionRequests,
+  usePermission,
+} from '../../src/core/permissions';
+import { permissions } from '../../src/core/permissions/permissions';
+import { ConsentResponse, PermissionRequest } from '../../src/core/permissions/types';
+
+const plugin = { kind: 'plugin' as const, id: 'com.acme.notes' };
+
+describe('usePermission', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    setConsentProvider(createPolicyConsentProvider('grant'));
+  });
+
+  afterEach(() => {
+    setConsentProvider(null);
+  });
+
+  it('should request and revoke a permission', async () => {
+    const { result, waitForNextUpdate } = renderHook(() =>
+      usePermission('memory', ['read'], 'conversation', { purpose: 'Show notes' })
+    );
+    await waitForNextUpdate();
+    expect(result.current).toMatchObject({ status: 'prompt', loading: false });
+
+    await act(async () => {
+      const granted = await result.current.request();
+      expect(granted.request.purpose).toBe('Show notes');
+    });
+    expect(result.current.status).toBe('granted');
+    expect(result.current.expiresAt).toEqual(expect.any(Number));
+
+    await act(async () => {
+      await result.current.revoke();
+    });
+    expect(result.current.status).toBe('prompt');
+    expect(await permissions.check('memory', ['read'], 'conversation')).toBe(false);
+  });
+
+  it('should follow grants and denials made elsewhere', async () => {
+    const { result, waitForNextUpdate } = renderHook(() =>
+      usePermission('network', ['read'], 'global', { principal: plugin })
+    );
+    await waitForNextUpdate();
+
+    // Host grants don't apply to the plugin
+    await act(async () => {
+      await permissions.request({ type: 'network', access: ['read'], scope: 'global' });
+    });
+    expect(result.current.status).toBe('prompt');
+
+    setConsentProvider(createPolicyConsentProvider('deny'));
+    await act(async () => {
+      await new PermissionsManager(plugin).request({
+        type: 'network',
+        access: ['read', 'write'],
+        scope: 'global',
+      });
+    });
+    expect(result.current.status).toBe('denied');
+
+    setConsentProvider(createPolicyConsentProvider('grant'));
+    await act(async () => {
+      await new PermissionsManager(plugin).request({
+        type: 'network',
+        access: ['read'],
+        scope: 'global',
+      });
+    });
+    await waitFor(() => expect(result.current.status).toBe('granted'));
+  });
+
+  it('should expire with its grant', async () => {
+    await permissions.request({
+      type: 'memory',
+      access: ['read'],
+      scope: 'conversation',
+      duration: 50,
+    });
+
+    const { result, waitForNextUpdate } = renderHook(() =>
+      usePermission('memory', ['read'], 'conversation')
+    );
+    await waitForNextUpdate();
+    expect(result.current.status).toBe('granted');
+
+    await waitFor(() => expect(result.current.status).toBe('expired'));
+    expect(result.current.expiresAt).toBeUndefined();
+  });
+});
+
+describe('PermissionGate', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    setConsentProvider(createPolicyConsentProvider('grant'));
+  });
+
+  afterEach(() => {
+    setConsentProvider(null);
+  });
+
+  it('should render a request button until the permission is granted', async () => {
+    render(
+      React.createElement(
+        PermissionGate,
+        { type: 'memory', access: ['read'], scope: 'conversation' },
+        'Your notes'
+      )
+    );
+
+    fireEvent.click(await screen.findByText('Allow memory access'));
+
+    expect(await screen.findByText('Your notes')).toBeInTheDocument();
+    expect(screen.queryByText('Allow memory access')).not.toBeInTheDocument();
+  });
+
+  it('should render the fallback with the permission state', async () => {
+    setConsentProvider(createPolicyConsentProvider('deny'));
+    render(
+      React.createElement(
+        PermissionGate,
+        {
+          type: 'memory',
+          access: ['read'],
+          scope: 'conversation',
+          fallback: ({ status, request }) =>
+            React.createElement('button', { onClick: () => void request() }, `Status: ${status}`),
+        },
+        'Your notes'
+      )
+    );
+
+    fireEvent.click(await screen.findByText('Status: prompt'));
+
+    expect(await screen.findByText('Status: denied')).toBeInTheDocument();
+  });
+});
+
+describe('usePendingPermissionRequests', () => {
+  afterEach(() => {
+    setConsentProvider(null);
+    localStorage.clear();
+  });
+
+  it('should list requests waiting for consent', async () => {
+    let answer: (response: ConsentResponse) => void = () => undefined;
+    setConsentProvider({
+      requestConsent: () => new Promise(resolve => (answer = resolve)),
+    });
+    const request: PermissionRequest = { type: 'camera', access: ['read'], scope: 'global' };
+
+    const { result } = renderHook(() => usePendingPermissionRequests());
+    expect(result.current).toEqual([]);
+
+    let pending: Promise<unknown> = Promise.resolve();
+    act(() => {
+      pending = new PermissionsManager(plugin).request(request);
+    });
+    expect(result.current).toMatchObject([{ request, principal: plugin }]);
+
+    await act(async () => {
+      answer(true);
+      await pending;
+    });
+    expect(result.current).toEqual([]);
+  });
+});
@@ -7,6 +7,7 @@ import { usePanels } from '../../src/surfaces/panels';
 import { useCards } from '../../src/surfaces/cards';
 import { useModals } from '../../src/surfaces/modals';
 import { logger } from '../../src/core/utils/logger';
+import { createPolicyConsentProvider, setConsentProvider } from '../../src/core/permissions/consent';
 
 // Create a test component to render our surfaces
 function TestComponent({ plugin, app }: { plugin: any; app: any }) {
@@ -96,6 +97,13 @@ describe('Plugin Surface Integration', () => {
     jest.clearAllMocks();
     // Clear any previous window.testSurfaces
     (window as any).testSurfaces = undefined;
+    // Grant the permissions plugins request on first use
+    setConsentProvider(createPolicyConsentProvider('grant'));
+  });
+
+  afterEach(() => {
+    setConsentProvider(null);
+    localStorage.clear();
   });
 
   it('should allow a plugin to control multiple surfaces', async () => {
@@ -108,6 +116,7 @@ describe('Plugin Surface Integration', () => {
         { type: 'memory', access: ['read', 'write'] },
         { type: 'surfaces', access: ['read', 'write'] }
       ],
+      promptOnFirstUse: true,
       surfaces: {
         cards: {
           defaultContent: 'Plugin Card'
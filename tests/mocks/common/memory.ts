@@ -8,8 +8,4 @@ export const useMemory = jest.fn(() => {
     setItem: jest.fn(),
     removeItem: jest.fn(),
   };
-});
-
-export const getMemoryItem = jest.fn(() => null);
-export const setMemoryItem = jest.fn();
-export const removeMemoryItem = jest.fn(); 
\ No newline at end of file
+}); 
\ No newline at end of file